@@ -0,0 +1,138 @@
+/**
+ * Matchup CLI
+ *
+ * Runs the Monte Carlo matchup tables from the command line:
+ *
+ *   npm run matchups -- [--battles 200] [--units 1] [--seed 1]
+ *                       [--cards "Poison Arrows,Epic War Fury" | --cards all [--rarity common]]
+ *                       [--types knight,archer] [--arena hexagon] [--out matchups]
+ *
+ * --cards picks ALL_CARDS by name (case-insensitive); "all" takes every card
+ * of --rarity. Each FighterType is entered alone and once per selected card.
+ * Every battle is fought on --arena (default hexagon) so hazards and layouts
+ * don't mix into the comparison.
+ * With --out the win-rate and survivor matrices are written as CSV plus the
+ * full report as JSON; without it the win-rate CSV goes to stdout.
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { ALL_CARDS, isKeepableCard, type Card, type CardRarity } from '../src/game/Card';
+import type { FighterType } from '../src/game/types';
+import { ARENA_IDS, type ArenaId } from '../src/game/Arenas';
+import {
+  MATCHUP_FIGHTER_TYPES,
+  buildMatchupEntries,
+  runMatchups,
+  matchupMatrixToCSV,
+  matchupReportToJSON
+} from '../src/game/MatchupRunner';
+
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      fail(`Unexpected argument "${arg}"`);
+    }
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith('--')) {
+      fail(`Missing value for ${arg}`);
+    }
+    args.set(arg.slice(2), value);
+    i++;
+  }
+  return args;
+}
+
+function fail(message: string): never {
+  process.stderr.write(`matchups: ${message}\n`);
+  process.exit(1);
+}
+
+function parseCount(args: Map<string, string>, name: string, fallback: number): number {
+  const raw = args.get(name);
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    fail(`--${name} must be a positive integer`);
+  }
+  return value;
+}
+
+function selectCards(args: Map<string, string>): Card[] {
+  const spec = args.get('cards');
+  if (!spec) return [];
+
+  if (spec === 'all') {
+    const rarity = (args.get('rarity') || 'common') as CardRarity;
+    const cards = ALL_CARDS.filter(card => card.rarity === rarity && isKeepableCard(card));
+    if (cards.length === 0) fail(`Unknown rarity "${rarity}"`);
+    return cards;
+  }
+
+  return spec.split(',').map(name => {
+    const card = ALL_CARDS.find(c => c.name.toLowerCase() === name.trim().toLowerCase());
+    if (!card) fail(`Unknown card "${name.trim()}"`);
+    if (!isKeepableCard(card)) fail(`"${card.name}" is a community-only arena card - use --arena instead`);
+    return card;
+  });
+}
+
+function selectTypes(args: Map<string, string>): FighterType[] {
+  const spec = args.get('types');
+  if (!spec) return MATCHUP_FIGHTER_TYPES;
+
+  return spec.split(',').map(name => {
+    const type = MATCHUP_FIGHTER_TYPES.find(t => t === name.trim());
+    if (!type) fail(`Unknown fighter type "${name.trim()}"`);
+    return type;
+  });
+}
+
+function selectArena(args: Map<string, string>): ArenaId {
+  const name = args.get('arena');
+  if (!name) return 'hexagon';
+
+  const arena = ARENA_IDS.find(id => id === name.trim());
+  if (!arena) fail(`Unknown arena "${name.trim()}" (expected one of ${ARENA_IDS.join(', ')})`);
+  return arena;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const entries = buildMatchupEntries(selectTypes(args), selectCards(args));
+const battlesPerMatchup = parseCount(args, 'battles', 200);
+const unitCardsPerSide = parseCount(args, 'units', 1);
+const seed = parseCount(args, 'seed', 1);
+const arena = selectArena(args);
+const outDir = args.get('out');
+
+const startTime = Date.now();
+const report = runMatchups(entries, {
+  battlesPerMatchup,
+  unitCardsPerSide,
+  seed,
+  arena,
+  onProgress: (done, total) => {
+    process.stderr.write(`\r${done}/${total} pairings (${Math.round((Date.now() - startTime) / 1000)}s)`);
+  }
+});
+process.stderr.write('\n');
+
+// Mirror matches are zero-sum, so a diagonal cell that isn't even means the tally is wrong
+report.cells.forEach((row, i) => {
+  const mirror = row[i];
+  if (mirror.wins !== mirror.losses) {
+    fail(`Mirror match "${report.labels[i]}" reports ${mirror.wins} wins but ${mirror.losses} losses`);
+  }
+});
+
+if (outDir) {
+  mkdirSync(outDir, { recursive: true });
+  writeFileSync(join(outDir, 'winrate.csv'), matchupMatrixToCSV(report, 'winRate'));
+  writeFileSync(join(outDir, 'survivors.csv'), matchupMatrixToCSV(report, 'avgSurvivors'));
+  writeFileSync(join(outDir, 'matchups.json'), matchupReportToJSON(report));
+  process.stderr.write(`Wrote winrate.csv, survivors.csv and matchups.json to ${outDir}\n`);
+} else {
+  process.stdout.write(matchupMatrixToCSV(report, 'winRate'));
+}
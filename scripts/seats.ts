@@ -0,0 +1,60 @@
+/**
+ * Seat Check
+ *
+ * Plays one lopsided battle per poker seat and checks the simulator reports
+ * the seat whose army won:
+ *
+ *   npm run seats
+ *
+ * Each seat fields a strong army against a weak one from another seat, so the
+ * winner is known up front. Exits non-zero if any battle is credited to the
+ * wrong seat - e.g. when the team colour to seat table and the colour each
+ * army spawns as disagree.
+ */
+
+import { BattleSimulator, type BattleConfig } from '../src/game/BattleSimulator';
+import type { FighterType, PlayerPosition } from '../src/game/types';
+import type { UnitCard } from '../src/game/UnitCardDeck';
+
+const SEATS: PlayerPosition[] = ['player', 'opponent', 'topLeft', 'topRight', 'bottomLeft', 'bottomRight'];
+
+// The simulator only reads the type off a unit card
+function createUnitCards(type: FighterType, count: number): UnitCard[] {
+  return Array.from({ length: count }, (_, i) => ({ id: i + 1, type, name: type, description: '', color: '#ffffff' }));
+}
+
+function createSeatConfig(winner: PlayerPosition, loser: PlayerPosition, seed: number): BattleConfig {
+  const armies = new Map<PlayerPosition, UnitCard[]>([
+    [winner, createUnitCards('knight', 2)],
+    [loser, createUnitCards('mage', 1)]
+  ]);
+  return {
+    playerUnits: armies.get('player') ?? [],
+    opponentUnits: armies.get('opponent') ?? [],
+    leftUnits: armies.get('topLeft'),
+    topRightUnits: armies.get('topRight'),
+    bottomLeftUnits: armies.get('bottomLeft'),
+    bottomRightUnits: armies.get('bottomRight'),
+    modifiers: [],
+    playerGodCards: [],
+    opponentGodCards: [],
+    seed,
+    arena: 'hexagon'
+  };
+}
+
+const simulator = new BattleSimulator();
+let failures = 0;
+
+for (const [i, seat] of SEATS.entries()) {
+  const loser = SEATS[(i + 1) % SEATS.length];
+  const summary = simulator.run(createSeatConfig(seat, loser, i + 1));
+  const ok = summary.winner === seat;
+  if (!ok) failures++;
+  process.stdout.write(`${ok ? 'ok  ' : 'FAIL'} ${seat} army vs ${loser} army: winner reported as ${summary.winner}\n`);
+}
+
+if (failures > 0) {
+  process.stderr.write(`${failures} of ${SEATS.length} seats reported the wrong winner\n`);
+  process.exit(1);
+}
@@ -2,6 +2,7 @@ import type { PlayerAction, FighterType } from './types';
 import type { Card } from './Card';
 import type { UnitCard } from './UnitCardDeck';
 import type { PokerGameState } from './PokerGame';
+import { SeededRandom } from './SeededRandom';
 
 // Unit synergy bonuses for hand evaluation
 const UNIT_BASE_STRENGTH: Record<FighterType, number> = {
@@ -9,7 +10,9 @@ const UNIT_BASE_STRENGTH: Record<FighterType, number> = {
   swordsman: 3, // Balanced
   archer: 3,    // Good damage
   mage: 3,      // High damage but squishy
-  healer: 2     // Support, weaker alone
+  healer: 2,    // Support, weaker alone
+  cavalry: 3,   // Strong opener, weak in a long melee
+  assassin: 2   // Picks off the backline, fragile once revealed
 };
 
 // Synergy combinations that are stronger together
@@ -19,6 +22,9 @@ const SYNERGIES: Array<{ units: [FighterType, FighterType]; bonus: number; reaso
   { units: ['knight', 'mage'], bonus: 3, reason: 'Tank + DPS' },
   { units: ['swordsman', 'healer'], bonus: 2, reason: 'Melee + Support' },
   { units: ['archer', 'mage'], bonus: 2, reason: 'Double ranged' },
+  { units: ['knight', 'cavalry'], bonus: 2, reason: 'Anvil + Hammer' },
+  { units: ['knight', 'assassin'], bonus: 3, reason: 'Frontline + Dive' },
+  { units: ['assassin', 'assassin'], bonus: -1, reason: 'No frontline' },
   { units: ['swordsman', 'swordsman'], bonus: 1, reason: 'Double melee pressure' },
   { units: ['knight', 'knight'], bonus: 3, reason: 'Double tank' },
   { units: ['healer', 'healer'], bonus: -2, reason: 'Low damage' },
@@ -26,8 +32,10 @@ const SYNERGIES: Array<{ units: [FighterType, FighterType]; bonus: number; reaso
 
 export class AIOpponent {
   private aggression: number; // 0.0 to 1.0, higher = more aggressive betting
+  private rng: SeededRandom;
 
-  constructor(aggression: number = 0.5) {
+  constructor(aggression: number = 0.5, rng: SeededRandom = new SeededRandom()) {
+    this.rng = rng;
     this.aggression = Math.max(0, Math.min(1, aggression));
   }
 
@@ -96,6 +104,9 @@ export class AIOpponent {
       if (unit.type === 'mage' && effect.mageVoidEruptionAbility) bonus += 1.5;
       if (unit.type === 'healer' && effect.healerPurifyAbility) bonus += 1.5;
       if (unit.type === 'healer' && effect.healPowerMultiplier) bonus += 0.8;
+      if (unit.type === 'cavalry' && effect.cavalryTrampleAbility) bonus += 1.5;
+      if (unit.type === 'cavalry' && effect.cavalryChargeMultiplier) bonus += 0.8;
+      if (unit.type === 'assassin' && effect.assassinVanishAbility) bonus += 1.5;
     }
 
     // Universal bonuses
@@ -128,7 +139,7 @@ export class AIOpponent {
     }
 
     // Add some randomness for unpredictability
-    effectiveStrength += (Math.random() - 0.5) * 0.1;
+    effectiveStrength += (this.rng.next() - 0.5) * 0.1;
 
     // Decision logic
     const callAmount = state.currentBet - state.opponent.currentBet;
@@ -182,7 +193,7 @@ export class AIOpponent {
     let raiseSize = Math.floor(state.pot * baseRatio);
 
     // Add some variance
-    raiseSize = Math.floor(raiseSize * (0.8 + Math.random() * 0.4));
+    raiseSize = Math.floor(raiseSize * (0.8 + this.rng.next() * 0.4));
 
     // Clamp to valid range
     raiseSize = Math.max(minRaise, Math.min(maxRaise, raiseSize));
@@ -198,13 +209,13 @@ export class AIOpponent {
    */
   shouldBluff(state: PokerGameState): boolean {
     // Only bluff sometimes based on aggression
-    if (Math.random() > this.aggression * 0.3) return false;
+    if (this.rng.next() > this.aggression * 0.3) return false;
 
     // More likely to bluff in position
     if (state.dealerPosition !== 'opponent') return false;
 
     // More likely to bluff with fewer community cards (more uncertainty)
     const bluffChance = 0.1 + (0.1 * (5 - state.communityCards.length));
-    return Math.random() < bluffChance;
+    return this.rng.chance(bluffChance);
   }
 }
@@ -1,12 +1,9 @@
 import { Fighter } from './Fighter';
-import { Arrow } from './Arrow';
-import { PiercingArrow } from './PiercingArrow';
 import { SpriteRenderer } from './SpriteRenderer';
 import { SoundManager } from './SoundManager';
 import type { Team, FighterType } from './types';
 
 export class Archer extends Fighter {
-  arrows: (Arrow | PiercingArrow)[] = [];
   private attackCount: number = 0;
 
   constructor(team: Team, x: number, canvasHeight: number) {
@@ -31,16 +28,21 @@ export class Archer extends Fighter {
     return 'archer';
   }
 
+  isRanged(): boolean {
+    return true;
+  }
+
   protected attack(target: Fighter, allEnemies?: Fighter[]): void {
-    const now = Date.now();
+    const now = this.context.clock.now();
     if (now - this.lastAttackTime >= this.attackCooldown) {
       this.attackCount++;
 
       // Check for piercing ability (every 5 attacks)
       if (this.modifiers?.archerFanAbility && this.attackCount % 5 === 0 && allEnemies) {
         this.firePiercingArrow(target, allEnemies);
+        this.announceAbility('piercing_shot');
       } else {
-        this.arrows.push(new Arrow(this.x, this.y, target, this.damage, this.team, this));
+        this.context.projectiles.spawnArrow(this.x, this.y, target, this.damage, this.team, this);
       }
 
       SoundManager.playArrowShot();
@@ -50,25 +52,10 @@ export class Archer extends Fighter {
 
   private firePiercingArrow(target: Fighter, allEnemies: Fighter[]): void {
     const aliveEnemies = allEnemies.filter(e => !e.isDead);
-    this.arrows.push(new PiercingArrow(this.x, this.y, target, this.damage, this.team, this, aliveEnemies));
-  }
-
-  update(enemies: Fighter[], deltaTime: number, allies?: Fighter[]): void {
-    // Always update arrows even if archer is dead (so they can finish)
-    for (const arrow of this.arrows) {
-      arrow.update();
-    }
-    this.arrows = this.arrows.filter(arrow => !arrow.isDead);
-
-    // Use the base Fighter update which includes the slot system
-    super.update(enemies, deltaTime, allies);
+    this.context.projectiles.spawnPiercingArrow(this.x, this.y, target, this.damage, this.team, this, aliveEnemies);
   }
 
   draw(ctx: CanvasRenderingContext2D): void {
-    for (const arrow of this.arrows) {
-      arrow.draw(ctx);
-    }
-
     if (this.isDead) return;
 
     this.drawStatusEffects(ctx);
@@ -0,0 +1,390 @@
+/**
+ * Arenas
+ *
+ * Battlefield definitions: the boundary shape, where each team spawns, hazard
+ * zones and the obstacle/terrain layout on the battle grid. Definitions are
+ * written in arena radii relative to the arena centre, so they scale with the
+ * canvas; an Arena places one on a simulator's canvas and answers the
+ * geometry questions combat needs (is this point inside, where is the nearest
+ * point inside, which hazard is here). Boundaries are convex. Hazards are
+ * ground units won't walk into - knockback can still throw them in, and
+ * anything inside takes a share of its max health every hazard tick.
+ */
+
+import type { Team } from './types';
+import { DEFAULT_OBSTACLES, type Obstacle } from './Obstacles';
+import { DEFAULT_TERRAIN, type TerrainTile } from './Terrain';
+import type { SeededRandom } from './SeededRandom';
+
+export type ArenaId = 'hexagon' | 'ring' | 'islands' | 'corridor';
+
+export type HazardKind = 'abyss' | 'chasm';
+
+export interface ArenaPoint {
+  x: number;
+  y: number;
+}
+
+// A circle or a polygon, in arena radii around the centre
+export type ArenaArea =
+  | { shape: 'circle'; x: number; y: number; radius: number }
+  | { shape: 'polygon'; points: ArenaPoint[] };
+
+export interface ArenaHazard {
+  kind: HazardKind;
+  area: ArenaArea;
+}
+
+export interface ArenaSpawn {
+  x: number;
+  y: number;
+  angle: number;      // Formation orientation - ranks are laid out across angle + PI
+  score: ArenaPoint;  // Where the team's kill score is drawn
+}
+
+export interface ArenaDefinition {
+  id: ArenaId;
+  name: string;
+  boundary: ArenaArea;
+  spawns: Record<Team, ArenaSpawn>;
+  hazards: ArenaHazard[];
+  obstacles: Obstacle[];
+  terrain: TerrainTile[];
+}
+
+export const HAZARD_EFFECTS: Record<HazardKind, { name: string; damagePerSecond: number }> = {
+  abyss: { name: 'Abyss', damagePerSecond: 0.6 },  // Share of max health
+  chasm: { name: 'Chasm', damagePerSecond: 0.3 }
+};
+
+// Hazard damage is dealt in steps rather than every tick
+export const HAZARD_TICK_INTERVAL = 500;
+
+// Teams around the edge of a round arena (0 = right, counterclockwise)
+const EDGE_ANGLES: Record<Team, number> = {
+  blue: Math.PI / 2,        // 90 degrees (top)
+  green: Math.PI * 5 / 6,   // 150 degrees
+  orange: Math.PI * 7 / 6,  // 210 degrees
+  red: Math.PI * 3 / 2,     // 270 degrees (bottom)
+  pink: Math.PI * 11 / 6,   // 330 degrees
+  purple: Math.PI / 6       // 30 degrees
+};
+
+function edgeSpawns(distance: number): Record<Team, ArenaSpawn> {
+  const spawns = {} as Record<Team, ArenaSpawn>;
+  for (const [team, angle] of Object.entries(EDGE_ANGLES) as [Team, number][]) {
+    spawns[team] = {
+      x: Math.cos(angle) * distance,
+      y: -Math.sin(angle) * distance,
+      angle,
+      score: { x: Math.cos(angle) * 1.1, y: -Math.sin(angle) * 1.1 }
+    };
+  }
+  return spawns;
+}
+
+function rect(left: number, top: number, right: number, bottom: number): ArenaArea {
+  return { shape: 'polygon', points: [{ x: left, y: top }, { x: right, y: top }, { x: right, y: bottom }, { x: left, y: bottom }] };
+}
+
+// Flat-sided hexagon whose edge midpoints sit at radius 1 (the spawn edges)
+const HEXAGON_BOUNDARY: ArenaArea = {
+  shape: 'polygon',
+  points: [0, 1, 2, 3, 4, 5].map(i => ({
+    x: Math.cos((Math.PI / 3) * i) / Math.cos(Math.PI / 6),
+    y: Math.sin((Math.PI / 3) * i) / Math.cos(Math.PI / 6)
+  }))
+};
+
+export const ARENAS: Record<ArenaId, ArenaDefinition> = {
+  hexagon: {
+    id: 'hexagon',
+    name: 'Hexagon',
+    boundary: HEXAGON_BOUNDARY,
+    spawns: edgeSpawns(0.8),
+    hazards: [],
+    obstacles: DEFAULT_OBSTACLES,
+    terrain: DEFAULT_TERRAIN
+  },
+
+  // Round arena around a bottomless pit - knockbacks towards the middle are lethal
+  ring: {
+    id: 'ring',
+    name: 'Ring of Ruin',
+    boundary: { shape: 'circle', x: 0, y: 0, radius: 1 },
+    spawns: edgeSpawns(0.8),
+    hazards: [{ kind: 'abyss', area: { shape: 'circle', x: 0, y: 0, radius: 0.3 } }],
+    obstacles: [
+      { col: 1, row: 5, kind: 'pillar' },
+      { col: 13, row: 5, kind: 'pillar' },
+      { col: 5, row: 0, kind: 'pillar' },
+      { col: 10, row: 0, kind: 'pillar' },
+      { col: 5, row: 11, kind: 'pillar' },
+      { col: 9, row: 11, kind: 'pillar' }
+    ],
+    terrain: [
+      { col: 2, row: 5, kind: 'forest' },
+      { col: 12, row: 5, kind: 'forest' }
+    ]
+  },
+
+  // Two islands over a chasm, joined by a bridge near the top and one near the bottom
+  islands: {
+    id: 'islands',
+    name: 'Sundered Isles',
+    boundary: rect(-1.4, -0.95, 1.4, 0.95),
+    spawns: {
+      green: { x: -0.85, y: -0.55, angle: Math.PI, score: { x: -1.5, y: -0.55 } },
+      red: { x: -0.85, y: 0, angle: Math.PI, score: { x: -1.5, y: 0 } },
+      orange: { x: -0.85, y: 0.55, angle: Math.PI, score: { x: -1.5, y: 0.55 } },
+      purple: { x: 0.85, y: -0.55, angle: 0, score: { x: 1.5, y: -0.55 } },
+      blue: { x: 0.85, y: 0, angle: 0, score: { x: 1.5, y: 0 } },
+      pink: { x: 0.85, y: 0.55, angle: 0, score: { x: 1.5, y: 0.55 } }
+    },
+    hazards: [
+      { kind: 'chasm', area: rect(-0.15, -0.95, 0.15, -0.6) },
+      { kind: 'chasm', area: rect(-0.15, -0.4, 0.15, 0.4) },
+      { kind: 'chasm', area: rect(-0.15, 0.6, 0.15, 0.95) }
+    ],
+    obstacles: [
+      { col: 2, row: 5, kind: 'pillar' },
+      { col: 12, row: 5, kind: 'pillar' }
+    ],
+    terrain: [
+      { col: 3, row: 3, kind: 'forest' },
+      { col: 11, row: 3, kind: 'forest' },
+      { col: 3, row: 8, kind: 'forest' },
+      { col: 12, row: 8, kind: 'forest' },
+      // Bridgeheads
+      { col: 5, row: 0, kind: 'high_ground' },
+      { col: 10, row: 0, kind: 'high_ground' },
+      { col: 5, row: 11, kind: 'high_ground' },
+      { col: 9, row: 11, kind: 'high_ground' }
+    ]
+  },
+
+  // Long, narrow hall - teams queue up at both ends and meet at a choke in the middle
+  corridor: {
+    id: 'corridor',
+    name: 'The Gauntlet',
+    boundary: rect(-1.45, -0.4, 1.45, 0.4),
+    spawns: {
+      red: { x: -1.3, y: 0, angle: Math.PI, score: { x: -1.3, y: -0.55 } },
+      green: { x: -1.0, y: 0, angle: Math.PI, score: { x: -1.0, y: -0.55 } },
+      orange: { x: -0.7, y: 0, angle: Math.PI, score: { x: -0.7, y: -0.55 } },
+      blue: { x: 1.3, y: 0, angle: 0, score: { x: 1.3, y: -0.55 } },
+      pink: { x: 1.0, y: 0, angle: 0, score: { x: 1.0, y: -0.55 } },
+      purple: { x: 0.7, y: 0, angle: 0, score: { x: 0.7, y: -0.55 } }
+    },
+    hazards: [],
+    obstacles: [
+      // Walls from the top and bottom leave a gap in the middle
+      { col: 7, row: 1, kind: 'wall' },
+      { col: 7, row: 2, kind: 'wall' },
+      { col: 8, row: 2, kind: 'wall' },
+      { col: 7, row: 3, kind: 'wall' },
+      { col: 7, row: 7, kind: 'wall' },
+      { col: 7, row: 8, kind: 'wall' },
+      { col: 8, row: 8, kind: 'wall' },
+      { col: 7, row: 9, kind: 'wall' }
+    ],
+    terrain: [
+      { col: 6, row: 5, kind: 'swamp' },
+      { col: 8, row: 5, kind: 'swamp' },
+      { col: 3, row: 5, kind: 'high_ground' },
+      { col: 11, row: 5, kind: 'high_ground' }
+    ]
+  }
+};
+
+export const ARENA_IDS: ArenaId[] = ['hexagon', 'ring', 'islands', 'corridor'];
+
+export function pickRandomArena(rng: SeededRandom): ArenaId {
+  return ARENA_IDS[rng.nextInt(ARENA_IDS.length)];
+}
+
+// World-space area, resolved once per arena
+type WorldArea =
+  | { shape: 'circle'; x: number; y: number; radius: number }
+  | { shape: 'polygon'; points: ArenaPoint[] };
+
+export class Arena {
+  readonly definition: ArenaDefinition;
+  readonly centerX: number;
+  readonly centerY: number;
+  readonly radius: number; // Pixels per arena radius
+  private boundary: WorldArea;
+  private hazards: { kind: HazardKind; area: WorldArea }[];
+
+  constructor(definition: ArenaDefinition, centerX: number, centerY: number, radius: number) {
+    this.definition = definition;
+    this.centerX = centerX;
+    this.centerY = centerY;
+    this.radius = radius;
+    this.boundary = this.toWorldArea(definition.boundary);
+    this.hazards = definition.hazards.map(h => ({ kind: h.kind, area: this.toWorldArea(h.area) }));
+  }
+
+  toWorld(point: ArenaPoint): ArenaPoint {
+    return { x: this.centerX + point.x * this.radius, y: this.centerY + point.y * this.radius };
+  }
+
+  private toWorldArea(area: ArenaArea): WorldArea {
+    if (area.shape === 'circle') {
+      const center = this.toWorld(area);
+      return { shape: 'circle', x: center.x, y: center.y, radius: area.radius * this.radius };
+    }
+    return { shape: 'polygon', points: area.points.map(p => this.toWorld(p)) };
+  }
+
+  getSpawn(team: Team): { x: number; y: number; angle: number } {
+    const spawn = this.definition.spawns[team];
+    const { x, y } = this.toWorld(spawn);
+    return { x, y, angle: spawn.angle };
+  }
+
+  getScoreAnchor(team: Team): ArenaPoint {
+    return this.toWorld(this.definition.spawns[team].score);
+  }
+
+  contains(x: number, y: number): boolean {
+    return areaContains(this.boundary, x, y);
+  }
+
+  // Nearest point inside the boundary, shrunk towards the centre by `margin` px
+  clampInside(x: number, y: number, margin: number = 0): ArenaPoint {
+    const scale = (this.radius - margin) / this.radius;
+    // Work in the shrunk arena by scaling the point out, then back in
+    const sx = this.centerX + (x - this.centerX) / scale;
+    const sy = this.centerY + (y - this.centerY) / scale;
+    if (areaContains(this.boundary, sx, sy)) return { x, y };
+
+    const nearest = nearestPointOnArea(this.boundary, sx, sy);
+    return {
+      x: this.centerX + (nearest.x - this.centerX) * scale,
+      y: this.centerY + (nearest.y - this.centerY) * scale
+    };
+  }
+
+  // Distance from the centre to the furthest point of the boundary
+  getOuterRadius(): number {
+    const area = this.boundary;
+    if (area.shape === 'circle') {
+      const dx = area.x - this.centerX;
+      const dy = area.y - this.centerY;
+      return Math.sqrt(dx * dx + dy * dy) + area.radius;
+    }
+    let furthest = 0;
+    for (const p of area.points) {
+      const dx = p.x - this.centerX;
+      const dy = p.y - this.centerY;
+      furthest = Math.max(furthest, Math.sqrt(dx * dx + dy * dy));
+    }
+    return furthest;
+  }
+
+  hazardAt(x: number, y: number): HazardKind | null {
+    for (const hazard of this.hazards) {
+      if (areaContains(hazard.area, x, y)) return hazard.kind;
+    }
+    return null;
+  }
+
+  // Ground units walk only inside the boundary and outside hazards
+  isWalkable(x: number, y: number): boolean {
+    return this.contains(x, y) && this.hazardAt(x, y) === null;
+  }
+
+  // Path the boundary, pushed out by `padding` px (for the arena floor and rim)
+  traceBoundary(ctx: CanvasRenderingContext2D, padding: number = 0): void {
+    traceArea(ctx, this.boundary, this.centerX, this.centerY, (this.radius + padding) / this.radius);
+  }
+
+  drawHazards(ctx: CanvasRenderingContext2D): void {
+    for (const hazard of this.hazards) {
+      traceArea(ctx, hazard.area, this.centerX, this.centerY, 1);
+      if (hazard.kind === 'abyss' && hazard.area.shape === 'circle') {
+        const { x, y, radius } = hazard.area;
+        const pit = ctx.createRadialGradient(x, y, 0, x, y, radius);
+        pit.addColorStop(0, '#000000');
+        pit.addColorStop(0.8, '#0a0a0a');
+        pit.addColorStop(1, '#450a0a');
+        ctx.fillStyle = pit;
+      } else {
+        ctx.fillStyle = hazard.kind === 'abyss' ? '#050505' : '#0c2d48';
+      }
+      ctx.fill();
+      ctx.strokeStyle = hazard.kind === 'abyss' ? 'rgba(220, 38, 38, 0.6)' : 'rgba(56, 189, 248, 0.4)';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+  }
+}
+
+function areaContains(area: WorldArea, x: number, y: number): boolean {
+  if (area.shape === 'circle') {
+    const dx = x - area.x;
+    const dy = y - area.y;
+    return dx * dx + dy * dy <= area.radius * area.radius;
+  }
+
+  // Ray casting
+  const points = area.points;
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function nearestPointOnArea(area: WorldArea, x: number, y: number): ArenaPoint {
+  if (area.shape === 'circle') {
+    const dx = x - area.x;
+    const dy = y - area.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist < 0.001) return { x: area.x, y: area.y };
+    return { x: area.x + (dx / dist) * area.radius, y: area.y + (dy / dist) * area.radius };
+  }
+
+  let best: ArenaPoint = area.points[0];
+  let bestDist = Infinity;
+  const points = area.points;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[j];
+    const b = points[i];
+    const ex = b.x - a.x;
+    const ey = b.y - a.y;
+    const lengthSq = ex * ex + ey * ey;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - a.x) * ex + (y - a.y) * ey) / lengthSq)) : 0;
+    const px = a.x + ex * t;
+    const py = a.y + ey * t;
+    const dist = (px - x) * (px - x) + (py - y) * (py - y);
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = { x: px, y: py };
+    }
+  }
+  return best;
+}
+
+function traceArea(ctx: CanvasRenderingContext2D, area: WorldArea, centerX: number, centerY: number, scale: number): void {
+  ctx.beginPath();
+  if (area.shape === 'circle') {
+    ctx.arc(centerX + (area.x - centerX) * scale, centerY + (area.y - centerY) * scale, area.radius * scale, 0, Math.PI * 2);
+    return;
+  }
+  area.points.forEach((p, i) => {
+    const px = centerX + (p.x - centerX) * scale;
+    const py = centerY + (p.y - centerY) * scale;
+    if (i === 0) {
+      ctx.moveTo(px, py);
+    } else {
+      ctx.lineTo(px, py);
+    }
+  });
+  ctx.closePath();
+}
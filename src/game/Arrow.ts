@@ -1,20 +1,28 @@
-import { Fighter } from './Fighter';
+import type { Fighter } from './Fighter';
 import type { Team } from './types';
-
-export class Arrow {
-  x: number;
-  y: number;
-  targetX: number;
-  targetY: number;
+import type { ProjectileSnapshot } from './BattleSnapshot';
+import type { Projectile, ProjectileWorld } from './ProjectileManager';
+import type { SeededRandom } from './SeededRandom';
+
+export class Arrow implements Projectile {
+  readonly kind = 'arrow';
+  x: number = 0;
+  y: number = 0;
+  targetX: number = 0;
+  targetY: number = 0;
   speed: number = 8;
-  damage: number;
-  team: Team;
-  target: Fighter;
-  shooter: Fighter | null;
+  damage: number = 0;
+  team: Team = 'red';
+  target!: Fighter;
+  shooter: Fighter | null = null;
+  // Battle RNG from the ProjectileManager so crit rolls stay reproducible
+  private rng!: SeededRandom;
   isDead: boolean = false;
-  angle: number;
+  angle: number = 0;
 
-  constructor(x: number, y: number, target: Fighter, damage: number, team: Team, shooter?: Fighter) {
+  // (Re)initialise for a fresh or pooled arrow
+  launch(rng: SeededRandom, x: number, y: number, target: Fighter, damage: number, team: Team, shooter: Fighter | null): void {
+    this.rng = rng;
     this.x = x;
     this.y = y;
     this.target = target;
@@ -22,14 +30,19 @@ export class Arrow {
     this.targetY = target.y;
     this.damage = damage;
     this.team = team;
-    this.shooter = shooter || null;
+    this.shooter = shooter;
+    this.isDead = false;
 
     const dx = this.targetX - this.x;
     const dy = this.targetY - this.y;
     this.angle = Math.atan2(dy, dx);
   }
 
-  update(): void {
+  release(): void {
+    this.shooter = null;
+  }
+
+  update(world: ProjectileWorld): void {
     if (this.isDead) return;
 
     if (!this.target.isDead) {
@@ -56,7 +69,7 @@ export class Arrow {
         // Critical hit check (base 5% * multiplier)
         const baseCritChance = 0.05;
         const critMultiplier = modifiers?.critChance || 1;
-        if (Math.random() < baseCritChance * critMultiplier) {
+        if (this.rng.chance(baseCritChance * critMultiplier)) {
           finalDamage *= 2;
           isCrit = true;
         }
@@ -68,16 +81,18 @@ export class Arrow {
           if (modifiers.archerPoisonOnHit) {
             const basePoison = 2;
             const poisonMultiplier = modifiers.poisonDoTMultiplier;
-            this.target.statusEffects.poison += basePoison * poisonMultiplier;
+            this.target.applyStatus('poison', basePoison * poisonMultiplier, this.shooter);
           }
           if (modifiers.lifestealPercent > 1 && this.shooter) {
             const lifestealPercent = modifiers.lifestealPercent - 1;
-            const healAmount = finalDamage * lifestealPercent;
-            this.shooter.health = Math.min(this.shooter.maxHealth, this.shooter.health + healAmount);
+            this.shooter.heal(finalDamage * lifestealPercent, this.shooter, 'lifesteal');
           }
         }
       }
       this.isDead = true;
+    } else if (world.isBlocked(this.x, this.y)) {
+      // Stuck in a rock or wall
+      this.isDead = true;
     }
 
     if (this.x < -100 || this.x > 2000 || this.y < -100 || this.y > 1500) {
@@ -85,12 +100,20 @@ export class Arrow {
     }
   }
 
+  toSnapshot(): ProjectileSnapshot {
+    return { kind: 'arrow', x: this.x, y: this.y, angle: this.angle, impactFrame: -1, impactRadius: 0 };
+  }
+
   draw(ctx: CanvasRenderingContext2D): void {
     if (this.isDead) return;
+    Arrow.drawAt(ctx, this.x, this.y, this.angle);
+  }
 
+  // Shared with worker-mode rendering, which only has snapshot data
+  static drawAt(ctx: CanvasRenderingContext2D, x: number, y: number, angle: number): void {
     ctx.save();
-    ctx.translate(this.x, this.y);
-    ctx.rotate(this.angle);
+    ctx.translate(x, y);
+    ctx.rotate(angle);
 
     // Arrow shaft
     ctx.strokeStyle = '#8B4513';
@@ -0,0 +1,118 @@
+import { Fighter } from './Fighter';
+import { SpriteRenderer } from './SpriteRenderer';
+import type { Team, FighterType } from './types';
+
+export class Assassin extends Fighter {
+  // The strike out of stealth lands for this many regular hits
+  private readonly AMBUSH_DAMAGE_MULTIPLIER: number = 5;
+  // Stealth fades on its own, so an assassin that can't reach its mark doesn't stall the battle
+  private readonly STEALTH_DURATION: number = 20000;
+  private stealthedAt: number = 0;
+  // Vanish (card unlock): slip back into stealth after a kill
+  private readonly VANISH_COOLDOWN: number = 6000;
+  private lastVanishTime: number = -Infinity;
+
+  constructor(team: Team, x: number, canvasHeight: number) {
+    super(team, x, canvasHeight);
+    this.health = 110;
+    this.maxHealth = 110;
+    this.baseSpeed = 0.6;
+    this.speed = 0.6;
+    this.baseDamage = 14;
+    this.damage = 14;
+    this.baseAttackRange = 10;
+    this.attackRange = 10;
+    this.baseAttackCooldown = 600;
+    this.attackCooldown = 600;
+    this.isStealthed = true;
+  }
+
+  getColor(): string {
+    return this.team === 'blue' ? '#334155' : '#44403c';
+  }
+
+  getType(): FighterType {
+    return 'assassin';
+  }
+
+  update(enemies: Fighter[], deltaTime: number, allies?: Fighter[]): void {
+    if (this.isStealthed && this.context.clock.now() - this.stealthedAt >= this.STEALTH_DURATION) {
+      this.isStealthed = false;
+    }
+    super.update(enemies, deltaTime, allies);
+  }
+
+  // Ranged units and healers - the assassin walks past everything else to reach them
+  private isBackline(enemy: Fighter): boolean {
+    return enemy.isRanged() || enemy.getType() === 'healer';
+  }
+
+  // Ignores the front line: hunts the weakest backline unit anywhere on the field
+  findTarget(enemies: Fighter[]): void {
+    if (this.taunter && !this.taunter.isDead) {
+      super.findTarget(enemies);
+      return;
+    }
+
+    // Stay on the current mark until it dies, so the assassin doesn't zigzag between targets
+    const mark = this.target;
+    if (mark && !mark.isDead && !mark.isStealthed && this.isBackline(mark)) return;
+
+    let weakest: Fighter | null = null;
+    for (const enemy of enemies) {
+      if (enemy.isDead || enemy.isStealthed || enemy.team === this.team || !this.isBackline(enemy)) continue;
+      if (!weakest || enemy.health < weakest.health) {
+        weakest = enemy;
+      }
+    }
+
+    if (weakest) {
+      this.target = weakest;
+      this.focusedEnemyTeam = weakest.team;
+    } else {
+      // No backline left - fight whatever is closest
+      super.findTarget(enemies);
+    }
+  }
+
+  protected attack(target: Fighter, allEnemies?: Fighter[]): void {
+    // Hidden assassins don't give themselves away on units they pass
+    if (this.isStealthed && target !== this.target) return;
+
+    const now = this.context.clock.now();
+    if (now - this.lastAttackTime < this.attackCooldown) return;
+
+    if (this.isStealthed) {
+      // First strike bursts the mark and reveals the assassin
+      this.dealDamage(target, this.damage * this.AMBUSH_DAMAGE_MULTIPLIER, allEnemies);
+      this.isStealthed = false;
+      this.announceAbility('ambush');
+    } else {
+      this.dealDamage(target, this.damage, allEnemies);
+    }
+    this.lastAttackTime = now;
+
+    if (target.isDead && this.modifiers?.assassinVanishAbility && now - this.lastVanishTime >= this.VANISH_COOLDOWN) {
+      this.isStealthed = true;
+      this.stealthedAt = now;
+      this.lastVanishTime = now;
+      this.announceAbility('vanish');
+    }
+  }
+
+  draw(ctx: CanvasRenderingContext2D): void {
+    if (this.isDead) return;
+
+    this.drawStatusEffects(ctx);
+
+    // Stealthed assassins are drawn as a faint shimmer
+    ctx.save();
+    if (this.isStealthed) {
+      ctx.globalAlpha = 0.3;
+    }
+    SpriteRenderer.drawAssassin(ctx, this.x, this.y, this.team, this.animationFrame, this.isFlashing());
+    ctx.restore();
+
+    this.drawHealthBar(ctx);
+  }
+}
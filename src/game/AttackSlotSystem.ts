@@ -1,4 +1,5 @@
 import type { Fighter } from './Fighter';
+import { WallClock, type Clock } from './BattleClock';
 
 /**
  * Attack Slot System
@@ -26,8 +27,8 @@ export interface SlotAssignment {
   reservationTime: number; // When the slot was reserved
 }
 
-// Global slot manager - tracks slots for all targets
-class SlotManagerClass {
+// Slot manager - tracks slots for all targets in one battle (owned by BattleContext)
+export class SlotManager {
   // Map from target fighter to their attack slots (inner ring)
   private targetSlots: Map<Fighter, AttackSlot[]> = new Map();
 
@@ -42,12 +43,19 @@ class SlotManagerClass {
   private readonly QUEUE_SLOT_MULTIPLIER = 1.5; // Queue slots at 1.5x attack range
   private readonly RESERVATION_TIMEOUT = 3000; // ms
 
+  // Battle clock used for reservation timeouts
+  private clock: Clock;
+
+  constructor(clock: Clock = WallClock) {
+    this.clock = clock;
+  }
+
   /**
    * Check if a slot is available (not reserved by a living unit, or reservation timed out)
    * SINGLE SOURCE OF TRUTH - only checks the Map
    */
   private isSlotAvailable(slot: AttackSlot, excludeFighter?: Fighter): boolean {
-    const now = Date.now();
+    const now = this.clock.now();
 
     for (const [fighter, assignment] of this.attackerAssignments) {
       if (assignment.slot === slot) {
@@ -78,15 +86,17 @@ class SlotManagerClass {
   }
 
   /**
-   * Get the fighter who owns a slot (or null if available)
+   * Get the fighter who owns each slot, in one pass over the Map (absent = available)
+   * Derived view only - attackerAssignments stays the single source of truth
    */
-  private getSlotOwner(slot: AttackSlot): Fighter | null {
+  private getSlotOwners(): Map<AttackSlot, Fighter> {
+    const owners = new Map<AttackSlot, Fighter>();
     for (const [fighter, assignment] of this.attackerAssignments) {
-      if (assignment.slot === slot && !fighter.isDead) {
-        return fighter;
+      if (!fighter.isDead && !owners.has(assignment.slot)) {
+        owners.set(assignment.slot, fighter);
       }
     }
-    return null;
+    return owners;
   }
 
   /**
@@ -207,12 +217,14 @@ class SlotManagerClass {
     // Update slot positions in case target moved
     this.updateSlotPositions(target, avgRange);
 
-    const now = Date.now();
+    const now = this.clock.now();
     const attackerSet = new Set(attackers);
+    const slotOwners = this.getSlotOwners();
 
     // Get available attack slots
     const availableAttackSlots = new Set(attackSlots.filter(slot => {
-      const owner = this.getSlotOwner(slot);
+      if (!this.isSlotOpen(slot, target, false)) return false;
+      const owner = slotOwners.get(slot) || null;
       if (owner === null) return true;
       // If owner is in our group, we'll reassign
       if (attackerSet.has(owner)) return true;
@@ -227,7 +239,8 @@ class SlotManagerClass {
 
     // Get available queue slots
     const availableQueueSlots = new Set(queueSlots.filter(slot => {
-      const owner = this.getSlotOwner(slot);
+      if (!this.isSlotOpen(slot, target, true)) return false;
+      const owner = slotOwners.get(slot) || null;
       if (owner === null) return true;
       if (attackerSet.has(owner)) return true;
       const assignment = this.attackerAssignments.get(owner);
@@ -242,11 +255,13 @@ class SlotManagerClass {
     for (const attacker of attackers) {
       const assignment = this.attackerAssignments.get(attacker);
       if (assignment && assignment.targetFighter === target) {
-        // Add slot back to available if it was theirs
-        if (assignment.isQueueSlot) {
-          availableQueueSlots.add(assignment.slot);
-        } else {
-          availableAttackSlots.add(assignment.slot);
+        // Add slot back to available if it was theirs (and hasn't moved into an obstacle)
+        if (this.isSlotOpen(assignment.slot, target, assignment.isQueueSlot)) {
+          if (assignment.isQueueSlot) {
+            availableQueueSlots.add(assignment.slot);
+          } else {
+            availableAttackSlots.add(assignment.slot);
+          }
         }
         assignment.slot.isOccupied = false;
         this.attackerAssignments.delete(attacker);
@@ -351,7 +366,7 @@ class SlotManagerClass {
     const assignment = this.attackerAssignments.get(attacker);
     if (!assignment || !assignment.isQueueSlot) return null;
 
-    const now = Date.now();
+    const now = this.clock.now();
 
     // Check all targets for available attack slots
     for (const [target, slots] of this.targetSlots) {
@@ -362,6 +377,7 @@ class SlotManagerClass {
         if (!this.isSlotAvailable(slot, attacker)) continue;
 
         // Check if slot is blocked
+        if (!this.isSlotOpen(slot, target, false)) continue;
         if (this.isSlotBlocked(slot, attacker, allUnits)) continue;
 
         // Found an available slot! Release queue slot and take this one
@@ -388,8 +404,10 @@ class SlotManagerClass {
   findBestSlot(attacker: Fighter, target: Fighter, allUnits: Fighter[]): AttackSlot | null {
     const slots = this.getOrCreateSlots(target, attacker.attackRange);
 
-    // Filter to available slots
-    const availableSlots = slots.filter(slot => this.isSlotAvailable(slot, attacker));
+    // Filter to available slots (never inside or behind an obstacle)
+    const availableSlots = slots.filter(slot =>
+      this.isSlotAvailable(slot, attacker) && this.isSlotOpen(slot, target, false)
+    );
 
     if (availableSlots.length === 0) return null;
 
@@ -418,13 +436,30 @@ class SlotManagerClass {
     return bestSlot;
   }
 
+  /**
+   * Check if a slot can be stood on - on open arena ground and, for attack slots,
+   * with a clear line to the target. Slots follow their target, so this is
+   * re-checked on every assignment rather than when the ring is generated.
+   */
+  private isSlotOpen(slot: AttackSlot, target: Fighter, isQueueSlot: boolean): boolean {
+    const context = target.context;
+    if (context.isImpassable(slot.x, slot.y)) return false;
+    const grid = context.grid;
+    if (isQueueSlot || !grid || !grid.hasObstacles()) return true;
+    return grid.hasLineOfSight(slot.x, slot.y, target.x, target.y);
+  }
+
   /**
    * Check if a slot is blocked by an enemy unit
    */
   isSlotBlocked(slot: AttackSlot, attacker: Fighter, allUnits: Fighter[]): boolean {
     const blockRadius = 8; // How close an enemy needs to be to block a slot
+    const spatialIndex = attacker.context.spatialIndex;
+    const candidates = spatialIndex
+      ? spatialIndex.queryRadius(slot.x, slot.y, blockRadius)
+      : allUnits;
 
-    for (const unit of allUnits) {
+    for (const unit of candidates) {
       if (unit === attacker || unit.isDead || unit.team === attacker.team) continue;
 
       const dx = unit.x - slot.x;
@@ -455,7 +490,7 @@ class SlotManagerClass {
       slot,
       targetFighter: target,
       isQueueSlot,
-      reservationTime: Date.now()
+      reservationTime: this.clock.now()
     });
     slot.isOccupied = false;
 
@@ -535,9 +570,6 @@ class SlotManagerClass {
   }
 }
 
-// Export singleton instance
-export const SlotManager = new SlotManagerClass();
-
 /**
  * Attack states for units
  */
@@ -553,19 +585,25 @@ export type AttackState = typeof AttackState[keyof typeof AttackState];
 
 /**
  * Find any enemy in attack range (for opportunistic attacks)
+ * Ranged attackers skip enemies behind obstacles
  */
 export function findEnemyInRange(attacker: Fighter, enemies: Fighter[]): Fighter | null {
   let closest: Fighter | null = null;
   let closestDist = Infinity;
 
-  for (const enemy of enemies) {
-    if (enemy.isDead) continue;
+  const spatialIndex = attacker.context.spatialIndex;
+  const candidates = spatialIndex
+    ? spatialIndex.queryRadius(attacker.x, attacker.y, attacker.attackRange)
+    : enemies;
+
+  for (const enemy of candidates) {
+    if (enemy.isDead || enemy.isStealthed || enemy.team === attacker.team) continue;
 
     const dx = enemy.x - attacker.x;
     const dy = enemy.y - attacker.y;
     const dist = Math.sqrt(dx * dx + dy * dy);
 
-    if (dist <= attacker.attackRange && dist < closestDist) {
+    if (dist <= attacker.attackRange && dist < closestDist && attacker.canSee(enemy)) {
       closest = enemy;
       closestDist = dist;
     }
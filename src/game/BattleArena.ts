@@ -1,18 +1,21 @@
-import type { Team, PlayerPosition } from './types';
-import type { Card } from './Card';
-import { TeamModifiers } from './Card';
+import { TEAM_COLORS, type Team, type PlayerPosition } from './types';
 import type { UnitCard } from './UnitCardDeck';
 import type { GodCard, GodPowerType } from './GodCardDeck';
-import { Fighter } from './Fighter';
-import { Knight } from './Knight';
-import { Swordsman } from './Swordsman';
-import { Archer } from './Archer';
-import { Mage } from './Mage';
-import { Healer } from './Healer';
-import { DamageNumberManager } from './DamageNumber';
-import { HexGrid, type HexCoord } from './HexGrid';
-import { SoundManager } from './SoundManager';
-import { SlotManager } from './AttackSlotSystem';
+import type { Fighter } from './Fighter';
+import type { TeamModifiers } from './Card';
+import type { HexGrid, HexCoord } from './HexGrid';
+import { drawObstacles } from './Obstacles';
+import { drawTerrain } from './Terrain';
+import { BattleSimulator, type BattleConfig, type BattleSummary } from './BattleSimulator';
+import { SeededRandom } from './SeededRandom';
+import { Arrow } from './Arrow';
+import { PiercingArrow } from './PiercingArrow';
+import { VoidBolt } from './VoidBolt';
+import type { BattleWorkerRequest, BattleWorkerResponse } from './BattleSnapshot';
+import { ReplayRecorder, ReplayPlayer, serializeReplay, type BattleReplay } from './BattleReplay';
+import { combatLogToText, combatLogToJSON, formatCombatLogEntry, formatCombatLogTime } from './CombatLog';
+
+export type { BattleConfig, BattleSummary, TeamSummary } from './BattleSimulator';
 
 // Team unit configurations for 6-team battles
 export interface TeamUnits {
@@ -20,26 +23,6 @@ export interface TeamUnits {
   units: UnitCard[];
 }
 
-export interface BattleConfig {
-  playerUnits: UnitCard[];        // bottom team (player)
-  opponentUnits: UnitCard[];      // top team
-  leftUnits?: UnitCard[];         // topLeft team (optional)
-  topRightUnits?: UnitCard[];     // topRight team (optional)
-  bottomRightUnits?: UnitCard[];  // bottomRight team (optional)
-  bottomLeftUnits?: UnitCard[];   // bottomLeft team (optional)
-  modifiers: Card[];              // Shared modifiers (community cards) - apply to all
-  teamModifiers?: {               // Per-team modifiers (kept cards) - apply only to that team
-    player?: Card[];
-    opponent?: Card[];
-    topLeft?: Card[];
-    topRight?: Card[];
-    bottomLeft?: Card[];
-    bottomRight?: Card[];
-  };
-  playerGodCards: GodCard[];
-  opponentGodCards: GodCard[];
-}
-
 interface GodPowerEffect {
   type: GodPowerType;
   x: number;
@@ -51,313 +34,104 @@ interface GodPowerEffect {
 
 type BattleEndCallback = (winner: PlayerPosition | 'tie') => void;
 
-interface TeamSummary {
-  team: Team;
-  totalKills: number;
-  killsByType: Map<string, number>;
-  unitsRemaining: number;
-  totalUnits: number;
-}
+// Scoreboard placements (1st-3rd; everything after is "th")
+const ORDINAL_SUFFIXES: Record<number, string> = { 1: 'st', 2: 'nd', 3: 'rd' };
+
+// Speed multipliers offered by the on-screen control (keys 1-4)
+export const BATTLE_SPEEDS: readonly number[] = [0.5, 1, 2, 4];
 
-interface BattleSummary {
-  winner: PlayerPosition | 'tie';
-  teams: TeamSummary[];
-  battleDuration: number;
+export interface BattleArenaOptions {
+  useWorker?: boolean; // Run combat in a BattleWorker and draw from its snapshots
 }
 
 export class BattleArena {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
 
-  // 6 teams positioned around hexagon edges
-  private teams: Map<Team, Fighter[]> = new Map();
-  private teamKills: Map<Team, number> = new Map(); // Kill scores per team
-  private teamKillsByType: Map<Team, Map<string, number>> = new Map(); // Kills by unit type per team
-  private lastAliveCount: Map<Team, number> = new Map(); // For tracking kills
-  private sharedModifiers: TeamModifiers;
-  private perTeamModifiers: Map<Team, TeamModifiers> = new Map();
+  // Combat logic lives in the simulator - this class renders it and handles input
+  private simulator: BattleSimulator;
   private battleSummary: BattleSummary | null = null;
   private running: boolean = false;
   private onBattleEnd: BattleEndCallback;
-  private battleStartTime: number = 0;
-  private maxBattleDuration: number = 120000; // 120 seconds max for large armies
   private lastFrameTime: number = 0;
   private animationFrameId: number | null = null;
-  private lastAggroIncreaseTime: number = 0;
-  private readonly AGGRO_INCREASE_INTERVAL: number = 10000; // 10 seconds
-  private readonly AGGRO_INCREASE_MULTIPLIER: number = 1.25; // 25% increase
+
+  // Fixed-timestep loop: logic runs in FIXED_TIMESTEP ticks, draw() interpolates between them
+  private accumulator: number = 0;
+  private previousPositions: Map<Fighter, { x: number; y: number }> = new Map();
+  private readonly MAX_FRAME_TIME: number = 250; // ms - drop time beyond this instead of spiralling
+
+  // Speed control - every timer runs on the battle clock, so scaling the time fed in scales them all
+  private speed: number = 1;
+  private paused: boolean = false;
+
+  // Worker mode: the simulator here is a display mirror fed by BattleWorker snapshots
+  private useWorker: boolean;
+  private worker: Worker | null = null;
+  private config: BattleConfig | null = null;
+  private lastSnapshotTime: number = 0;
+
+  // Replays: every battle is recorded; while one is watched its ReplayPlayer's simulator stands in for ours
+  private recorder: ReplayRecorder = new ReplayRecorder();
+  private lastReplay: BattleReplay | null = null;
+  private replayPlayer: ReplayPlayer | null = null;
+  private liveSimulator: BattleSimulator | null = null;
+  private onReplayClose: (() => void) | null = null;
+  private readonly REPLAY_SEEK_STEP: number = 300; // ticks (5s) per arrow key press
+
+  // Combat log panel - reads the simulator's CombatLog, toggled with the LOG button or L
+  private showCombatLog: boolean = false;
+  private combatLogTeam: Team | null = null; // null = all teams
+  private combatLogScroll: number = 0;       // Lines scrolled back from the newest entry
+  private readonly COMBAT_LOG_LINE_HEIGHT: number = 14;
 
   // Hex grid
   private hexGrid: HexGrid;
   private fighterHexes: Map<Fighter, HexCoord> = new Map();
 
-  // Arena center and hexagon geometry
-  private arenaCenterX: number;
-  private arenaCenterY: number;
-  private hexRadius: number; // Distance from center to edge midpoints
-
 
   // Positioning mode
   private positioningMode: boolean = false;
-  private playerFormations: { units: Fighter[]; centerX: number; centerY: number }[] = [];
   private draggingFormation: number = -1;
   private dragOffsetX: number = 0;
   private dragOffsetY: number = 0;
 
   // God cards (Note: AI god card usage not yet implemented)
-  private playerGodCards: GodCard[] = [];
-  private godCardCooldowns: Map<string, number> = new Map();
   private selectedGodCard: GodCard | null = null;
   private godPowerEffects: GodPowerEffect[] = [];
   private teleportSourceUnit: Fighter | null = null;
   private showingSummary: boolean = false;
   private lastBattleWinner: PlayerPosition | 'tie' | null = null;
 
-  constructor(canvas: HTMLCanvasElement, onBattleEnd: BattleEndCallback) {
+  constructor(canvas: HTMLCanvasElement, onBattleEnd: BattleEndCallback, options: BattleArenaOptions = {}) {
     this.canvas = canvas;
     this.ctx = canvas.getContext('2d')!;
     this.onBattleEnd = onBattleEnd;
-    this.sharedModifiers = new TeamModifiers();
-
-    // Initialize teams map and kill tracking
-    const allTeams: Team[] = ['blue', 'purple', 'pink', 'red', 'orange', 'green'];
-    for (const team of allTeams) {
-      this.teams.set(team, []);
-      this.teamKills.set(team, 0);
-      this.teamKillsByType.set(team, new Map());
-      this.lastAliveCount.set(team, 0);
-    }
-
-    // Arena center
-    this.arenaCenterX = canvas.width / 2;
-    this.arenaCenterY = canvas.height / 2;
-
-    // Hexagon radius (distance from center to edge midpoints) - fits within canvas
-    this.hexRadius = Math.min(canvas.width, canvas.height) / 2 - 40;
-
-    // Hex grid for positioning (larger grid for big armies)
-    const hexSize = 20;
-    const gridWidth = 16 * Math.sqrt(3) * hexSize;
-    const gridHeight = 12 * hexSize * 1.5;
-    const originX = this.arenaCenterX - gridWidth / 2 + hexSize * 0.866;
-    const originY = this.arenaCenterY - gridHeight / 2 + hexSize;
-
-    this.hexGrid = new HexGrid(16, 12, hexSize, originX, originY);
-  }
+    this.useWorker = options.useWorker ?? false;
+    this.simulator = new BattleSimulator(canvas.width, canvas.height);
 
-  // Get the angle for each team's position on the hexagon (0 = right, counterclockwise)
-  private getTeamAngle(team: Team): number {
-    const angles: Record<Team, number> = {
-      blue: Math.PI / 2,           // 90 degrees (top)
-      green: Math.PI * 5 / 6,   // 150 degrees
-      orange: Math.PI * 7 / 6, // 210 degrees
-      red: Math.PI * 3 / 2,     // 270 degrees (bottom)
-      pink: Math.PI * 11 / 6, // 330 degrees
-      purple: Math.PI / 6        // 30 degrees
-    };
-    return angles[team];
-  }
-
-  // Get the spawn position for a team (inside the arena)
-  private getTeamSpawnPosition(team: Team): { x: number; y: number; angle: number } {
-    const angle = this.getTeamAngle(team);
-    const spawnRadius = this.hexRadius * 0.8; // Spawn inside arena
-    return {
-      x: this.arenaCenterX + Math.cos(angle) * spawnRadius,
-      y: this.arenaCenterY - Math.sin(angle) * spawnRadius,
-      angle
-    };
+    // Hex grid for positioning and obstacles (larger grid for big armies)
+    this.hexGrid = this.simulator.hexGrid;
   }
 
   setupBattle(config: BattleConfig): void {
     // Clear previous state
-    for (const team of this.teams.keys()) {
-      this.teams.set(team, []);
-      this.teamKills.set(team, 0);
-      this.teamKillsByType.set(team, new Map());
-      this.lastAliveCount.set(team, 0);
-    }
-    this.playerFormations = [];
     this.battleSummary = null;
+    this.previousPositions.clear();
     this.fighterHexes.clear();
     this.hexGrid.clearOccupied();
-    this.sharedModifiers = new TeamModifiers();
-    this.perTeamModifiers.clear();
     this.godPowerEffects = [];
-    this.godCardCooldowns.clear();
     this.selectedGodCard = null;
     this.teleportSourceUnit = null;
     this.draggingFormation = -1;
-    SlotManager.reset(); // Reset attack slot system
-
-    // Store god cards (AI god card usage not yet implemented)
-    this.playerGodCards = config.playerGodCards || [];
-
-    // Apply all community modifier cards to shared modifiers (apply to everyone)
-    for (const card of config.modifiers) {
-      this.sharedModifiers.applyCard(card);
-    }
-
-    // Apply per-team modifiers (only apply to that team's units)
-    if (config.teamModifiers) {
-      // NOTE: 'player' position maps to 'red' team (bottom, labeled "YOU")
-      const teamMapping: Record<string, Team> = {
-        player: 'red',
-        opponent: 'blue',
-        topLeft: 'green',
-        topRight: 'pink',
-        bottomLeft: 'orange',
-        bottomRight: 'purple'
-      };
 
-      for (const [position, cards] of Object.entries(config.teamModifiers)) {
-        if (cards && cards.length > 0) {
-          const team = teamMapping[position];
-          if (team) {
-            const teamMods = new TeamModifiers();
-            for (const card of cards) {
-              teamMods.applyCard(card);
-              console.log(`[BattleArena] Applied card "${card.name}" to team ${team}`);
-            }
-            console.log(`[BattleArena] Team ${team} modifiers:`, {
-              archerFanAbility: teamMods.archerFanAbility,
-              swordsmanSweepAbility: teamMods.swordsmanSweepAbility
-            });
-            this.perTeamModifiers.set(team, teamMods);
-          }
-        }
-      }
-    }
-
-    // Units per card by type
-    const UNITS_PER_TYPE: Record<string, number> = {
-      swordsman: 10,
-      mage: 5,
-      knight: 10,
-      archer: 10,
-      healer: 5
-    };
-    const UNIT_SPACING = 10; // Spacing for units in group
-    const FORMATION_WIDTH = 5; // Units per row
-
-    // Create group for a team on a hexagon edge
-    const createHexFormation = (unitType: string, count: number, team: Team, formationIndex: number, totalFormations: number) => {
-      const fighters: Fighter[] = [];
-      const spawnPos = this.getTeamSpawnPosition(team);
-
-      // Direction vectors: forward points towards center, right is perpendicular
-      const forwardX = Math.cos(spawnPos.angle + Math.PI);
-      const forwardY = Math.sin(spawnPos.angle + Math.PI);
-      const rightX = -forwardY;
-      const rightY = forwardX;
-
-      // Offset along the edge for multiple formations
-      const formationSpread = 80;
-      const formationOffset = (formationIndex - (totalFormations - 1) / 2) * formationSpread;
-
-      const baseX = spawnPos.x + rightX * formationOffset;
-      const baseY = spawnPos.y + rightY * formationOffset;
-
-      // Calculate grid dimensions
-      const cols = Math.min(count, FORMATION_WIDTH);
-      const rows = Math.ceil(count / FORMATION_WIDTH);
-
-      for (let i = 0; i < count; i++) {
-        const row = Math.floor(i / FORMATION_WIDTH);
-        const col = i % FORMATION_WIDTH;
-
-        // Grid offsets centered on (0,0)
-        const gridX = (col - (cols - 1) / 2) * UNIT_SPACING;
-        const gridY = (row - (rows - 1) / 2) * UNIT_SPACING;
-
-        // Transform to world position
-        const x = baseX + rightX * gridX + forwardX * gridY;
-        const y = baseY + rightY * gridX + forwardY * gridY;
-
-        const fighter = this.createFighterByType(unitType, team, x, y);
-        fighter.arenaCenterX = this.arenaCenterX;
-        fighter.arenaCenterY = this.arenaCenterY;
-        // Combine shared modifiers (community cards) with team-specific modifiers (kept cards)
-        const teamMods = this.perTeamModifiers.get(team);
-        const combinedMods = teamMods
-          ? this.sharedModifiers.combine(teamMods)
-          : this.sharedModifiers;
-        fighter.applyModifiers(combinedMods);
-
-        // Set group offset for formation maintenance
-        fighter.groupOffsetX = gridX;
-        fighter.groupOffsetY = gridY;
-
-        fighters.push(fighter);
-      }
-
-      // Link all fighters in this group to each other
-      for (const fighter of fighters) {
-        fighter.groupMembers = fighters;
-      }
-
-      return { fighters, centerX: baseX, centerY: baseY };
-    };
-
-    // Helper to add units for a team
-    const addTeamUnits = (units: UnitCard[] | undefined, team: Team, isPlayer: boolean = false) => {
-      if (!units || units.length === 0) return;
-
-      const teamFighters = this.teams.get(team) || [];
-      for (let i = 0; i < units.length; i++) {
-        const unitCard = units[i];
-        const unitCount = UNITS_PER_TYPE[unitCard.type] || 20;
-        const { fighters, centerX, centerY } = createHexFormation(unitCard.type, unitCount, team, i, units.length);
-        teamFighters.push(...fighters);
-
-        // Track player formations for dragging
-        if (isPlayer) {
-          this.playerFormations.push({ units: fighters, centerX, centerY });
-        }
-      }
-      this.teams.set(team, teamFighters);
-    };
-
-    // Add all teams
-    addTeamUnits(config.opponentUnits, 'blue');
-    addTeamUnits(config.topRightUnits, 'purple');
-    addTeamUnits(config.bottomRightUnits, 'pink');
-    addTeamUnits(config.playerUnits, 'red', true);
-    addTeamUnits(config.bottomLeftUnits, 'orange');
-    addTeamUnits(config.leftUnits, 'green');
+    // Pin the seed so a worker rebuilds exactly the same teams
+    this.config = { ...config, seed: config.seed ?? SeededRandom.randomSeed() };
+    this.simulator.setupBattle(this.config);
+    this.recorder.begin(this.config, this.simulator.width, this.simulator.height);
+    this.lastReplay = null;
   }
 
-  private createFighterByType(unitType: string, team: Team, x: number, y: number): Fighter {
-    const canvasHeight = this.canvas.height;
-    let fighter: Fighter;
-
-    switch (unitType) {
-      case 'knight':
-        fighter = new Knight(team, x, canvasHeight);
-        break;
-      case 'swordsman':
-        fighter = new Swordsman(team, x, canvasHeight);
-        break;
-      case 'archer':
-        fighter = new Archer(team, x, canvasHeight);
-        break;
-      case 'mage':
-        fighter = new Mage(team, x, canvasHeight);
-        break;
-      case 'healer':
-        fighter = new Healer(team, x, canvasHeight);
-        break;
-      default:
-        fighter = new Swordsman(team, x, canvasHeight);
-    }
-
-    fighter.x = x;
-    fighter.y = y;
-
-    return fighter;
-  }
-
-
   // Positioning mode methods
   startPositioning(): void {
     this.positioningMode = true;
@@ -395,15 +169,15 @@ export class BattleArena {
     this.drawTeamCounts();
 
     // Draw all fighters
-    for (const [, fighters] of this.teams) {
+    for (const [, fighters] of this.simulator.getTeams()) {
       for (const fighter of fighters) {
         fighter.draw(this.ctx);
       }
     }
 
     // Draw formation selection boxes for player formations
-    for (let i = 0; i < this.playerFormations.length; i++) {
-      const formation = this.playerFormations[i];
+    for (let i = 0; i < this.simulator.getPlayerFormations().length; i++) {
+      const formation = this.simulator.getPlayerFormations()[i];
       const bounds = this.getFormationBounds(formation.units);
       const isSelected = this.draggingFormation === i;
 
@@ -439,10 +213,10 @@ export class BattleArena {
 
     this.ctx.font = 'bold 12px monospace';
 
-    for (const [team, fighters] of this.teams) {
+    for (const [team, fighters] of this.simulator.getTeams()) {
       if (fighters.length === 0) continue;
 
-      const pos = this.getTeamSpawnPosition(team);
+      const pos = this.simulator.getTeamSpawnPosition(team);
       const alive = fighters.filter(f => !f.isDead).length;
       this.ctx.fillStyle = teamColors[team];
       this.ctx.textAlign = 'center';
@@ -460,20 +234,18 @@ export class BattleArena {
       green: '#16a34a'
     };
 
-    // Draw kill scores at hexagon corners
+    // Draw kill scores at each team's score anchor (beside its spawn)
     const allTeams: Team[] = ['blue', 'purple', 'pink', 'red', 'orange', 'green'];
+    const arena = this.simulator.getArena();
 
     for (let i = 0; i < 6; i++) {
       const team = allTeams[i];
-      const fighters = this.teams.get(team) || [];
+      const fighters = this.simulator.getTeam(team);
       if (fighters.length === 0) continue;
 
-      const kills = this.teamKills.get(team) || 0;
+      const kills = this.simulator.getTeamKills(team);
 
-      // Get corner position (between this team's edge and the next)
-      const angle = (Math.PI / 3) * i - Math.PI / 2;
-      const cornerX = this.arenaCenterX + Math.cos(angle) * (this.hexRadius + 35);
-      const cornerY = this.arenaCenterY + Math.sin(angle) * (this.hexRadius + 35);
+      const { x: cornerX, y: cornerY } = arena.getScoreAnchor(team);
 
       // Draw score background
       this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
@@ -516,13 +288,14 @@ export class BattleArena {
     if (!this.positioningMode) return false;
 
     // Check if clicking on a player formation
-    for (let i = 0; i < this.playerFormations.length; i++) {
-      const formation = this.playerFormations[i];
+    for (let i = 0; i < this.simulator.getPlayerFormations().length; i++) {
+      const formation = this.simulator.getPlayerFormations()[i];
       const bounds = this.getFormationBounds(formation.units);
 
       if (x >= bounds.x - 10 && x <= bounds.x + bounds.width + 10 &&
           y >= bounds.y - 10 && y <= bounds.y + bounds.height + 10) {
         this.draggingFormation = i;
+        this.recorder.beginDrag(i);
         this.dragOffsetX = x - formation.centerX;
         this.dragOffsetY = y - formation.centerY;
         this.canvas.style.cursor = 'grabbing';
@@ -537,7 +310,7 @@ export class BattleArena {
     if (!this.positioningMode) return;
 
     if (this.draggingFormation >= 0) {
-      const formation = this.playerFormations[this.draggingFormation];
+      const formation = this.simulator.getPlayerFormations()[this.draggingFormation];
       const newCenterX = x - this.dragOffsetX;
       const newCenterY = y - this.dragOffsetY;
 
@@ -545,42 +318,27 @@ export class BattleArena {
       const dx = newCenterX - formation.centerX;
       const dy = newCenterY - formation.centerY;
 
-      // Constrain to hexagonal arena and player's spawn area (bottom section)
-      let validDx = dx;
-      let validDy = dy;
-
-      // Check if new position would be in valid area (within hexagon)
-      const newX = formation.centerX + dx;
-      const newY = formation.centerY + dy;
-      const distFromCenter = Math.sqrt(
-        Math.pow(newX - this.arenaCenterX, 2) +
-        Math.pow(newY - this.arenaCenterY, 2)
-      );
-
-      // Keep within hexagon and prefer player's side (bottom half)
-      if (distFromCenter > this.hexRadius - 30) {
-        // Scale back the movement to stay inside
-        const scale = (this.hexRadius - 30) / distFromCenter;
-        const adjustedX = this.arenaCenterX + (newX - this.arenaCenterX) * scale;
-        const adjustedY = this.arenaCenterY + (newY - this.arenaCenterY) * scale;
-        validDx = adjustedX - formation.centerX;
-        validDy = adjustedY - formation.centerY;
-      }
+      // Keep the formation centre inside the arena, away from the edge
+      const arena = this.simulator.getArena();
+      const adjusted = arena.clampInside(formation.centerX + dx, formation.centerY + dy, 30);
+      let validDx = adjusted.x - formation.centerX;
+      let validDy = adjusted.y - formation.centerY;
 
-      // Move all units in formation
-      for (const unit of formation.units) {
-        unit.x += validDx;
-        unit.y += validDy;
+      // Never drop a formation into a hazard
+      if (arena.hazardAt(adjusted.x, adjusted.y)) {
+        validDx = 0;
+        validDy = 0;
       }
 
-      formation.centerX += validDx;
-      formation.centerY += validDy;
+      // Move all units in formation
+      this.simulator.moveFormation(this.draggingFormation, validDx, validDy);
+      this.recorder.recordDragMove(validDx, validDy);
 
       this.drawPositioning();
     } else {
       // Check for hover over formations
       let hovering = false;
-      for (const formation of this.playerFormations) {
+      for (const formation of this.simulator.getPlayerFormations()) {
         const bounds = this.getFormationBounds(formation.units);
         if (x >= bounds.x - 10 && x <= bounds.x + bounds.width + 10 &&
             y >= bounds.y - 10 && y <= bounds.y + bounds.height + 10) {
@@ -595,62 +353,61 @@ export class BattleArena {
   handlePositioningMouseUp(): void {
     if (!this.positioningMode) return;
 
+    if (this.draggingFormation >= 0) {
+      this.recorder.endDrag();
+    }
     this.draggingFormation = -1;
     this.canvas.style.cursor = 'default';
     this.drawPositioning();
   }
 
   private drawBattleBackground(): void {
-    // Draw circular arena
+    // Draw the arena floor
     const ctx = this.ctx;
-    const arenaRadius = this.hexRadius + 20;
+    const arena = this.simulator.getArena();
 
-    // Draw circle background
     ctx.fillStyle = '#0d1117';
-    ctx.beginPath();
-    ctx.arc(this.arenaCenterX, this.arenaCenterY, arenaRadius, 0, Math.PI * 2);
+    arena.traceBoundary(ctx, 20);
     ctx.fill();
 
-    // Draw circle border
+    // Draw arena border
     ctx.strokeStyle = '#30363d';
     ctx.lineWidth = 3;
-    ctx.beginPath();
-    ctx.arc(this.arenaCenterX, this.arenaCenterY, arenaRadius, 0, Math.PI * 2);
     ctx.stroke();
 
-    // Draw team spawn zone indicators (colored arcs)
+    // Chasms and pits
+    arena.drawHazards(ctx);
+
+    // Draw team spawn zone indicators (soft colored patches)
     const teamColors: Record<Team, string> = {
-      blue: '#2563eb',
-      purple: '#7c3aed',
-      pink: '#db2777',
-      red: '#dc2626',
-      orange: '#ea580c',
-      green: '#16a34a'
+      blue: 'rgba(37, 99, 235, 0.12)',
+      purple: 'rgba(124, 58, 237, 0.12)',
+      pink: 'rgba(219, 39, 119, 0.12)',
+      red: 'rgba(220, 38, 38, 0.12)',
+      orange: 'rgba(234, 88, 12, 0.12)',
+      green: 'rgba(22, 163, 74, 0.12)'
     };
 
-    const teams: Team[] = ['blue', 'purple', 'pink', 'red', 'orange', 'green'];
-
-    for (let i = 0; i < 6; i++) {
-      const team = teams[i];
-      const fighters = this.teams.get(team) || [];
+    for (const [team, fighters] of this.simulator.getTeams()) {
       if (fighters.length === 0) continue;
 
-      // Draw arc for this team's zone
-      const startAngle = (Math.PI / 3) * i - Math.PI / 2 - Math.PI / 6;
-      const endAngle = (Math.PI / 3) * i - Math.PI / 2 + Math.PI / 6;
-
-      ctx.strokeStyle = teamColors[team];
-      ctx.lineWidth = 6;
+      const spawn = arena.getSpawn(team);
+      ctx.fillStyle = teamColors[team];
       ctx.beginPath();
-      ctx.arc(this.arenaCenterX, this.arenaCenterY, arenaRadius, startAngle, endAngle);
-      ctx.stroke();
+      ctx.arc(spawn.x, spawn.y, 45, 0, Math.PI * 2);
+      ctx.fill();
     }
 
     // Draw center marker
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
-    ctx.beginPath();
-    ctx.arc(this.arenaCenterX, this.arenaCenterY, 10, 0, Math.PI * 2);
-    ctx.fill();
+    if (!arena.hazardAt(arena.centerX, arena.centerY)) {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
+      ctx.beginPath();
+      ctx.arc(arena.centerX, arena.centerY, 10, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    // Terrain tiles, then rocks, pillars and walls on top
+    drawTerrain(ctx, this.hexGrid);
+    drawObstacles(ctx, this.hexGrid);
   }
 
   private drawStartBattleButton(): void {
@@ -699,187 +456,158 @@ export class BattleArena {
       this.stopPositioning();
     }
 
-    // Initialize alive counts for kill tracking
-    for (const [team, fighters] of this.teams) {
-      this.lastAliveCount.set(team, fighters.filter(f => !f.isDead).length);
-    }
-
     this.running = true;
-    this.battleStartTime = Date.now();
     this.lastFrameTime = performance.now();
-    this.lastAggroIncreaseTime = Date.now();
-    Fighter.resetAggroRange(); // Reset aggro range at battle start
+    this.accumulator = 0;
+    this.savePreviousPositions();
 
+    if (this.useWorker && this.config) {
+      this.startWorker(this.config);
+      this.workerLoop();
+      return;
+    }
+
+    this.simulator.start();
     this.gameLoop();
   }
 
-  private gameLoop = (): void => {
-    if (!this.running) return;
+  private startWorker(config: BattleConfig): void {
+    this.worker = new Worker(new URL('./BattleWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<BattleWorkerResponse>) => {
+      this.handleWorkerMessage(event.data);
+    };
+    this.postToWorker({
+      type: 'start',
+      config,
+      width: this.canvas.width,
+      height: this.canvas.height,
+      positions: this.simulator.getFighterPositions()
+    });
+    this.syncWorkerSpeed();
+    this.lastSnapshotTime = performance.now();
+  }
 
-    const now = performance.now();
-    const deltaTime = now - this.lastFrameTime;
-    this.lastFrameTime = now;
+  private postToWorker(message: BattleWorkerRequest): void {
+    this.worker?.postMessage(message);
+  }
 
-    this.update(deltaTime);
-    this.draw();
+  private handleWorkerMessage(message: BattleWorkerResponse): void {
+    switch (message.type) {
+      case 'snapshot':
+        this.savePreviousPositions();
+        this.simulator.applySnapshot(message.snapshot);
+        this.lastSnapshotTime = performance.now();
+        break;
 
-    // Check win condition
-    const winner = this.checkWinCondition();
-    if (winner !== null) {
-      this.end(winner);
-      return;
+      case 'cast':
+        this.recorder.recordCast(message.cast);
+        break;
     }
+  }
 
-    // Check timeout
-    if (Date.now() - this.battleStartTime > this.maxBattleDuration) {
-      this.resolveByHealth();
-      return;
-    }
+  private stopWorker(): void {
+    if (!this.worker) return;
+    this.postToWorker({ type: 'stop' });
+    this.worker.terminate();
+    this.worker = null;
+  }
 
-    this.animationFrameId = requestAnimationFrame(this.gameLoop);
-  };
+  // Worker mode frame: nothing to simulate, just draw the latest snapshot
+  private workerLoop = (): void => {
+    if (!this.running) return;
 
-  private update(deltaTime: number): void {
-    // Increase aggro range every 10 seconds
-    const now = Date.now();
-    if (now - this.lastAggroIncreaseTime >= this.AGGRO_INCREASE_INTERVAL) {
-      Fighter.increaseAggroRange(this.AGGRO_INCREASE_MULTIPLIER);
-      this.lastAggroIncreaseTime = now;
+    const summary = this.simulator.getSummary();
+    if (summary) {
+      this.draw();
+      this.end(summary.winner);
+      return;
     }
 
-    // In a 6-way battle, everyone fights everyone else
-    const allTeams: Team[] = ['blue', 'purple', 'pink', 'red', 'orange', 'green'];
-
-    // Track alive counts before update
-    const aliveBeforeUpdate = new Map<Team, Set<Fighter>>();
-    for (const team of allTeams) {
-      const fighters = this.teams.get(team) || [];
-      aliveBeforeUpdate.set(team, new Set(fighters.filter(f => !f.isDead)));
-    }
+    // Snapshots arrive once per tick - blend toward the newest as the tick elapses
+    const alpha = Math.min(1, (performance.now() - this.lastSnapshotTime) / BattleSimulator.FIXED_TIMESTEP);
+    this.draw(alpha);
 
-    // Collect all fighters and build enemy lists per team
-    const allFighters: Fighter[] = [];
-    const enemiesByTeam = new Map<Team, Fighter[]>();
-    for (const team of allTeams) {
-      const fighters = this.teams.get(team) || [];
-      allFighters.push(...fighters);
-
-      // Build enemy list for this team (everyone not on this team)
-      const enemies: Fighter[] = [];
-      for (const otherTeam of allTeams) {
-        if (otherTeam !== team) {
-          enemies.push(...(this.teams.get(otherTeam) || []));
-        }
-      }
-      enemiesByTeam.set(team, enemies);
-    }
+    this.animationFrameId = requestAnimationFrame(this.workerLoop);
+  };
 
-    // STEP 1: Update targets for ALL fighters FIRST (before slot assignment)
-    // This ensures slot grouping uses fresh target info
-    for (const fighter of allFighters) {
-      if (!fighter.isDead) {
-        const enemies = enemiesByTeam.get(fighter.team) || [];
-        fighter.findTarget(enemies);
-      }
-    }
+  private gameLoop = (): void => {
+    if (!this.running) return;
 
-    // STEP 2: Group attackers by their FRESH targets
-    const attackersByTarget = new Map<Fighter, Fighter[]>();
-    for (const fighter of allFighters) {
-      if (fighter.isDead || !fighter.target || fighter.target.isDead) continue;
-      const group = attackersByTarget.get(fighter.target) || [];
-      group.push(fighter);
-      attackersByTarget.set(fighter.target, group);
-    }
+    const now = performance.now();
+    const frameTime = Math.min(now - this.lastFrameTime, this.MAX_FRAME_TIME);
+    this.lastFrameTime = now;
 
-    // STEP 3: Assign slots greedily for each target (closest units pick first)
-    for (const [target, attackers] of attackersByTarget) {
-      SlotManager.assignSlotsGreedy(attackers, target, allFighters);
+    // Run as many fixed logic ticks as the elapsed time covers (catches up after slow frames)
+    const timestep = BattleSimulator.FIXED_TIMESTEP;
+    this.accumulator += frameTime * this.getTimeScale();
+    let winner: PlayerPosition | 'tie' | null = null;
+    while (this.accumulator >= timestep && winner === null) {
+      this.savePreviousPositions();
+      // Step the simulation (also checks win condition and timeout)
+      winner = this.simulator.step(timestep);
+      this.accumulator -= timestep;
     }
 
-    // STEP 4: Update all fighters (skip target finding since we already did it)
-    for (const team of allTeams) {
-      const fighters = this.teams.get(team) || [];
-      if (fighters.length === 0) continue;
+    // Blend between the last two ticks so motion stays smooth at any refresh rate
+    this.draw(winner === null ? this.accumulator / timestep : 1);
 
-      const enemies = enemiesByTeam.get(team) || [];
-
-      for (const fighter of fighters) {
-        if (!fighter.isDead) {
-          fighter.update(enemies, deltaTime, fighters, true); // skipTargetFind = true
-        }
-      }
-    }
-
-    // Track kills - check which units died this frame
-    for (const team of allTeams) {
-      const aliveBefore = aliveBeforeUpdate.get(team) || new Set();
-      for (const fighter of aliveBefore) {
-        if (fighter.isDead && fighter.lastAttackerTeam) {
-          // Credit kill to the attacker's team
-          const attackerTeam = fighter.lastAttackerTeam;
-          const currentKills = this.teamKills.get(attackerTeam) || 0;
-          this.teamKills.set(attackerTeam, currentKills + 1);
-
-          // Track kill by unit type (what type of unit made the kill)
-          const killsByType = this.teamKillsByType.get(attackerTeam) || new Map();
-          // Track what type of unit killed this fighter
-          const killerType = fighter.lastAttackerType || 'unknown';
-          const currentTypeKills = killsByType.get(killerType) || 0;
-          killsByType.set(killerType, currentTypeKills + 1);
-          this.teamKillsByType.set(attackerTeam, killsByType);
-
-          // Clean up attack slots for dead target
-          SlotManager.cleanupDeadTarget(fighter);
-        }
-      }
+    if (winner !== null) {
+      this.end(winner);
+      return;
     }
 
-    // Update damage numbers
-    DamageNumberManager.update(deltaTime);
-
-    // Keep fighters in arena bounds
-    this.constrainToArena();
-  }
+    this.animationFrameId = requestAnimationFrame(this.gameLoop);
+  };
 
-  private constrainToArena(): void {
-    // Keep fighters strictly inside the circular arena
-    const maxDist = this.hexRadius; // Strict boundary at arena edge
-    for (const [, fighters] of this.teams) {
+  private savePreviousPositions(): void {
+    for (const [, fighters] of this.simulator.getTeams()) {
       for (const fighter of fighters) {
-        const dx = fighter.x - this.arenaCenterX;
-        const dy = fighter.y - this.arenaCenterY;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-
-        if (dist > maxDist) {
-          // Hard clamp to edge - no exceptions
-          fighter.x = this.arenaCenterX + (dx / dist) * maxDist;
-          fighter.y = this.arenaCenterY + (dy / dist) * maxDist;
+        const prev = this.previousPositions.get(fighter);
+        if (prev) {
+          prev.x = fighter.x;
+          prev.y = fighter.y;
+        } else {
+          this.previousPositions.set(fighter, { x: fighter.x, y: fighter.y });
         }
       }
     }
   }
 
-  private draw(): void {
+  // alpha: 0 = previous tick, 1 = current tick
+  private draw(alpha: number = 1): void {
     // Clear canvas
     this.ctx.fillStyle = '#1a1a2e';
     this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
 
     // Draw battle arena background
     this.drawBattleBackground();
+    this.simulator.getSafeZone()?.draw(this.ctx, this.simulator.getElapsedTime());
 
-    // Draw all fighters
-    for (const [, fighters] of this.teams) {
+    // Draw all fighters at their interpolated positions, then restore the simulated ones
+    for (const [, fighters] of this.simulator.getTeams()) {
       for (const fighter of fighters) {
+        const prev = this.previousPositions.get(fighter);
+        const simX = fighter.x;
+        const simY = fighter.y;
+        if (prev) {
+          fighter.x = prev.x + (simX - prev.x) * alpha;
+          fighter.y = prev.y + (simY - prev.y) * alpha;
+        }
         fighter.draw(this.ctx);
+        fighter.x = simX;
+        fighter.y = simY;
       }
     }
 
+    // Draw projectiles (worker mode: copies from the last snapshot)
+    this.simulator.getContext().projectiles.draw(this.ctx);
+    this.drawMirroredProjectiles();
+
     // Draw god power effects
     this.drawGodPowerEffects();
 
     // Draw damage numbers
-    DamageNumberManager.draw(this.ctx);
+    this.simulator.getContext().damageNumbers.draw(this.ctx);
 
     // Draw team counts around the hexagon
     this.drawTeamCounts();
@@ -895,20 +623,346 @@ export class BattleArena {
 
     // Draw battle timer
     this.drawBattleTimer();
+
+    // Draw speed / pause control
+    this.drawSpeedControls();
+
+    // Draw combat log toggle and panel
+    this.drawCombatLog();
+
+    // Draw replay timeline
+    if (this.replayPlayer) {
+      this.drawReplayControls();
+    }
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = speed;
+    this.paused = false; // Picking a speed resumes the battle
+    this.syncWorkerSpeed();
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+    this.syncWorkerSpeed();
+  }
+
+  togglePause(): void {
+    this.setPaused(!this.paused);
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Simulation ms per real ms
+  private getTimeScale(): number {
+    return this.paused ? 0 : this.speed;
+  }
+
+  private syncWorkerSpeed(): void {
+    this.postToWorker({ type: 'speed', speed: this.getTimeScale() });
+  }
+
+  // Pause button followed by one button per speed (speed null = pause)
+  private getSpeedControlButtons(): { label: string; speed: number | null; x: number; y: number; width: number; height: number }[] {
+    const width = 40;
+    const height = 26;
+    const gap = 4;
+    const labels = [{ label: '❚❚', speed: null as number | null }, ...BATTLE_SPEEDS.map(speed => ({ label: `${speed}x`, speed }))];
+    return labels.map((button, i) => ({
+      ...button,
+      x: 20 + i * (width + gap),
+      y: 10,
+      width,
+      height
+    }));
+  }
+
+  private drawSpeedControls(): void {
+    const ctx = this.ctx;
+
+    for (const button of this.getSpeedControlButtons()) {
+      const isActive = button.speed === null ? this.paused : !this.paused && this.speed === button.speed;
+
+      ctx.fillStyle = isActive ? '#ffd700' : 'rgba(0, 0, 0, 0.7)';
+      ctx.beginPath();
+      ctx.roundRect(button.x, button.y, button.width, button.height, 4);
+      ctx.fill();
+      ctx.strokeStyle = isActive ? '#ffd700' : '#555';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+
+      ctx.fillStyle = isActive ? '#1a1a2e' : '#fff';
+      ctx.font = 'bold 12px monospace';
+      ctx.textAlign = 'center';
+      ctx.fillText(button.label, button.x + button.width / 2, button.y + 17);
+    }
+
+    if (this.paused) {
+      ctx.fillStyle = '#ffd700';
+      ctx.font = 'bold 20px monospace';
+      ctx.textAlign = 'center';
+      ctx.fillText('PAUSED', this.canvas.width / 2, 65);
+    }
+  }
+
+  handleSpeedControlClick(x: number, y: number): boolean {
+    if (!this.running) return false;
+
+    for (const button of this.getSpeedControlButtons()) {
+      if (x >= button.x && x <= button.x + button.width && y >= button.y && y <= button.y + button.height) {
+        if (button.speed === null) {
+          this.togglePause();
+        } else {
+          this.setSpeed(button.speed);
+        }
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  // Keyboard shortcuts: Space / P toggle pause, 1-4 pick a speed, L toggles the combat log; in replays arrows seek and Escape closes
+  handleKeyDown(key: string): boolean {
+    if (!this.running) return false;
+
+    if (this.replayPlayer) {
+      if (key === 'Escape') {
+        this.closeReplay();
+        return true;
+      }
+      if (key === 'ArrowLeft' || key === 'ArrowRight') {
+        const step = key === 'ArrowLeft' ? -this.REPLAY_SEEK_STEP : this.REPLAY_SEEK_STEP;
+        this.seekReplay(this.replayPlayer.getTick() + step);
+        return true;
+      }
+    }
+
+    if (key === ' ' || key === 'p' || key === 'P') {
+      this.togglePause();
+      return true;
+    }
+
+    if (key === 'l' || key === 'L') {
+      this.toggleCombatLog();
+      return true;
+    }
+
+    const index = parseInt(key, 10) - 1;
+    if (index >= 0 && index < BATTLE_SPEEDS.length) {
+      this.setSpeed(BATTLE_SPEEDS[index]);
+      return true;
+    }
+
+    return false;
+  }
+
+  toggleCombatLog(): void {
+    this.showCombatLog = !this.showCombatLog;
+    this.combatLogScroll = 0;
+  }
+
+  private getCombatLogButtonBounds(): { x: number; y: number; width: number; height: number } {
+    const speedButtons = this.getSpeedControlButtons();
+    const last = speedButtons[speedButtons.length - 1];
+    return { x: last.x + last.width + 12, y: last.y, width: 50, height: last.height };
+  }
+
+  private getCombatLogPanelBounds(): { x: number; y: number; width: number; height: number } {
+    return { x: 20, y: 46, width: 380, height: Math.min(320, this.canvas.height - 260) };
+  }
+
+  // "ALL" followed by one swatch per team
+  private getCombatLogFilterButtons(): { team: Team | null; x: number; y: number; width: number; height: number }[] {
+    const panel = this.getCombatLogPanelBounds();
+    const teams: (Team | null)[] = [null, 'blue', 'purple', 'pink', 'red', 'orange', 'green'];
+    return teams.map((team, i) => ({
+      team,
+      x: panel.x + 6 + (i === 0 ? 0 : 40 + (i - 1) * 24),
+      y: panel.y + 6,
+      width: i === 0 ? 34 : 18,
+      height: 18
+    }));
+  }
+
+  private getCombatLogVisibleLines(): number {
+    return Math.floor((this.getCombatLogPanelBounds().height - 38) / this.COMBAT_LOG_LINE_HEIGHT);
+  }
+
+  private drawCombatLog(): void {
+    const ctx = this.ctx;
+
+    // Toggle button
+    const button = this.getCombatLogButtonBounds();
+    ctx.fillStyle = this.showCombatLog ? '#ffd700' : 'rgba(0, 0, 0, 0.7)';
+    ctx.beginPath();
+    ctx.roundRect(button.x, button.y, button.width, button.height, 4);
+    ctx.fill();
+    ctx.strokeStyle = this.showCombatLog ? '#ffd700' : '#555';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    ctx.fillStyle = this.showCombatLog ? '#1a1a2e' : '#fff';
+    ctx.font = 'bold 12px monospace';
+    ctx.textAlign = 'center';
+    ctx.fillText('LOG', button.x + button.width / 2, button.y + 17);
+
+    if (!this.showCombatLog) return;
+
+    const panel = this.getCombatLogPanelBounds();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+    ctx.beginPath();
+    ctx.roundRect(panel.x, panel.y, panel.width, panel.height, 6);
+    ctx.fill();
+    ctx.strokeStyle = '#555';
+    ctx.stroke();
+
+    // Team filter
+    for (const filter of this.getCombatLogFilterButtons()) {
+      const isActive = filter.team === this.combatLogTeam;
+      ctx.fillStyle = filter.team ? TEAM_COLORS[filter.team] : '#333';
+      ctx.fillRect(filter.x, filter.y, filter.width, filter.height);
+      ctx.strokeStyle = isActive ? '#ffd700' : '#555';
+      ctx.lineWidth = isActive ? 2 : 1;
+      ctx.strokeRect(filter.x, filter.y, filter.width, filter.height);
+      if (!filter.team) {
+        ctx.fillStyle = '#fff';
+        ctx.font = 'bold 10px monospace';
+        ctx.textAlign = 'center';
+        ctx.fillText('ALL', filter.x + filter.width / 2, filter.y + 13);
+      }
+    }
+
+    // Newest entries at the bottom; scrolling moves back in time
+    const entries = this.simulator.getContext().combatLog.getFiltered(this.combatLogTeam);
+    const visible = this.getCombatLogVisibleLines();
+    const maxScroll = Math.max(0, entries.length - visible);
+    this.combatLogScroll = Math.min(this.combatLogScroll, maxScroll);
+    const start = Math.max(0, entries.length - visible - this.combatLogScroll);
+    const listY = panel.y + 32;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(panel.x, listY, panel.width - 8, panel.height - 32);
+    ctx.clip();
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'left';
+    for (let i = start; i < Math.min(entries.length, start + visible); i++) {
+      const entry = entries[i];
+      const y = listY + (i - start + 1) * this.COMBAT_LOG_LINE_HEIGHT - 3;
+      ctx.fillStyle = '#888';
+      ctx.fillText(formatCombatLogTime(entry.time), panel.x + 6, y);
+      const team = entry.sourceTeam ?? entry.targetTeam;
+      ctx.fillStyle = entry.kind === 'death' ? '#fff' : team ? TEAM_COLORS[team] : '#ccc';
+      ctx.fillText(formatCombatLogEntry(entry), panel.x + 54, y);
+    }
+    ctx.restore();
+
+    if (entries.length === 0) {
+      ctx.fillStyle = '#666';
+      ctx.font = '11px monospace';
+      ctx.textAlign = 'center';
+      ctx.fillText('No combat yet', panel.x + panel.width / 2, listY + 20);
+    }
+
+    // Scrollbar
+    if (maxScroll > 0) {
+      const trackHeight = panel.height - 38;
+      const thumbHeight = Math.max(12, trackHeight * visible / entries.length);
+      const thumbY = listY + (trackHeight - thumbHeight) * (1 - this.combatLogScroll / maxScroll);
+      ctx.fillStyle = '#666';
+      ctx.fillRect(panel.x + panel.width - 6, thumbY, 3, thumbHeight);
+    }
+  }
+
+  // LOG toggle, team filter and clicks inside the open panel
+  handleCombatLogClick(x: number, y: number): boolean {
+    if (!this.running) return false;
+    const inside = (b: { x: number; y: number; width: number; height: number }) =>
+      x >= b.x && x <= b.x + b.width && y >= b.y && y <= b.y + b.height;
+
+    if (inside(this.getCombatLogButtonBounds())) {
+      this.toggleCombatLog();
+      return true;
+    }
+    if (!this.showCombatLog) return false;
+
+    for (const filter of this.getCombatLogFilterButtons()) {
+      if (inside(filter)) {
+        this.combatLogTeam = filter.team;
+        this.combatLogScroll = 0;
+        return true;
+      }
+    }
+
+    return inside(this.getCombatLogPanelBounds());
+  }
+
+  // Mouse wheel over the open combat log scrolls it
+  handleWheel(x: number, y: number, deltaY: number): boolean {
+    if (!this.running || !this.showCombatLog) return false;
+    const panel = this.getCombatLogPanelBounds();
+    if (x < panel.x || x > panel.x + panel.width || y < panel.y || y > panel.y + panel.height) return false;
+
+    const lines = Math.sign(deltaY) * Math.max(1, Math.round(Math.abs(deltaY) / this.COMBAT_LOG_LINE_HEIGHT));
+    this.combatLogScroll = Math.max(0, this.combatLogScroll - lines);
+    return true;
+  }
+
+  private drawMirroredProjectiles(): void {
+    for (const projectile of this.simulator.getMirroredProjectiles()) {
+      switch (projectile.kind) {
+        case 'arrow':
+          Arrow.drawAt(this.ctx, projectile.x, projectile.y, projectile.angle);
+          break;
+        case 'piercing_arrow':
+          PiercingArrow.drawAt(this.ctx, projectile.x, projectile.y, projectile.angle);
+          break;
+        case 'void_bolt':
+          VoidBolt.drawAt(this.ctx, projectile.x, projectile.y, projectile.impactFrame, projectile.impactRadius);
+          break;
+      }
+    }
   }
 
   private drawBattleTimer(): void {
-    const elapsed = Date.now() - this.battleStartTime;
-    const remaining = Math.max(0, this.maxBattleDuration - elapsed);
-    const seconds = Math.ceil(remaining / 1000);
+    const elapsed = this.simulator.getElapsedTime();
+    const overtime = this.simulator.getOvertimeElapsed();
 
     this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    this.ctx.textAlign = 'center';
+
+    if (overtime > 0) {
+      // Sudden death - count down to the hard cap
+      const seconds = Math.ceil(Math.max(0, this.simulator.getOvertimeDuration() - overtime) / 1000);
+      this.ctx.fillRect(this.canvas.width / 2 - 90, 10, 180, 30);
+      this.ctx.fillStyle = '#ef4444';
+      this.ctx.font = 'bold 18px monospace';
+      this.ctx.fillText(`SUDDEN DEATH ${seconds}s`, this.canvas.width / 2, 32);
+      return;
+    }
+
+    const remaining = Math.max(0, this.simulator.getMaxBattleDuration() - elapsed);
+    const seconds = Math.ceil(remaining / 1000);
     this.ctx.fillRect(this.canvas.width / 2 - 40, 10, 80, 30);
 
     this.ctx.fillStyle = seconds <= 10 ? '#ef4444' : '#ffffff';
     this.ctx.font = 'bold 18px monospace';
-    this.ctx.textAlign = 'center';
     this.ctx.fillText(`${seconds}s`, this.canvas.width / 2, 32);
+
+    // Safe zone countdown under the timer
+    const zone = this.simulator.getSafeZone();
+    if (zone) {
+      const untilClosing = Math.ceil((zone.config.startDelay - elapsed) / 1000);
+      this.ctx.fillStyle = '#a78bfa';
+      this.ctx.font = '12px monospace';
+      this.ctx.fillText(untilClosing > 0 ? `Zone closes in ${untilClosing}s` : 'Zone closing', this.canvas.width / 2, 54);
+    }
   }
 
   private drawLiveUnitCounts(): void {
@@ -940,13 +994,15 @@ export class BattleArena {
       swordsman: '⚔',
       archer: '🏹',
       mage: '🔮',
-      healer: '💚'
+      healer: '💚',
+      cavalry: '🐎',
+      assassin: '🗡'
     };
 
     // Get teams with units, sorted by total alive
     const teamData: { team: Team; alive: number; byType: Map<string, number> }[] = [];
 
-    for (const [team, fighters] of this.teams) {
+    for (const [team, fighters] of this.simulator.getTeams()) {
       if (fighters.length === 0) continue;
 
       const byType = new Map<string, number>();
@@ -1011,101 +1067,16 @@ export class BattleArena {
     }
   }
 
-  private checkWinCondition(): PlayerPosition | 'tie' | null {
-    // Count alive fighters per team
-    const teamsWithAlive: Team[] = [];
-    for (const [team, fighters] of this.teams) {
-      const alive = fighters.filter(f => !f.isDead).length;
-      if (alive > 0) {
-        teamsWithAlive.push(team);
-      }
-    }
-
-    // If only one team remains, determine winner
-    if (teamsWithAlive.length <= 1) {
-      if (teamsWithAlive.includes('red')) return 'player';
-      if (teamsWithAlive.includes('blue')) return 'opponent';
-      // Any other team winning, or all dead = tie
-      return 'tie';
-    }
-
-    return null; // Battle continues (2+ teams still fighting)
-  }
-
-  private resolveByHealth(): void {
-    // Calculate total health percentage for each team
-    const healthByTeam = new Map<Team, number>();
-    for (const [team, fighters] of this.teams) {
-      if (fighters.length > 0) {
-        healthByTeam.set(team, this.calculateTeamHealthPercent(fighters));
-      }
-    }
-
-    // Find the team with highest health
-    let bestTeam: Team | null = null;
-    let bestHealth = -1;
-    for (const [team, health] of healthByTeam) {
-      if (health > bestHealth) {
-        bestHealth = health;
-        bestTeam = team;
-      }
-    }
-
-    // Convert to PlayerPosition result
-    if (bestTeam === 'red') {
-      this.end('player');
-    } else if (bestTeam === 'blue') {
-      this.end('opponent');
-    } else {
-      // Any other team winning counts as tie for now
-      this.end('tie');
-    }
-  }
-
-  private calculateTeamHealthPercent(team: Fighter[]): number {
-    let totalCurrent = 0;
-    let totalMax = 0;
-
-    for (const fighter of team) {
-      totalCurrent += Math.max(0, fighter.health);
-      totalMax += fighter.maxHealth;
-    }
-
-    return totalMax > 0 ? totalCurrent / totalMax : 0;
-  }
-
   private end(winner: PlayerPosition | 'tie'): void {
     this.running = false;
     if (this.animationFrameId !== null) {
       cancelAnimationFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
+    this.stopWorker();
 
-    // Create battle summary
-    const allTeams: Team[] = ['blue', 'purple', 'pink', 'red', 'orange', 'green'];
-    const teamSummaries: TeamSummary[] = [];
-
-    for (const team of allTeams) {
-      const fighters = this.teams.get(team) || [];
-      if (fighters.length === 0) continue;
-
-      teamSummaries.push({
-        team,
-        totalKills: this.teamKills.get(team) || 0,
-        killsByType: this.teamKillsByType.get(team) || new Map(),
-        unitsRemaining: fighters.filter(f => !f.isDead).length,
-        totalUnits: fighters.length
-      });
-    }
-
-    // Sort by kills (highest first)
-    teamSummaries.sort((a, b) => b.totalKills - a.totalKills);
-
-    this.battleSummary = {
-      winner,
-      teams: teamSummaries,
-      battleDuration: Date.now() - this.battleStartTime
-    };
+    this.battleSummary = this.simulator.getSummary();
+    this.lastReplay = this.recorder.finish(this.simulator.getTick(), winner);
 
     // Show summary screen (persists until rematch clicked)
     this.showingSummary = true;
@@ -1115,27 +1086,7 @@ export class BattleArena {
 
   // Get battle rankings as player positions (1st place = winner, 6th = worst)
   getBattleRankings(): PlayerPosition[] {
-    if (!this.battleSummary) return [];
-
-    // Must match the teamMapping in setupBattle()
-    const teamToPosition: Record<Team, PlayerPosition> = {
-      'red': 'player',
-      'blue': 'opponent',
-      'green': 'topLeft',
-      'pink': 'topRight',
-      'orange': 'bottomLeft',
-      'purple': 'bottomRight'
-    };
-
-    // Sort by units remaining (primary), then kills (secondary)
-    const sorted = [...this.battleSummary.teams].sort((a, b) => {
-      if (b.unitsRemaining !== a.unitsRemaining) {
-        return b.unitsRemaining - a.unitsRemaining;
-      }
-      return b.totalKills - a.totalKills;
-    });
-
-    return sorted.map(summary => teamToPosition[summary.team]);
+    return this.simulator.getBattleRankings();
   }
 
   private drawBattleSummary(): void {
@@ -1178,8 +1129,8 @@ export class BattleArena {
     if (this.battleSummary.winner === 'player') {
       winnerText = 'VICTORY!';
       winnerColor = '#22c55e';
-    } else if (this.battleSummary.winner === 'opponent') {
-      winnerText = 'DEFEAT';
+    } else if (this.battleSummary.winner !== 'tie') {
+      winnerText = `DEFEAT - ${teamNames[this.battleSummary.placements[0]]} wins`;
       winnerColor = '#ef4444';
     } else {
       winnerText = 'TIE';
@@ -1194,11 +1145,11 @@ export class BattleArena {
     const durationSecs = Math.floor(this.battleSummary.battleDuration / 1000);
     ctx.fillStyle = '#888';
     ctx.font = '14px monospace';
-    ctx.fillText(`Battle Duration: ${durationSecs}s`, width / 2, 115);
+    ctx.fillText(`Battle Duration: ${durationSecs}s${this.battleSummary.overtime ? ' (sudden death)' : ''}`, width / 2, 115);
 
     // Team stats
     const startY = 150;
-    const rowHeight = 100;
+    const rowHeight = 130;
     const colWidth = width / 3;
 
     ctx.font = 'bold 16px monospace';
@@ -1213,11 +1164,12 @@ export class BattleArena {
       const x = colWidth * col + colWidth / 2;
       const y = startY + 30 + row * rowHeight;
 
-      // Team name and total kills
+      // Placement, team name and total kills
+      const place = this.battleSummary.placements.indexOf(summary.team) + 1;
       ctx.fillStyle = teamColors[summary.team];
       ctx.font = 'bold 18px monospace';
       ctx.textAlign = 'center';
-      ctx.fillText(`${teamNames[summary.team]}`, x, y);
+      ctx.fillText(`${place}${ORDINAL_SUFFIXES[place] ?? 'th'} ${teamNames[summary.team]}`, x, y);
 
       ctx.fillStyle = '#fff';
       ctx.font = 'bold 24px monospace';
@@ -1226,7 +1178,10 @@ export class BattleArena {
       // Units remaining
       ctx.fillStyle = '#888';
       ctx.font = '12px monospace';
-      ctx.fillText(`${summary.unitsRemaining}/${summary.totalUnits} survived`, x, y + 45);
+      const survival = summary.eliminatedAt !== null
+        ? `wiped out at ${Math.floor(summary.eliminatedAt / 1000)}s`
+        : `${summary.unitsRemaining}/${summary.totalUnits} survived`;
+      ctx.fillText(survival, x, y + 45);
 
       // Kills by unit type (what type of unit got the kills)
       ctx.font = '10px monospace';
@@ -1236,7 +1191,9 @@ export class BattleArena {
         swordsman: '⚔️',
         archer: '🏹',
         mage: '🔮',
-        healer: '💚'
+        healer: '💚',
+        cavalry: '🐎',
+        assassin: '🗡️'
       };
       for (const [unitType, count] of summary.killsByType) {
         if (count > 0) {
@@ -1250,10 +1207,291 @@ export class BattleArena {
         ctx.fillStyle = '#888';
         ctx.fillText(typeKills.join('  '), x, y + 72);
       }
+
+      // Armor/resistances: damage absorbed and any defensive card bonuses
+      ctx.fillStyle = '#94a3b8';
+      ctx.fillText(`${Math.round(summary.damageBlocked)} dmg blocked`, x, y + 88);
+      if (summary.defenseBonuses.length > 0) {
+        ctx.fillStyle = '#888';
+        ctx.fillText(summary.defenseBonuses.join('  '), x, y + 102);
+      }
     }
 
     // Rematch button
     this.drawRematchButton();
+
+    // Replay buttons either side of it
+    if (this.lastReplay) {
+      const buttons = this.getSummaryReplayButtonBounds();
+      this.drawSummaryButton(buttons.watch, 'WATCH REPLAY', '#3b82f6');
+      this.drawSummaryButton(buttons.save, 'SAVE REPLAY', '#6b7280');
+    }
+
+    // Combat log export above them
+    const logButtons = this.getSummaryLogButtonBounds();
+    this.drawSummaryButton(logButtons.text, 'EXPORT LOG .TXT', '#6b7280');
+    this.drawSummaryButton(logButtons.json, 'EXPORT LOG .JSON', '#6b7280');
+  }
+
+  private drawSummaryButton(bounds: { x: number; y: number; width: number; height: number }, label: string, color: string): void {
+    const ctx = this.ctx;
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.roundRect(bounds.x, bounds.y, bounds.width, bounds.height, 8);
+    ctx.fill();
+
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 14px monospace';
+    ctx.textAlign = 'center';
+    ctx.fillText(label, bounds.x + bounds.width / 2, bounds.y + 28);
+  }
+
+  private getSummaryReplayButtonBounds(): {
+    watch: { x: number; y: number; width: number; height: number };
+    save: { x: number; y: number; width: number; height: number };
+  } {
+    const continueBtn = this.getRematchButtonBounds();
+    const btnWidth = 150;
+    const gap = 20;
+    return {
+      watch: { x: continueBtn.x - gap - btnWidth, y: continueBtn.y, width: btnWidth, height: continueBtn.height },
+      save: { x: continueBtn.x + continueBtn.width + gap, y: continueBtn.y, width: btnWidth, height: continueBtn.height }
+    };
+  }
+
+  private getSummaryLogButtonBounds(): {
+    text: { x: number; y: number; width: number; height: number };
+    json: { x: number; y: number; width: number; height: number };
+  } {
+    const continueBtn = this.getRematchButtonBounds();
+    const btnWidth = 170;
+    const gap = 20;
+    const y = continueBtn.y - continueBtn.height - 15;
+    return {
+      text: { x: this.canvas.width / 2 - gap / 2 - btnWidth, y, width: btnWidth, height: continueBtn.height },
+      json: { x: this.canvas.width / 2 + gap / 2, y, width: btnWidth, height: continueBtn.height }
+    };
+  }
+
+  // Watch / save replay and combat log export buttons on the summary screen
+  handleSummaryReplayClick(x: number, y: number): boolean {
+    if (!this.showingSummary) return false;
+
+    const inside = (b: { x: number; y: number; width: number; height: number }) =>
+      x >= b.x && x <= b.x + b.width && y >= b.y && y <= b.y + b.height;
+
+    const logButtons = this.getSummaryLogButtonBounds();
+    if (inside(logButtons.text)) {
+      this.exportCombatLog('text');
+      return true;
+    }
+    if (inside(logButtons.json)) {
+      this.exportCombatLog('json');
+      return true;
+    }
+
+    if (!this.lastReplay) return false;
+    const { watch, save } = this.getSummaryReplayButtonBounds();
+    if (inside(watch)) {
+      this.watchReplay(this.lastReplay, () => this.drawBattleSummary());
+      return true;
+    }
+    if (inside(save)) {
+      this.saveReplay();
+      return true;
+    }
+    return false;
+  }
+
+  getLastReplay(): BattleReplay | null {
+    return this.lastReplay;
+  }
+
+  // Download the last battle's replay as a JSON file
+  saveReplay(): void {
+    if (!this.lastReplay) return;
+    this.downloadFile(`battle-replay-${this.lastReplay.config.seed}.json`, serializeReplay(this.lastReplay), 'application/json');
+  }
+
+  // Download the battle's combat log (all teams) as plain text or JSON
+  exportCombatLog(format: 'text' | 'json'): void {
+    const entries = this.simulator.getContext().combatLog.getEntries();
+    const name = `combat-log-${this.config?.seed ?? 'battle'}`;
+    if (format === 'json') {
+      this.downloadFile(`${name}.json`, combatLogToJSON(entries), 'application/json');
+    } else {
+      this.downloadFile(`${name}.txt`, combatLogToText(entries), 'text/plain');
+    }
+  }
+
+  private downloadFile(filename: string, content: string, type: string): void {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // Play a recorded battle in this arena. onClose runs when the viewer closes it.
+  watchReplay(replay: BattleReplay, onClose: () => void): void {
+    if (this.replayPlayer) this.closeReplay();
+
+    this.stop();
+    this.liveSimulator = this.simulator;
+    this.replayPlayer = new ReplayPlayer(replay, (card, cast) => {
+      this.addGodPowerEffect(card, cast.x, cast.y);
+    });
+    this.useSimulator(this.replayPlayer.simulator);
+    this.onReplayClose = onClose;
+
+    this.previousPositions.clear();
+    this.godPowerEffects = [];
+    this.selectedGodCard = null;
+    this.paused = false;
+    this.running = true;
+    this.lastFrameTime = performance.now();
+    this.accumulator = 0;
+    this.replayLoop();
+  }
+
+  // Draw from another simulator - the arena geometry follows it (a replay may come from a different canvas size)
+  private useSimulator(simulator: BattleSimulator): void {
+    this.simulator = simulator;
+    this.hexGrid = simulator.hexGrid;
+  }
+
+  isWatchingReplay(): boolean {
+    return this.replayPlayer !== null;
+  }
+
+  closeReplay(): void {
+    if (!this.replayPlayer) return;
+
+    this.stop();
+    this.useSimulator(this.liveSimulator ?? this.simulator);
+    this.liveSimulator = null;
+    this.replayPlayer = null;
+    this.previousPositions.clear();
+    this.godPowerEffects = [];
+
+    const onClose = this.onReplayClose;
+    this.onReplayClose = null;
+    onClose?.();
+  }
+
+  seekReplay(tick: number): void {
+    if (!this.replayPlayer) return;
+
+    this.godPowerEffects = [];
+    this.replayPlayer.seek(tick);
+    this.previousPositions.clear(); // Don't interpolate across the jump
+    this.accumulator = 0;
+  }
+
+  // Replay frame: same fixed timestep as a live battle, but ticks come from the recording
+  private replayLoop = (): void => {
+    if (!this.replayPlayer || !this.running) return;
+
+    const now = performance.now();
+    const frameTime = Math.min(now - this.lastFrameTime, this.MAX_FRAME_TIME);
+    this.lastFrameTime = now;
+
+    const timestep = BattleSimulator.FIXED_TIMESTEP;
+    this.accumulator += frameTime * this.getTimeScale();
+    while (this.accumulator >= timestep && !this.replayPlayer.isFinished()) {
+      this.savePreviousPositions();
+      this.replayPlayer.step();
+      this.accumulator -= timestep;
+    }
+
+    // Hold the last frame at the end - the viewer can still seek back
+    if (this.replayPlayer.isFinished()) {
+      this.accumulator = 0;
+    }
+    this.draw(this.replayPlayer.isFinished() ? 1 : this.accumulator / timestep);
+
+    this.animationFrameId = requestAnimationFrame(this.replayLoop);
+  };
+
+  private getReplaySeekBarBounds(): { x: number; y: number; width: number; height: number } {
+    return { x: 260, y: this.canvas.height - 45, width: this.canvas.width - 520, height: 14 };
+  }
+
+  private getReplayCloseButtonBounds(): { x: number; y: number; width: number; height: number } {
+    return { x: this.canvas.width - 110, y: 10, width: 90, height: 26 };
+  }
+
+  private drawReplayControls(): void {
+    if (!this.replayPlayer) return;
+
+    const ctx = this.ctx;
+    const bar = this.getReplaySeekBarBounds();
+    const total = Math.max(1, this.replayPlayer.getTotalTicks());
+    const progress = Math.min(1, this.replayPlayer.getTick() / total);
+    const formatTicks = (ticks: number) => {
+      const secs = Math.floor(ticks * BattleSimulator.FIXED_TIMESTEP / 1000);
+      return `${Math.floor(secs / 60)}:${String(secs % 60).padStart(2, '0')}`;
+    };
+
+    // Label and time
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 12px monospace';
+    ctx.textAlign = 'left';
+    ctx.fillText('REPLAY', bar.x, bar.y - 6);
+    ctx.textAlign = 'right';
+    ctx.fillText(`${formatTicks(this.replayPlayer.getTick())} / ${formatTicks(total)}`, bar.x + bar.width, bar.y - 6);
+
+    // Track and progress
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.beginPath();
+    ctx.roundRect(bar.x, bar.y, bar.width, bar.height, 4);
+    ctx.fill();
+    ctx.fillStyle = '#3b82f6';
+    ctx.beginPath();
+    ctx.roundRect(bar.x, bar.y, Math.max(bar.height, bar.width * progress), bar.height, 4);
+    ctx.fill();
+
+    // God cast markers
+    ctx.fillStyle = '#ffd700';
+    for (const cast of this.replayPlayer.replay.casts) {
+      ctx.fillRect(bar.x + bar.width * Math.min(1, cast.tick / total) - 1, bar.y - 2, 2, bar.height + 4);
+    }
+
+    // Close button
+    const close = this.getReplayCloseButtonBounds();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.beginPath();
+    ctx.roundRect(close.x, close.y, close.width, close.height, 4);
+    ctx.fill();
+    ctx.strokeStyle = '#555';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    ctx.fillStyle = '#fff';
+    ctx.textAlign = 'center';
+    ctx.fillText('CLOSE', close.x + close.width / 2, close.y + 17);
+  }
+
+  // Clicks while watching a replay: speed control, combat log, seek bar, close button
+  handleReplayClick(x: number, y: number): boolean {
+    if (!this.replayPlayer) return false;
+
+    if (this.handleSpeedControlClick(x, y) || this.handleCombatLogClick(x, y)) return true;
+
+    const close = this.getReplayCloseButtonBounds();
+    if (x >= close.x && x <= close.x + close.width && y >= close.y && y <= close.y + close.height) {
+      this.closeReplay();
+      return true;
+    }
+
+    const bar = this.getReplaySeekBarBounds();
+    if (x >= bar.x && x <= bar.x + bar.width && y >= bar.y - 6 && y <= bar.y + bar.height + 6) {
+      this.seekReplay(Math.round((x - bar.x) / bar.width * this.replayPlayer.getTotalTicks()));
+      return true;
+    }
+
+    return true; // Nothing else is clickable in a replay
   }
 
   private drawRematchButton(): void {
@@ -1322,17 +1560,14 @@ export class BattleArena {
       cancelAnimationFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
+    this.stopWorker();
   }
 
   reset(): void {
     this.stop();
-    for (const team of this.teams.keys()) {
-      this.teams.set(team, []);
-    }
     this.fighterHexes.clear();
     this.hexGrid.clearOccupied();
-    this.sharedModifiers = new TeamModifiers();
-    SlotManager.reset(); // Reset attack slot system
+    this.simulator.reset();
   }
 
   isRunning(): boolean {
@@ -1341,23 +1576,23 @@ export class BattleArena {
 
   // Get team info for UI display
   getPlayerTeam(): Fighter[] {
-    return this.teams.get('red') || [];
+    return this.simulator.getTeam('red');
   }
 
   getOpponentTeam(): Fighter[] {
-    return this.teams.get('blue') || [];
+    return this.simulator.getTeam('blue');
   }
 
   getTeam(team: Team): Fighter[] {
-    return this.teams.get(team) || [];
+    return this.simulator.getTeam(team);
   }
 
   getModifiers(): TeamModifiers {
-    return this.sharedModifiers;
+    return this.simulator.getModifiers();
   }
 
   getPlayerGodCards(): GodCard[] {
-    return this.playerGodCards;
+    return this.simulator.getPlayerGodCards();
   }
 
   getSelectedGodCard(): GodCard | null {
@@ -1365,14 +1600,11 @@ export class BattleArena {
   }
 
   isOnCooldown(cardId: string): boolean {
-    const cooldownEnd = this.godCardCooldowns.get(cardId);
-    return cooldownEnd ? Date.now() < cooldownEnd : false;
+    return this.simulator.isOnCooldown(cardId);
   }
 
   getCooldownRemaining(cardId: string): number {
-    const cooldownEnd = this.godCardCooldowns.get(cardId);
-    if (!cooldownEnd) return 0;
-    return Math.max(0, cooldownEnd - Date.now());
+    return this.simulator.getCooldownRemaining(cardId);
   }
 
   selectGodCard(card: GodCard | null): void {
@@ -1382,195 +1614,39 @@ export class BattleArena {
   }
 
   private executeGodPower(card: GodCard, x: number, y: number): void {
-    // Set cooldown
-    this.godCardCooldowns.set(card.id, Date.now() + card.cooldown);
+    const teleportIndex = this.teleportSourceUnit
+      ? this.simulator.getAllFighters().indexOf(this.teleportSourceUnit)
+      : -1;
+    const teleportUnitId = teleportIndex >= 0 ? teleportIndex : null;
+
+    if (this.worker) {
+      // The worker applies the cast as soon as the message arrives, reports it for the replay and posts a snapshot with the cooldown
+      if (this.simulator.isOnCooldown(card.id)) return;
+      this.postToWorker({ type: 'cast', cardId: card.id, x, y, teleportUnitId });
+    } else if (this.simulator.castGodPower(card, x, y, this.teleportSourceUnit)) {
+      this.recorder.recordCast({ tick: this.simulator.getTick(), cardId: card.id, x, y, teleportUnitId });
+    } else {
+      return;
+    }
+
+    this.addGodPowerEffect(card, x, y);
+    this.selectedGodCard = null;
+    this.teleportSourceUnit = null;
+  }
 
-    // Add visual effect
+  private addGodPowerEffect(card: GodCard, x: number, y: number): void {
     this.godPowerEffects.push({
       type: card.type,
       x,
       y,
-      startTime: Date.now(),
+      startTime: this.simulator.now(),
       duration: 1000,
       radius: card.radius
     });
-
-    // Execute the power
-    switch (card.type) {
-      case 'meteor_strike':
-        this.executeMeteorStrike(x, y, card.radius || 60);
-        break;
-      case 'divine_teleport':
-        this.executeTeleport(x, y);
-        break;
-      case 'healing_rain':
-        this.executeHealingRain(x, y, card.radius || 80);
-        break;
-      case 'lightning_bolt':
-        this.executeLightningBolt(x, y, card.radius || 80);
-        break;
-      case 'time_freeze':
-        this.executeTimeFreeze(x, y, card.radius || 70);
-        break;
-      case 'shield_wall':
-        this.executeShieldWall();
-        SoundManager.playShield();
-        break;
-      case 'earthquake':
-        this.executeEarthquake(x, y, card.radius || 90);
-        break;
-      case 'holy_smite':
-        this.executeHolySmite(x, y, card.radius || 40);
-        break;
-    }
-
-    SoundManager.playHit();
-    this.selectedGodCard = null;
-    this.teleportSourceUnit = null;
-  }
-
-  private executeMeteorStrike(x: number, y: number, radius: number): void {
-    // Damage all enemies (everyone except player's team)
-    for (const [team, fighters] of this.teams) {
-      if (team === 'red') continue; // Skip player's team
-      for (const fighter of fighters) {
-        if (fighter.isDead) continue;
-        const dx = fighter.x - x;
-        const dy = fighter.y - y;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-        if (dist <= radius) {
-          const damage = 40 - (dist / radius) * 20; // 40 at center, 20 at edge
-          fighter.takeDamage(damage);
-          DamageNumberManager.spawn(fighter.x, fighter.y - 10, Math.round(damage), '#ef4444');
-        }
-      }
-    }
-  }
-
-  private executeTeleport(x: number, y: number): void {
-    if (this.teleportSourceUnit) {
-      this.teleportSourceUnit.x = x;
-      this.teleportSourceUnit.y = y;
-    }
-  }
-
-  private executeHealingRain(x: number, y: number, radius: number): void {
-    const playerTeam = this.teams.get('red') || [];
-    for (const fighter of playerTeam) {
-      if (fighter.isDead) continue;
-      const dx = fighter.x - x;
-      const dy = fighter.y - y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      if (dist <= radius) {
-        const heal = 25;
-        fighter.health = Math.min(fighter.maxHealth, fighter.health + heal);
-        DamageNumberManager.spawn(fighter.x, fighter.y - 10, heal, '#22d3ee');
-      }
-    }
-  }
-
-  private executeLightningBolt(x: number, y: number, radius: number): void {
-    // Damage all enemies
-    for (const [team, fighters] of this.teams) {
-      if (team === 'red') continue;
-      for (const fighter of fighters) {
-        if (fighter.isDead) continue;
-        const dx = fighter.x - x;
-        const dy = fighter.y - y;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-        if (dist <= radius) {
-          const damage = 35;
-          fighter.takeDamage(damage);
-          DamageNumberManager.spawn(fighter.x, fighter.y - 10, damage, '#fbbf24');
-        }
-      }
-    }
-  }
-
-  private executeTimeFreeze(x: number, y: number, radius: number): void {
-    const freezeDuration = 3000;
-    // Freeze all enemies
-    for (const [team, fighters] of this.teams) {
-      if (team === 'red') continue;
-      for (const fighter of fighters) {
-        if (fighter.isDead) continue;
-        const dx = fighter.x - x;
-        const dy = fighter.y - y;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-        if (dist <= radius) {
-          fighter.statusEffects.frozenUntil = Date.now() + freezeDuration;
-        }
-      }
-    }
-  }
-
-  private executeShieldWall(): void {
-    const playerTeam = this.teams.get('red') || [];
-    for (const fighter of playerTeam) {
-      if (fighter.isDead) continue;
-      // Add temporary health boost
-      fighter.health += 30;
-      DamageNumberManager.spawn(fighter.x, fighter.y - 10, 30, '#f59e0b');
-    }
-  }
-
-  private executeEarthquake(x: number, y: number, radius: number): void {
-    // Damage and knockback all enemies
-    for (const [team, fighters] of this.teams) {
-      if (team === 'red') continue;
-      for (const fighter of fighters) {
-        if (fighter.isDead) continue;
-        const dx = fighter.x - x;
-        const dy = fighter.y - y;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-        if (dist <= radius) {
-          // Damage
-          const damage = 25;
-          fighter.takeDamage(damage);
-          DamageNumberManager.spawn(fighter.x, fighter.y - 10, damage, '#a16207');
-
-          // Knockback
-          if (dist > 0) {
-            const knockback = 50;
-            fighter.x += (dx / dist) * knockback;
-            fighter.y += (dy / dist) * knockback;
-          }
-        }
-      }
-    }
-  }
-
-  private executeHolySmite(x: number, y: number, radius: number): void {
-    // Damage enemies
-    for (const [team, fighters] of this.teams) {
-      if (team === 'red') continue;
-      for (const fighter of fighters) {
-        if (fighter.isDead) continue;
-        const dx = fighter.x - x;
-        const dy = fighter.y - y;
-        if (Math.sqrt(dx * dx + dy * dy) <= radius) {
-          const damage = 30;
-          fighter.takeDamage(damage);
-          DamageNumberManager.spawn(fighter.x, fighter.y - 10, damage, '#fef08a');
-        }
-      }
-    }
-    // Heal allies
-    const playerTeam = this.teams.get('red') || [];
-    for (const fighter of playerTeam) {
-      if (fighter.isDead) continue;
-      const dx = fighter.x - x;
-      const dy = fighter.y - y;
-      if (Math.sqrt(dx * dx + dy * dy) <= radius) {
-        const heal = 20;
-        fighter.health = Math.min(fighter.maxHealth, fighter.health + heal);
-        DamageNumberManager.spawn(fighter.x, fighter.y - 10, heal, '#22d3ee');
-      }
-    }
   }
 
   private drawGodPowerEffects(): void {
-    const now = Date.now();
+    const now = this.simulator.now();
 
     this.godPowerEffects = this.godPowerEffects.filter(effect => {
       const elapsed = now - effect.startTime;
@@ -1629,7 +1705,7 @@ export class BattleArena {
           // Golden pulse on all allies (draw at center)
           this.ctx.strokeStyle = `rgba(245, 158, 11, ${alpha})`;
           this.ctx.lineWidth = 3;
-          const playerTeamFighters = this.teams.get('red') || [];
+          const playerTeamFighters = this.simulator.getTeam('red');
           for (const fighter of playerTeamFighters) {
             if (fighter.isDead) continue;
             this.ctx.beginPath();
@@ -1687,10 +1763,10 @@ export class BattleArena {
     this.ctx.font = 'bold 10px monospace';
     this.ctx.textAlign = 'center';
     this.ctx.fillStyle = '#fff';
-    this.ctx.fillText('GOD POWERS', startX + (this.playerGodCards.length * (cardWidth + 10)) / 2, startY - 8);
+    this.ctx.fillText('GOD POWERS', startX + (this.simulator.getPlayerGodCards().length * (cardWidth + 10)) / 2, startY - 8);
 
-    for (let i = 0; i < this.playerGodCards.length; i++) {
-      const card = this.playerGodCards[i];
+    for (let i = 0; i < this.simulator.getPlayerGodCards().length; i++) {
+      const card = this.simulator.getPlayerGodCards()[i];
       const x = startX + i * (cardWidth + 10);
       const y = startY;
       const isSelected = this.selectedGodCard?.id === card.id;
@@ -1744,15 +1820,15 @@ export class BattleArena {
   }
 
   handleGodCardClick(x: number, y: number): boolean {
-    if (!this.running) return false;
+    if (!this.running || this.replayPlayer) return false;
 
     const cardWidth = 60;
     const cardHeight = 80;
     const startX = 20;
     const startY = this.canvas.height - cardHeight - 20;
 
-    for (let i = 0; i < this.playerGodCards.length; i++) {
-      const card = this.playerGodCards[i];
+    for (let i = 0; i < this.simulator.getPlayerGodCards().length; i++) {
+      const card = this.simulator.getPlayerGodCards()[i];
       const cardX = startX + i * (cardWidth + 10);
       const cardY = startY;
 
@@ -1769,7 +1845,7 @@ export class BattleArena {
 
   // Handle clicks on the battlefield for targeting god powers
   handleBattlefieldClick(x: number, y: number): void {
-    if (!this.running || !this.selectedGodCard) return;
+    if (!this.running || this.replayPlayer || !this.selectedGodCard) return;
 
     const card = this.selectedGodCard;
 
@@ -1784,7 +1860,7 @@ export class BattleArena {
       if (card.type === 'divine_teleport') {
         if (!this.teleportSourceUnit) {
           // Find clicked friendly unit (with larger radius for small units)
-          const playerTeam = this.teams.get('red') || [];
+          const playerTeam = this.simulator.getTeam('red');
           for (const fighter of playerTeam) {
             if (fighter.isDead) continue;
             const dx = x - fighter.x;
@@ -0,0 +1,35 @@
+/**
+ * Battle Clock
+ *
+ * Gameplay timers (attack cooldowns, status ticks, freezes, slot reservations,
+ * god card cooldowns, aggro ramp) read time from a Clock instead of Date.now().
+ * BattleArena owns a BattleClock that only advances by the deltaTime it is
+ * given, so a backgrounded tab, slow frame or debugger pause can't change the
+ * outcome of a battle.
+ */
+
+export interface Clock {
+  now(): number; // ms
+}
+
+// Simulation time - starts at 0 and only moves when advanced
+export class BattleClock implements Clock {
+  private time: number = 0;
+
+  now(): number {
+    return this.time;
+  }
+
+  advance(deltaTime: number): void {
+    this.time += deltaTime;
+  }
+
+  reset(): void {
+    this.time = 0;
+  }
+}
+
+// Wall-clock fallback for units that live outside a BattleArena (legacy Game mode)
+export const WallClock: Clock = {
+  now: () => Date.now()
+};
@@ -0,0 +1,89 @@
+/**
+ * Battle Context
+ *
+ * Everything that used to be process-wide battle state - attack slot
+ * assignment, damage/healing tracking, floating damage numbers, projectiles,
+ * knockback, the arena, obstacles and aggro range scaling - lives on one BattleContext created per battle.
+ * Combat code announces what happens on the context's event bus; stats,
+ * floating numbers, the combat log and sound are listeners on it.
+ * Fighters reach it through their `context` field, so two simulations can
+ * run side by side (headless batches, replays, tests) without sharing state.
+ */
+
+import { SlotManager } from './AttackSlotSystem';
+import { BattleEventBus } from './BattleEvents';
+import { DPSTracker } from './DPSTracker';
+import { DamageNumberManager } from './DamageNumber';
+import { CombatLog } from './CombatLog';
+import { ProjectileManager } from './ProjectileManager';
+import { DisplacementSystem } from './Displacement';
+import { SeededRandom } from './SeededRandom';
+import { WallClock, type Clock } from './BattleClock';
+import { SoundManager } from './SoundManager';
+import type { SpatialHash } from './SpatialHash';
+import type { HexGrid } from './HexGrid';
+import type { Arena } from './Arenas';
+import type { Fighter } from './Fighter';
+
+export class BattleContext {
+  private static readonly BASE_AGGRO_RANGE: number = 121;
+
+  readonly clock: Clock;
+  // Shared battle RNG so crits and procs are reproducible
+  readonly rng: SeededRandom;
+  readonly events: BattleEventBus;
+  readonly slots: SlotManager;
+  readonly dps: DPSTracker;
+  readonly damageNumbers: DamageNumberManager;
+  readonly combatLog: CombatLog;
+  readonly projectiles: ProjectileManager;
+  readonly displacement: DisplacementSystem;
+  // Per-tick spatial index of all fighters (rebuilt by BattleSimulator) - null falls back to list scans
+  spatialIndex: SpatialHash<Fighter> | null = null;
+  // Battle grid with obstacles (set by BattleSimulator) - null means open ground
+  grid: HexGrid | null = null;
+  // Arena boundary and hazards (set by BattleSimulator) - null means unbounded
+  arena: Arena | null = null;
+
+  // Sudden-death overtime (set by BattleSimulator): no healing, and all damage is scaled up
+  healingDisabled: boolean = false;
+  damageMultiplier: number = 1;
+
+  // Aggro range multiplier - increases over time during battle
+  private aggroRangeMultiplier: number = 1.0;
+
+  constructor(clock: Clock = WallClock, rng: SeededRandom = new SeededRandom()) {
+    this.clock = clock;
+    this.rng = rng;
+    this.events = new BattleEventBus();
+    this.slots = new SlotManager(clock);
+    this.dps = new DPSTracker(clock);
+    this.damageNumbers = new DamageNumberManager();
+    this.combatLog = new CombatLog(clock);
+    this.projectiles = new ProjectileManager(rng);
+    this.displacement = new DisplacementSystem();
+
+    this.dps.subscribe(this.events);
+    this.damageNumbers.subscribe(this.events);
+    this.combatLog.subscribe(this.events);
+    SoundManager.subscribe(this.events);
+  }
+
+  // Ground no unit walks onto: obstacles, hazards and anything outside the arena
+  isImpassable(x: number, y: number): boolean {
+    if (this.grid?.isBlockedAt(x, y)) return true;
+    return this.arena !== null && !this.arena.isWalkable(x, y);
+  }
+
+  getAggroRange(): number {
+    return BattleContext.BASE_AGGRO_RANGE * this.aggroRangeMultiplier;
+  }
+
+  increaseAggroRange(multiplier: number): void {
+    this.aggroRangeMultiplier *= multiplier;
+  }
+
+  resetAggroRange(): void {
+    this.aggroRangeMultiplier = 1.0;
+  }
+}
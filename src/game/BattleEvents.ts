@@ -0,0 +1,145 @@
+/**
+ * Battle Events
+ *
+ * Typed publish/subscribe bus owned by each BattleContext. Combat code only
+ * announces what happened - damage, heals, deaths, status effects, abilities
+ * and god power casts - and everything that reacts to it (sound, floating
+ * numbers, DPS stats, kill credit, and later logs or achievements) subscribes
+ * here instead of being called from inside the combat code.
+ */
+
+import type { Team, FighterType } from './types';
+import type { Fighter } from './Fighter';
+import type { DamageType } from './DPSTracker';
+import type { GodCard, GodPowerType } from './GodCardDeck';
+import type { StatusKind } from './StatusEffects';
+import type { ShieldSource } from './Shields';
+import type { DisplacementKind } from './Displacement';
+
+// Where a hit came from - listeners treat e.g. DoT ticks and thorns differently from attacks
+export type DamageSource = 'attack' | 'status' | 'thorns' | 'god_power' | 'impact' | 'hazard' | 'zone';
+
+export type HealSource = 'healer' | 'lifesteal' | 'ability' | 'god_power';
+
+export type AbilityKind =
+  | 'taunt'
+  | 'sweep'
+  | 'piercing_shot'
+  | 'void_eruption'
+  | 'purify'
+  | 'ground_slam'
+  | 'expunge'
+  | 'ghost_burst'
+  | 'soul_reap'
+  | 'charge'
+  | 'trample'
+  | 'ambush'
+  | 'vanish';
+
+export interface DamageEvent {
+  target: Fighter;
+  attacker: Fighter | null;
+  amount: number;                // Damage dealt after armor/resistances, forest cover and overtime scaling
+  mitigated: number;             // Damage blocked by armor/resistances only - forest cover isn't counted
+  absorbed: number;              // Part of amount soaked up by shields instead of health
+  damageType: DamageType;
+  isCrit: boolean;
+  source: DamageSource;
+  godPower: GodPowerType | null;
+}
+
+export interface HealEvent {
+  target: Fighter;
+  healer: Fighter | null;
+  amount: number;                // Health actually restored
+  source: HealSource;
+  godPower: GodPowerType | null;
+}
+
+export interface DeathEvent {
+  fighter: Fighter;
+  killerTeam: Team | null;       // Team that last damaged the fighter
+  killerType: FighterType | null;
+}
+
+export interface StatusAppliedEvent {
+  target: Fighter;
+  source: Fighter | null;
+  status: StatusKind;
+  amount: number;                // Stacks added, or ms for timed effects
+}
+
+export interface ShieldAppliedEvent {
+  target: Fighter;
+  grantedBy: Fighter | null;
+  amount: number;
+  duration: number;              // ms, Infinity for the rest of the battle
+  source: ShieldSource;
+  godPower: GodPowerType | null;
+}
+
+export interface DisplacedEvent {
+  fighter: Fighter;
+  source: Fighter | null;
+  kind: DisplacementKind;
+  distance: number;              // px the push will carry the unit if nothing stops it
+  godPower: GodPowerType | null;
+}
+
+export interface AbilityTriggeredEvent {
+  fighter: Fighter;
+  ability: AbilityKind;
+}
+
+export interface GodPowerCastEvent {
+  card: GodCard;
+  team: Team;
+  x: number;
+  y: number;
+}
+
+export interface BattleEventMap {
+  damage: DamageEvent;
+  heal: HealEvent;
+  death: DeathEvent;
+  status_applied: StatusAppliedEvent;
+  shield_applied: ShieldAppliedEvent;
+  displaced: DisplacedEvent;
+  ability_triggered: AbilityTriggeredEvent;
+  god_power_cast: GodPowerCastEvent;
+}
+
+export type BattleEventType = keyof BattleEventMap;
+export type BattleEventListener<K extends BattleEventType> = (event: BattleEventMap[K]) => void;
+
+export class BattleEventBus {
+  private listeners: { [K in BattleEventType]?: BattleEventListener<K>[] } = {};
+
+  // Subscribe to one event type - returns a function that unsubscribes
+  on<K extends BattleEventType>(type: K, listener: BattleEventListener<K>): () => void {
+    const list: BattleEventListener<K>[] = this.listeners[type] ?? [];
+    list.push(listener);
+    (this.listeners as Record<K, BattleEventListener<K>[]>)[type] = list;
+    return () => this.off(type, listener);
+  }
+
+  off<K extends BattleEventType>(type: K, listener: BattleEventListener<K>): void {
+    const list = this.listeners[type];
+    if (!list) return;
+    const index = list.indexOf(listener);
+    if (index >= 0) list.splice(index, 1);
+  }
+
+  // Listeners run synchronously, in subscription order
+  emit<K extends BattleEventType>(type: K, event: BattleEventMap[K]): void {
+    const list = this.listeners[type];
+    if (!list) return;
+    for (const listener of list) {
+      listener(event);
+    }
+  }
+
+  clear(): void {
+    this.listeners = {};
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Battle Replay
+ *
+ * A battle is fully determined by its BattleConfig (seed included), where the
+ * player dragged their formations during positioning and which god powers were
+ * cast on which tick - so that is all a replay stores. ReplayRecorder collects
+ * it while BattleArena runs a battle; ReplayPlayer rebuilds the battle in its
+ * own BattleSimulator and re-steps it, re-casting god powers on their recorded
+ * ticks. Seeking backwards re-simulates from the start.
+ */
+
+import type { PlayerPosition } from './types';
+import type { GodCard } from './GodCardDeck';
+import { BattleSimulator, type BattleConfig } from './BattleSimulator';
+
+export const REPLAY_VERSION = 1;
+
+// One drag of one formation: the dx,dy steps exactly as they were applied, so positions match bit for bit
+export interface ReplayFormationDrag {
+  formation: number;
+  moves: number[]; // dx,dy pairs
+}
+
+export interface ReplayGodCast {
+  tick: number;                  // Simulation ticks completed before the cast
+  cardId: string;
+  x: number;
+  y: number;
+  teleportUnitId: number | null; // Index into BattleSimulator.getAllFighters()
+}
+
+export interface BattleReplay {
+  version: number;
+  recordedAt: string;            // ISO date
+  config: BattleConfig;
+  width: number;                 // Arena size the battle was simulated at - spawn points depend on it
+  height: number;
+  drags: ReplayFormationDrag[];
+  casts: ReplayGodCast[];
+  ticks: number;                 // Length of the battle
+  winner: PlayerPosition | 'tie';
+}
+
+export class ReplayRecorder {
+  private config: BattleConfig | null = null;
+  private width: number = 0;
+  private height: number = 0;
+  private drags: ReplayFormationDrag[] = [];
+  private casts: ReplayGodCast[] = [];
+  private currentDrag: ReplayFormationDrag | null = null;
+
+  // config must have its seed pinned
+  begin(config: BattleConfig, width: number, height: number): void {
+    this.config = config;
+    this.width = width;
+    this.height = height;
+    this.drags = [];
+    this.casts = [];
+    this.currentDrag = null;
+  }
+
+  beginDrag(formation: number): void {
+    this.currentDrag = { formation, moves: [] };
+  }
+
+  recordDragMove(dx: number, dy: number): void {
+    this.currentDrag?.moves.push(dx, dy);
+  }
+
+  endDrag(): void {
+    if (this.currentDrag && this.currentDrag.moves.length > 0) {
+      this.drags.push(this.currentDrag);
+    }
+    this.currentDrag = null;
+  }
+
+  recordCast(cast: ReplayGodCast): void {
+    this.casts.push(cast);
+  }
+
+  finish(ticks: number, winner: PlayerPosition | 'tie'): BattleReplay | null {
+    if (!this.config) return null;
+    return {
+      version: REPLAY_VERSION,
+      recordedAt: new Date().toISOString(),
+      config: this.config,
+      width: this.width,
+      height: this.height,
+      drags: this.drags,
+      casts: this.casts,
+      ticks,
+      winner
+    };
+  }
+}
+
+export class ReplayPlayer {
+  readonly simulator: BattleSimulator;
+  readonly replay: BattleReplay;
+  private nextCast: number = 0;
+  private onCast: ((card: GodCard, cast: ReplayGodCast) => void) | null;
+
+  constructor(replay: BattleReplay, onCast: ((card: GodCard, cast: ReplayGodCast) => void) | null = null) {
+    this.replay = replay;
+    this.simulator = new BattleSimulator(replay.width, replay.height);
+    this.onCast = onCast;
+    this.restart();
+  }
+
+  // Rebuild the battle exactly as it stood when the player pressed start
+  restart(): void {
+    this.simulator.setupBattle(this.replay.config);
+    for (const drag of this.replay.drags) {
+      for (let i = 0; i + 1 < drag.moves.length; i += 2) {
+        this.simulator.moveFormation(drag.formation, drag.moves[i], drag.moves[i + 1]);
+      }
+    }
+    this.simulator.start();
+    this.nextCast = 0;
+  }
+
+  // Advance one tick, re-casting any god powers recorded for it
+  step(): PlayerPosition | 'tie' | null {
+    const summary = this.simulator.getSummary();
+    if (summary) return summary.winner;
+
+    const tick = this.simulator.getTick();
+    const casts = this.replay.casts;
+    while (this.nextCast < casts.length && casts[this.nextCast].tick <= tick) {
+      this.applyCast(casts[this.nextCast++]);
+    }
+
+    return this.simulator.step(BattleSimulator.FIXED_TIMESTEP);
+  }
+
+  // Jump to a tick - backwards means re-simulating from the start
+  seek(tick: number): void {
+    const target = Math.max(0, Math.min(tick, this.replay.ticks));
+    if (target < this.simulator.getTick()) {
+      this.restart();
+    }
+    while (this.simulator.getTick() < target && !this.simulator.isFinished()) {
+      this.step();
+    }
+  }
+
+  getTick(): number {
+    return this.simulator.getTick();
+  }
+
+  getTotalTicks(): number {
+    return this.replay.ticks;
+  }
+
+  isFinished(): boolean {
+    return this.simulator.isFinished();
+  }
+
+  private applyCast(cast: ReplayGodCast): void {
+    const card = this.simulator.getPlayerGodCards().find(c => c.id === cast.cardId);
+    if (!card) return;
+    const teleportUnit = cast.teleportUnitId !== null
+      ? this.simulator.getAllFighters()[cast.teleportUnitId] ?? null
+      : null;
+    if (this.simulator.castGodPower(card, cast.x, cast.y, teleportUnit)) {
+      this.onCast?.(card, cast);
+    }
+  }
+}
+
+export function serializeReplay(replay: BattleReplay): string {
+  return JSON.stringify(replay);
+}
+
+// Parse a saved replay file - throws if it isn't one this version can play
+export function parseReplay(json: string): BattleReplay {
+  const data = JSON.parse(json) as Partial<BattleReplay> | null;
+  if (!data || typeof data !== 'object' || !data.config || !Array.isArray(data.casts) ||
+      !Array.isArray(data.drags) || typeof data.ticks !== 'number' ||
+      typeof data.width !== 'number' || typeof data.height !== 'number') {
+    throw new Error('Not a battle replay file');
+  }
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${data.version}`);
+  }
+  return data as BattleReplay;
+}
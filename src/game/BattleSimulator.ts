@@ -0,0 +1,1060 @@
+import type { Team, PlayerPosition } from './types';
+import type { Card } from './Card';
+import { TeamModifiers } from './Card';
+import type { UnitCard } from './UnitCardDeck';
+import type { GodCard } from './GodCardDeck';
+import { Fighter } from './Fighter';
+import { Knight } from './Knight';
+import { Swordsman } from './Swordsman';
+import { Archer } from './Archer';
+import { Mage } from './Mage';
+import { Healer } from './Healer';
+import { Cavalry } from './Cavalry';
+import { Assassin } from './Assassin';
+import { SoundManager } from './SoundManager';
+import { BattleContext } from './BattleContext';
+import type { DeathEvent, DamageEvent } from './BattleEvents';
+import { describeDefenseModifiers } from './Defense';
+import { SeededRandom } from './SeededRandom';
+import { BattleClock } from './BattleClock';
+import { SpatialHash } from './SpatialHash';
+import { HexGrid } from './HexGrid';
+import type { Obstacle } from './Obstacles';
+import type { TerrainTile } from './Terrain';
+import { SafeZone, type SafeZoneConfig } from './SafeZone';
+import { Arena, ARENAS, HAZARD_EFFECTS, HAZARD_TICK_INTERVAL, pickRandomArena, type ArenaId } from './Arenas';
+import { FIGHTER_STRIDE, type BattleSnapshot, type ProjectileSnapshot } from './BattleSnapshot';
+
+/**
+ * Battle Simulator
+ *
+ * Canvas-free combat core: team setup, the per-tick update, god power effects,
+ * win/timeout resolution and the battle summary. BattleArena wraps it with
+ * rendering and input; run() steps it headlessly with a fixed timestep (no
+ * canvas, no sound) so balance and rules can be tested under Node.
+ */
+
+// Seat at the poker table for each team colour - also picks which army each colour fields
+const TEAM_POSITIONS: Record<Team, PlayerPosition> = {
+  red: 'player',
+  blue: 'opponent',
+  green: 'topLeft',
+  purple: 'topRight',
+  orange: 'bottomLeft',
+  pink: 'bottomRight'
+};
+
+export interface BattleConfig {
+  playerUnits: UnitCard[];        // bottom team (player)
+  opponentUnits: UnitCard[];      // top team
+  leftUnits?: UnitCard[];         // topLeft team (optional)
+  topRightUnits?: UnitCard[];     // topRight team (optional)
+  bottomRightUnits?: UnitCard[];  // bottomRight team (optional)
+  bottomLeftUnits?: UnitCard[];   // bottomLeft team (optional)
+  modifiers: Card[];              // Shared modifiers (community cards) - apply to all
+  teamModifiers?: {               // Per-team modifiers (kept cards) - apply only to that team
+    player?: Card[];
+    opponent?: Card[];
+    topLeft?: Card[];
+    topRight?: Card[];
+    bottomLeft?: Card[];
+    bottomRight?: Card[];
+  };
+  playerGodCards: GodCard[];
+  opponentGodCards: GodCard[];
+  seed?: number;                  // Battle RNG seed - same seed + same inputs = same battle
+  arena?: ArenaId;                // Battlefield (an arena community card, else picked at random if omitted)
+  obstacles?: Obstacle[];         // Impassable cells on the battle grid (the arena's layout if omitted, [] for none)
+  terrain?: TerrainTile[];        // Forest/swamp/high ground/lava cells (the arena's layout if omitted, [] for none)
+  safeZone?: SafeZoneConfig;      // Shrinking safe zone (none if omitted - stalls then run into the timeout)
+}
+
+export interface TeamSummary {
+  team: Team;
+  totalKills: number;
+  killsByType: Map<string, number>;
+  unitsRemaining: number;
+  totalUnits: number;
+  eliminatedAt: number | null;    // Battle time (ms) the team's last unit fell - null if it survived
+  damageBlocked: number;          // Damage this team's armor/resistances absorbed
+  defenseBonuses: string[];       // Armor, resistance and penetration from cards, e.g. "+8% fire res"
+}
+
+export interface BattleSummary {
+  winner: PlayerPosition | 'tie';
+  teams: TeamSummary[];
+  placements: Team[];             // Every team that fielded units, 1st to last
+  battleDuration: number;
+  overtime: boolean;              // Went past regulation time into sudden death
+}
+
+export interface Formation {
+  units: Fighter[];
+  centerX: number;
+  centerY: number;
+}
+
+// Where a team stands when placements are decided
+interface TeamStanding {
+  team: Team;
+  eliminatedAt: number;  // ms of battle time, Infinity while the team is still standing
+  health: number;        // Share of max health left
+  kills: number;
+}
+
+export class BattleSimulator {
+  static readonly FIXED_TIMESTEP: number = 1000 / 60; // ms per tick
+
+  // Arena geometry (same layout as the 1200x800 canvas)
+  readonly width: number;
+  readonly height: number;
+  readonly arenaCenterX: number;
+  readonly arenaCenterY: number;
+  readonly hexRadius: number; // Arena scale - distance from center to the hexagon's edge midpoints
+  readonly hexGrid: HexGrid;  // Battle grid - holds this battle's obstacles and terrain
+  private arena: Arena;       // This battle's boundary, spawns and hazards
+  private safeZone: SafeZone | null = null;
+
+  // 6 teams positioned by the arena's spawn zones
+  private teams: Map<Team, Fighter[]> = new Map();
+  private teamKills: Map<Team, number> = new Map(); // Kill scores per team
+  private teamKillsByType: Map<Team, Map<string, number>> = new Map(); // Kills by unit type per team
+  private teamDamageBlocked: Map<Team, number> = new Map(); // Damage mitigated by armor/resistances per team
+  private lastAliveCount: Map<Team, number> = new Map(); // For tracking kills
+  private eliminationTimes: Map<Team, number> = new Map(); // Battle time each team was wiped out
+  private sharedModifiers: TeamModifiers;
+  private perTeamModifiers: Map<Team, TeamModifiers> = new Map();
+  private playerFormations: Formation[] = [];
+  private battleSummary: BattleSummary | null = null;
+  private battleStartTime: number = 0;
+  private tick: number = 0; // Fixed ticks stepped since setup - replays key god casts to it
+  private maxBattleDuration: number = 120000; // 120 seconds max for large armies
+  private lastAggroIncreaseTime: number = 0;
+  private lastHazardTick: number = 0;
+  private clock: BattleClock = new BattleClock(); // Advances only by update() deltaTime
+  private context: BattleContext = new BattleContext(this.clock); // Shared by every fighter and projectile in the battle
+  private spatialIndex: SpatialHash<Fighter> = new SpatialHash(); // Rebuilt every tick for proximity queries
+  private readonly AGGRO_INCREASE_INTERVAL: number = 10000; // 10 seconds
+  private readonly AGGRO_INCREASE_MULTIPLIER: number = 1.25; // 25% increase
+  private readonly OVERTIME_DURATION: number = 15000; // Sudden death is cut off after 15 seconds
+  private readonly OVERTIME_DAMAGE_RAMP: number = 0.5; // +50% damage for every second of sudden death
+
+  // God cards (Note: AI god card usage not yet implemented)
+  private playerGodCards: GodCard[] = [];
+  private godCardCooldowns: Map<string, number> = new Map();
+
+  // Worker mode: projectiles from the last applied snapshot
+  private mirroredProjectiles: ProjectileSnapshot[] = [];
+
+  constructor(width: number = 1200, height: number = 800) {
+    this.width = width;
+    this.height = height;
+    this.sharedModifiers = new TeamModifiers();
+
+    // Initialize teams map and kill tracking
+    const allTeams: Team[] = ['blue', 'purple', 'pink', 'red', 'orange', 'green'];
+    for (const team of allTeams) {
+      this.teams.set(team, []);
+      this.teamKills.set(team, 0);
+      this.teamKillsByType.set(team, new Map());
+      this.teamDamageBlocked.set(team, 0);
+      this.lastAliveCount.set(team, 0);
+    }
+
+    // Arena center
+    this.arenaCenterX = width / 2;
+    this.arenaCenterY = height / 2;
+
+    // Hexagon radius (distance from center to edge midpoints) - fits within canvas
+    this.hexRadius = Math.min(width, height) / 2 - 40;
+
+    // 16x12 grid of 20px hexes centred on the arena
+    const hexSize = 20;
+    const gridWidth = 16 * Math.sqrt(3) * hexSize;
+    const gridHeight = 12 * hexSize * 1.5;
+    const originX = this.arenaCenterX - gridWidth / 2 + hexSize * 0.866;
+    const originY = this.arenaCenterY - gridHeight / 2 + hexSize;
+    this.hexGrid = new HexGrid(16, 12, hexSize, originX, originY);
+    this.arena = new Arena(ARENAS.hexagon, this.arenaCenterX, this.arenaCenterY, this.hexRadius);
+  }
+
+  getArena(): Arena {
+    return this.arena;
+  }
+
+  getSafeZone(): SafeZone | null {
+    return this.safeZone;
+  }
+
+  // Get the spawn position for a team (inside the arena)
+  getTeamSpawnPosition(team: Team): { x: number; y: number; angle: number } {
+    return this.arena.getSpawn(team);
+  }
+
+  setupBattle(config: BattleConfig): void {
+    // Clear previous state
+    for (const team of this.teams.keys()) {
+      this.teams.set(team, []);
+      this.teamKills.set(team, 0);
+      this.teamKillsByType.set(team, new Map());
+      this.teamDamageBlocked.set(team, 0);
+      this.lastAliveCount.set(team, 0);
+    }
+    this.playerFormations = [];
+    this.battleSummary = null;
+    this.eliminationTimes.clear();
+    this.sharedModifiers = new TeamModifiers();
+    this.perTeamModifiers.clear();
+    this.godCardCooldowns.clear();
+    this.mirroredProjectiles = [];
+    this.clock.reset();
+    this.tick = 0;
+    this.context = new BattleContext(this.clock, new SeededRandom(config.seed));
+    this.context.spatialIndex = this.spatialIndex;
+    this.lastHazardTick = 0;
+    this.context.events.on('death', event => this.creditKill(event));
+    this.context.events.on('death', event => this.recordElimination(event));
+    this.context.events.on('damage', event => this.recordMitigation(event));
+
+    // Store god cards (AI god card usage not yet implemented)
+    this.playerGodCards = config.playerGodCards || [];
+
+    // Apply all community modifier cards to shared modifiers (apply to everyone)
+    for (const card of config.modifiers) {
+      this.sharedModifiers.applyCard(card);
+    }
+
+    // Pick the battlefield - an explicit choice, else an arena card, else the battle RNG
+    const arenaId = config.arena ?? this.sharedModifiers.arena ?? pickRandomArena(this.context.rng);
+    const arenaDef = ARENAS[arenaId];
+    this.arena = new Arena(arenaDef, this.arenaCenterX, this.arenaCenterY, this.hexRadius);
+    this.hexGrid.setObstacles(config.obstacles ?? arenaDef.obstacles);
+    this.hexGrid.setTerrain(config.terrain ?? arenaDef.terrain);
+    this.context.grid = this.hexGrid;
+    this.context.arena = this.arena;
+    this.context.displacement.setArena(this.arena);
+    this.safeZone = config.safeZone ? new SafeZone(config.safeZone, this.arena) : null;
+
+    // Apply per-team modifiers (only apply to that team's units)
+    if (config.teamModifiers) {
+      // NOTE: 'player' position maps to 'red' team (bottom, labeled "YOU")
+      const teamMapping = new Map<string, Team>(
+        (Object.entries(TEAM_POSITIONS) as [Team, PlayerPosition][]).map(([team, position]) => [position, team])
+      );
+
+      for (const [position, cards] of Object.entries(config.teamModifiers)) {
+        if (cards && cards.length > 0) {
+          const team = teamMapping.get(position);
+          if (team) {
+            const teamMods = new TeamModifiers();
+            for (const card of cards) {
+              teamMods.applyCard(card);
+            }
+            this.perTeamModifiers.set(team, teamMods);
+          }
+        }
+      }
+    }
+
+    // Units per card by type
+    const UNITS_PER_TYPE: Record<string, number> = {
+      swordsman: 10,
+      mage: 5,
+      knight: 10,
+      archer: 10,
+      healer: 5,
+      cavalry: 8,
+      assassin: 5
+    };
+    const UNIT_SPACING = 10; // Spacing for units in group
+    const FORMATION_WIDTH = 5; // Units per row
+
+    // Create group for a team at its arena spawn zone
+    const createHexFormation = (unitType: string, count: number, team: Team, formationIndex: number, totalFormations: number) => {
+      const fighters: Fighter[] = [];
+      const spawnPos = this.getTeamSpawnPosition(team);
+
+      // Direction vectors: forward points towards center, right is perpendicular
+      const forwardX = Math.cos(spawnPos.angle + Math.PI);
+      const forwardY = Math.sin(spawnPos.angle + Math.PI);
+      const rightX = -forwardY;
+      const rightY = forwardX;
+
+      // Offset along the edge for multiple formations
+      const formationSpread = 80;
+      const formationOffset = (formationIndex - (totalFormations - 1) / 2) * formationSpread;
+
+      const baseX = spawnPos.x + rightX * formationOffset;
+      const baseY = spawnPos.y + rightY * formationOffset;
+
+      // Calculate grid dimensions
+      const cols = Math.min(count, FORMATION_WIDTH);
+      const rows = Math.ceil(count / FORMATION_WIDTH);
+
+      for (let i = 0; i < count; i++) {
+        const row = Math.floor(i / FORMATION_WIDTH);
+        const col = i % FORMATION_WIDTH;
+
+        // Grid offsets centered on (0,0)
+        const gridX = (col - (cols - 1) / 2) * UNIT_SPACING;
+        const gridY = (row - (rows - 1) / 2) * UNIT_SPACING;
+
+        // Transform to world position
+        const x = baseX + rightX * gridX + forwardX * gridY;
+        const y = baseY + rightY * gridX + forwardY * gridY;
+
+        const fighter = this.createFighterByType(unitType, team, x, y);
+        fighter.arenaCenterX = this.arenaCenterX;
+        fighter.arenaCenterY = this.arenaCenterY;
+        fighter.context = this.context;
+        fighter.applyModifiers(this.getTeamModifiers(team));
+
+        // Set group offset for formation maintenance
+        fighter.groupOffsetX = gridX;
+        fighter.groupOffsetY = gridY;
+
+        fighters.push(fighter);
+      }
+
+      // Link all fighters in this group to each other
+      for (const fighter of fighters) {
+        fighter.groupMembers = fighters;
+      }
+
+      return { fighters, centerX: baseX, centerY: baseY };
+    };
+
+    // Helper to add units for a team
+    const addTeamUnits = (units: UnitCard[] | undefined, team: Team, isPlayer: boolean = false) => {
+      if (!units || units.length === 0) return;
+
+      const teamFighters = this.teams.get(team) || [];
+      for (let i = 0; i < units.length; i++) {
+        const unitCard = units[i];
+        const unitCount = UNITS_PER_TYPE[unitCard.type] || 20;
+        const { fighters, centerX, centerY } = createHexFormation(unitCard.type, unitCount, team, i, units.length);
+        teamFighters.push(...fighters);
+
+        // Track player formations for dragging
+        if (isPlayer) {
+          this.playerFormations.push({ units: fighters, centerX, centerY });
+        }
+      }
+      this.teams.set(team, teamFighters);
+    };
+
+    // Add all teams - each colour fields the army of the seat it reports as
+    const unitsBySeat: Record<PlayerPosition, UnitCard[] | undefined> = {
+      player: config.playerUnits,
+      opponent: config.opponentUnits,
+      topLeft: config.leftUnits,
+      topRight: config.topRightUnits,
+      bottomLeft: config.bottomLeftUnits,
+      bottomRight: config.bottomRightUnits
+    };
+    const allTeams: Team[] = ['blue', 'purple', 'pink', 'red', 'orange', 'green'];
+    for (const team of allTeams) {
+      addTeamUnits(unitsBySeat[TEAM_POSITIONS[team]], team, team === 'red');
+    }
+  }
+
+  private createFighterByType(unitType: string, team: Team, x: number, y: number): Fighter {
+    const canvasHeight = this.height;
+    let fighter: Fighter;
+
+    switch (unitType) {
+      case 'knight':
+        fighter = new Knight(team, x, canvasHeight);
+        break;
+      case 'swordsman':
+        fighter = new Swordsman(team, x, canvasHeight);
+        break;
+      case 'archer':
+        fighter = new Archer(team, x, canvasHeight);
+        break;
+      case 'mage':
+        fighter = new Mage(team, x, canvasHeight);
+        break;
+      case 'healer':
+        fighter = new Healer(team, x, canvasHeight);
+        break;
+      case 'cavalry':
+        fighter = new Cavalry(team, x, canvasHeight);
+        break;
+      case 'assassin':
+        fighter = new Assassin(team, x, canvasHeight);
+        break;
+      default:
+        fighter = new Swordsman(team, x, canvasHeight);
+    }
+
+    fighter.x = x;
+    fighter.y = y;
+
+    return fighter;
+  }
+
+  // Begin combat (after positioning)
+  start(): void {
+    // Initialize alive counts for kill tracking
+    for (const [team, fighters] of this.teams) {
+      this.lastAliveCount.set(team, fighters.filter(f => !f.isDead).length);
+    }
+
+    this.battleSummary = null;
+    this.battleStartTime = this.clock.now();
+    this.lastAggroIncreaseTime = this.clock.now();
+    this.context.resetAggroRange(); // Reset aggro range at battle start
+  }
+
+  // Advance the battle by deltaTime ms. Returns the winner once the battle is over.
+  step(deltaTime: number): PlayerPosition | 'tie' | null {
+    if (this.battleSummary) return this.battleSummary.winner;
+
+    this.update(deltaTime);
+    this.tick++;
+
+    // Check win condition
+    const winner = this.checkWinCondition();
+    if (winner !== null) {
+      this.end(winner);
+      return winner;
+    }
+
+    // Sudden death ran out - rank whoever is left by health
+    if (this.getElapsedTime() > this.maxBattleDuration + this.OVERTIME_DURATION) {
+      const overtimeWinner = this.resolveOvertime();
+      this.end(overtimeWinner);
+      return overtimeWinner;
+    }
+
+    return null;
+  }
+
+  // Run a whole battle headlessly with a fixed timestep (no rendering, no sound)
+  run(config: BattleConfig, timestep: number = BattleSimulator.FIXED_TIMESTEP): BattleSummary {
+    const soundWasEnabled = SoundManager.isEnabled();
+    SoundManager.setEnabled(false);
+    try {
+      this.setupBattle(config);
+      this.start();
+      while (this.step(timestep) === null) {
+        // Keep stepping - the battle timeout guarantees this ends
+      }
+    } finally {
+      SoundManager.setEnabled(soundWasEnabled);
+    }
+    return this.battleSummary!;
+  }
+
+  private update(deltaTime: number): void {
+    this.clock.advance(deltaTime);
+
+    // Past regulation time: sudden death - no healing, damage ramps up every second
+    const overtime = this.getOvertimeElapsed();
+    if (overtime > 0) {
+      this.context.healingDisabled = true;
+      this.context.damageMultiplier = 1 + this.OVERTIME_DAMAGE_RAMP * Math.ceil(overtime / 1000);
+    }
+
+    // Increase aggro range every 10 seconds
+    const now = this.clock.now();
+    if (now - this.lastAggroIncreaseTime >= this.AGGRO_INCREASE_INTERVAL) {
+      this.context.increaseAggroRange(this.AGGRO_INCREASE_MULTIPLIER);
+      this.lastAggroIncreaseTime = now;
+    }
+
+    // In a 6-way battle, everyone fights everyone else
+    const allTeams: Team[] = ['blue', 'purple', 'pink', 'red', 'orange', 'green'];
+
+    // Track alive counts before update
+    const aliveBeforeUpdate = new Map<Team, Set<Fighter>>();
+    for (const team of allTeams) {
+      const fighters = this.teams.get(team) || [];
+      aliveBeforeUpdate.set(team, new Set(fighters.filter(f => !f.isDead)));
+    }
+
+    // Collect all fighters and build enemy lists per team
+    const allFighters: Fighter[] = [];
+    const enemiesByTeam = new Map<Team, Fighter[]>();
+    for (const team of allTeams) {
+      const fighters = this.teams.get(team) || [];
+      allFighters.push(...fighters);
+
+      // Build enemy list for this team (everyone not on this team)
+      const enemies: Fighter[] = [];
+      for (const otherTeam of allTeams) {
+        if (otherTeam !== team) {
+          enemies.push(...(this.teams.get(otherTeam) || []));
+        }
+      }
+      enemiesByTeam.set(team, enemies);
+    }
+
+    // Index living fighters once per tick - all proximity queries go through it
+    this.rebuildSpatialIndex();
+
+    // Apply the terrain each fighter stands on (before slots, which size rings by attack range)
+    for (const fighter of allFighters) {
+      if (!fighter.isDead) {
+        fighter.updateTerrain(this.hexGrid.getTerrainAt(fighter.x, fighter.y));
+      }
+    }
+
+    // STEP 1: Update targets for ALL fighters FIRST (before slot assignment)
+    // This ensures slot grouping uses fresh target info
+    for (const fighter of allFighters) {
+      if (!fighter.isDead) {
+        const enemies = enemiesByTeam.get(fighter.team) || [];
+        fighter.findTarget(enemies);
+      }
+    }
+
+    // STEP 2: Group attackers by their FRESH targets
+    const attackersByTarget = new Map<Fighter, Fighter[]>();
+    for (const fighter of allFighters) {
+      if (fighter.isDead || !fighter.target || fighter.target.isDead) continue;
+      const group = attackersByTarget.get(fighter.target) || [];
+      group.push(fighter);
+      attackersByTarget.set(fighter.target, group);
+    }
+
+    // STEP 3: Assign slots greedily for each target (closest units pick first)
+    for (const [target, attackers] of attackersByTarget) {
+      this.context.slots.assignSlotsGreedy(attackers, target, allFighters);
+    }
+
+    // Projectiles fly and hit on their own - even if whoever fired them has died
+    this.context.projectiles.update({
+      enemiesOf: team => enemiesByTeam.get(team) || [],
+      alliesOf: team => this.teams.get(team) || [],
+      isBlocked: (x, y) => this.hexGrid.isBlockedAt(x, y)
+    });
+
+    // STEP 4: Update all fighters (skip target finding since we already did it)
+    for (const team of allTeams) {
+      const fighters = this.teams.get(team) || [];
+      if (fighters.length === 0) continue;
+
+      const enemies = enemiesByTeam.get(team) || [];
+
+      for (const fighter of fighters) {
+        if (!fighter.isDead) {
+          fighter.update(enemies, deltaTime, fighters, true); // skipTargetFind = true
+        }
+      }
+    }
+
+    // Hazards and the closing safe zone hurt whoever is caught in them
+    this.applyHazards();
+
+    // Clean up attack slots for units that died this frame (kill credit comes from death events)
+    for (const team of allTeams) {
+      const aliveBefore = aliveBeforeUpdate.get(team) || new Set();
+      for (const fighter of aliveBefore) {
+        if (fighter.isDead) {
+          this.context.slots.cleanupDeadTarget(fighter);
+        }
+      }
+    }
+
+    // Knockback, pulls and dashes slide units and bump them into walls and each other
+    this.context.displacement.update(deltaTime, this.spatialIndex);
+
+    // Update damage numbers
+    this.context.damageNumbers.update(deltaTime);
+
+    // Keep fighters in arena bounds
+    this.constrainToArena();
+  }
+
+  private rebuildSpatialIndex(): void {
+    this.spatialIndex.clear();
+    for (const [, fighters] of this.teams) {
+      for (const fighter of fighters) {
+        if (!fighter.isDead) {
+          this.spatialIndex.insert(fighter);
+        }
+      }
+    }
+  }
+
+  private constrainToArena(): void {
+    // Keep fighters strictly inside the arena boundary
+    for (const [, fighters] of this.teams) {
+      for (const fighter of fighters) {
+        if (this.arena.contains(fighter.x, fighter.y)) continue;
+        // Hard clamp to edge - no exceptions
+        const edge = this.arena.clampInside(fighter.x, fighter.y);
+        fighter.x = edge.x;
+        fighter.y = edge.y;
+      }
+    }
+  }
+
+  // Units standing in a chasm or the abyss, or outside the safe zone, lose a share of their max health every hazard tick
+  private applyHazards(): void {
+    const now = this.clock.now();
+    if (now - this.lastHazardTick < HAZARD_TICK_INTERVAL) return;
+    this.lastHazardTick = now;
+
+    const elapsed = this.getElapsedTime();
+    const zone = this.safeZone;
+    const zoneDamagePerTick = zone ? zone.getDamagePerSecond(elapsed) * HAZARD_TICK_INTERVAL / 1000 : 0;
+
+    for (const [, fighters] of this.teams) {
+      for (const fighter of fighters) {
+        if (fighter.isDead) continue;
+        const hazard = this.arena.hazardAt(fighter.x, fighter.y);
+        if (hazard) {
+          const damagePerTick = HAZARD_EFFECTS[hazard].damagePerSecond * HAZARD_TICK_INTERVAL / 1000;
+          fighter.takeHazardDamage(fighter.maxHealth * damagePerTick);
+        }
+        if (zone && zoneDamagePerTick > 0 && !fighter.isDead && !zone.contains(fighter.x, fighter.y, elapsed)) {
+          fighter.takeHazardDamage(fighter.maxHealth * zoneDamagePerTick, 'zone');
+        }
+      }
+    }
+  }
+
+  private checkWinCondition(): PlayerPosition | 'tie' | null {
+    // Count alive fighters per team
+    const teamsWithAlive: Team[] = [];
+    for (const [team, fighters] of this.teams) {
+      const alive = fighters.filter(f => !f.isDead).length;
+      if (alive > 0) {
+        teamsWithAlive.push(team);
+      }
+    }
+
+    // If only one team remains, its seat wins (all dead = tie)
+    if (teamsWithAlive.length <= 1) {
+      return teamsWithAlive.length === 1 ? TEAM_POSITIONS[teamsWithAlive[0]] : 'tie';
+    }
+
+    return null; // Battle continues (2+ teams still fighting)
+  }
+
+  // Top two dead even (same health left, same kills) is a tie rather than whichever team sorts first
+  private resolveOvertime(): PlayerPosition | 'tie' {
+    const [best, runnerUp] = this.getStandings();
+    if (!best || (runnerUp && this.compareStandings(best, runnerUp) === 0)) return 'tie';
+    return TEAM_POSITIONS[best.team];
+  }
+
+  // Full 1st-to-last order: teams still standing by health left, then eliminated teams
+  // from last wiped out to first (kills break ties between teams wiped out on the same tick)
+  private rankTeams(): Team[] {
+    return this.getStandings().map(s => s.team);
+  }
+
+  private getStandings(): TeamStanding[] {
+    const allTeams: Team[] = ['blue', 'purple', 'pink', 'red', 'orange', 'green'];
+    const standings = allTeams
+      .filter(team => (this.teams.get(team) || []).length > 0)
+      .map(team => {
+        const fighters = this.teams.get(team) || [];
+        return {
+          team,
+          eliminatedAt: this.eliminationTimes.get(team) ?? Infinity,
+          health: this.calculateTeamHealthPercent(fighters),
+          kills: this.teamKills.get(team) || 0
+        };
+      });
+
+    return standings.sort((a, b) => this.compareStandings(a, b));
+  }
+
+  private compareStandings(a: TeamStanding, b: TeamStanding): number {
+    if (a.eliminatedAt !== b.eliminatedAt) return b.eliminatedAt - a.eliminatedAt;
+    if (b.health !== a.health) return b.health - a.health;
+    return b.kills - a.kills;
+  }
+
+  private calculateTeamHealthPercent(team: Fighter[]): number {
+    let totalCurrent = 0;
+    let totalMax = 0;
+
+    for (const fighter of team) {
+      totalCurrent += Math.max(0, fighter.health);
+      totalMax += fighter.maxHealth;
+    }
+
+    return totalMax > 0 ? totalCurrent / totalMax : 0;
+  }
+
+  private end(winner: PlayerPosition | 'tie'): void {
+    // Create battle summary
+    const allTeams: Team[] = ['blue', 'purple', 'pink', 'red', 'orange', 'green'];
+    const teamSummaries: TeamSummary[] = [];
+
+    for (const team of allTeams) {
+      const fighters = this.teams.get(team) || [];
+      if (fighters.length === 0) continue;
+
+      teamSummaries.push({
+        team,
+        totalKills: this.teamKills.get(team) || 0,
+        killsByType: this.teamKillsByType.get(team) || new Map(),
+        unitsRemaining: fighters.filter(f => !f.isDead).length,
+        totalUnits: fighters.length,
+        eliminatedAt: this.eliminationTimes.get(team) ?? null,
+        damageBlocked: this.teamDamageBlocked.get(team) || 0,
+        defenseBonuses: describeDefenseModifiers(this.getTeamModifiers(team))
+      });
+    }
+
+    // Scoreboard order follows the final placements
+    const placements = this.rankTeams();
+    teamSummaries.sort((a, b) => placements.indexOf(a.team) - placements.indexOf(b.team));
+
+    this.battleSummary = {
+      winner,
+      teams: teamSummaries,
+      placements,
+      battleDuration: this.getElapsedTime(),
+      overtime: this.getOvertimeElapsed() > 0
+    };
+  }
+
+  getSummary(): BattleSummary | null {
+    return this.battleSummary;
+  }
+
+  isFinished(): boolean {
+    return this.battleSummary !== null;
+  }
+
+  // Get battle rankings as player positions (1st place = winner, 6th = worst)
+  getBattleRankings(): PlayerPosition[] {
+    if (!this.battleSummary) return [];
+
+    return this.battleSummary.placements.map(team => TEAM_POSITIONS[team]);
+  }
+
+  // Simulation time (ms) - the battle clock, not wall-clock
+  now(): number {
+    return this.clock.now();
+  }
+
+  getTick(): number {
+    return this.tick;
+  }
+
+  getElapsedTime(): number {
+    return this.clock.now() - this.battleStartTime;
+  }
+
+  // Time spent in sudden-death overtime (0 during regulation)
+  getOvertimeElapsed(): number {
+    return Math.max(0, this.getElapsedTime() - this.maxBattleDuration);
+  }
+
+  getOvertimeDuration(): number {
+    return this.OVERTIME_DURATION;
+  }
+
+  getMaxBattleDuration(): number {
+    return this.maxBattleDuration;
+  }
+
+  getTeams(): Map<Team, Fighter[]> {
+    return this.teams;
+  }
+
+  getTeam(team: Team): Fighter[] {
+    return this.teams.get(team) || [];
+  }
+
+  getTeamKills(team: Team): number {
+    return this.teamKills.get(team) || 0;
+  }
+
+  getPlayerFormations(): Formation[] {
+    return this.playerFormations;
+  }
+
+  // Shift a player formation during positioning (formation dragging and replays)
+  moveFormation(index: number, dx: number, dy: number): void {
+    const formation = this.playerFormations[index];
+    if (!formation) return;
+
+    for (const unit of formation.units) {
+      unit.x += dx;
+      unit.y += dy;
+    }
+
+    formation.centerX += dx;
+    formation.centerY += dy;
+  }
+
+  // Combine shared modifiers (community cards) with team-specific modifiers (kept cards)
+  private getTeamModifiers(team: Team): TeamModifiers {
+    const teamMods = this.perTeamModifiers.get(team);
+    return teamMods ? this.sharedModifiers.combine(teamMods) : this.sharedModifiers;
+  }
+
+  getModifiers(): TeamModifiers {
+    return this.sharedModifiers;
+  }
+
+  getContext(): BattleContext {
+    return this.context;
+  }
+
+  getPlayerGodCards(): GodCard[] {
+    return this.playerGodCards;
+  }
+
+  // All fighters in team order - the index is a fighter's id in snapshots and worker messages
+  getAllFighters(): Fighter[] {
+    const all: Fighter[] = [];
+    for (const [, fighters] of this.teams) {
+      all.push(...fighters);
+    }
+    return all;
+  }
+
+  // x,y per fighter - carries formation dragging over to a worker-run battle
+  getFighterPositions(): Float64Array {
+    const fighters = this.getAllFighters();
+    const positions = new Float64Array(fighters.length * 2);
+    for (let i = 0; i < fighters.length; i++) {
+      positions[i * 2] = fighters[i].x;
+      positions[i * 2 + 1] = fighters[i].y;
+    }
+    return positions;
+  }
+
+  setFighterPositions(positions: Float64Array): void {
+    const fighters = this.getAllFighters();
+    for (let i = 0; i < fighters.length && i * 2 + 1 < positions.length; i++) {
+      fighters[i].x = positions[i * 2];
+      fighters[i].y = positions[i * 2 + 1];
+    }
+  }
+
+  getSnapshot(): BattleSnapshot {
+    const fighters = this.getAllFighters();
+    const data = new Float32Array(fighters.length * FIGHTER_STRIDE);
+    for (let i = 0; i < fighters.length; i++) {
+      fighters[i].writeSnapshot(data, i * FIGHTER_STRIDE);
+    }
+
+    return {
+      time: this.clock.now(),
+      tick: this.tick,
+      battleStartTime: this.battleStartTime,
+      fighters: data,
+      projectiles: this.context.projectiles.getSnapshots(),
+      damageNumbers: this.context.damageNumbers.getSnapshot(),
+      combatLog: this.context.combatLog.getSnapshot(),
+      teamKills: [...this.teamKills],
+      godCardCooldowns: [...this.godCardCooldowns],
+      summary: this.battleSummary
+    };
+  }
+
+  // Make this simulator a display mirror of a battle running in the BattleWorker.
+  // Mirrors are never stepped - everything they draw comes from the snapshot.
+  applySnapshot(snapshot: BattleSnapshot): void {
+    const fighters = this.getAllFighters();
+    for (let i = 0; i < fighters.length; i++) {
+      fighters[i].applySnapshot(snapshot.fighters, i * FIGHTER_STRIDE);
+    }
+
+    this.clock.reset();
+    this.clock.advance(snapshot.time);
+    this.tick = snapshot.tick;
+    this.battleStartTime = snapshot.battleStartTime;
+    this.teamKills = new Map(snapshot.teamKills);
+    this.godCardCooldowns = new Map(snapshot.godCardCooldowns);
+    this.mirroredProjectiles = snapshot.projectiles;
+    this.context.damageNumbers.loadSnapshot(snapshot.damageNumbers);
+    this.context.combatLog.loadSnapshot(snapshot.combatLog);
+    this.battleSummary = snapshot.summary;
+  }
+
+  // Projectiles from the last applied snapshot (mirror fighters don't own any)
+  getMirroredProjectiles(): ProjectileSnapshot[] {
+    return this.mirroredProjectiles;
+  }
+
+  reset(): void {
+    for (const team of this.teams.keys()) {
+      this.teams.set(team, []);
+    }
+    this.sharedModifiers = new TeamModifiers();
+    this.context = new BattleContext(this.clock);
+  }
+
+  isOnCooldown(cardId: string): boolean {
+    const cooldownEnd = this.godCardCooldowns.get(cardId);
+    return cooldownEnd ? this.clock.now() < cooldownEnd : false;
+  }
+
+  getCooldownRemaining(cardId: string): number {
+    const cooldownEnd = this.godCardCooldowns.get(cardId);
+    if (!cooldownEnd) return 0;
+    return Math.max(0, cooldownEnd - this.clock.now());
+  }
+
+  // Apply a god power's gameplay effect. teleportUnit is the unit moved by Divine Teleport.
+  castGodPower(card: GodCard, x: number, y: number, teleportUnit: Fighter | null = null): boolean {
+    if (this.isOnCooldown(card.id)) return false;
+
+    // Set cooldown
+    this.godCardCooldowns.set(card.id, this.clock.now() + card.cooldown);
+
+    // Casts land between ticks - refresh the index so area queries see current positions
+    this.rebuildSpatialIndex();
+
+    // Execute the power
+    switch (card.type) {
+      case 'meteor_strike':
+        this.executeMeteorStrike(x, y, card.radius || 60);
+        break;
+      case 'divine_teleport':
+        this.executeTeleport(teleportUnit, x, y);
+        break;
+      case 'healing_rain':
+        this.executeHealingRain(x, y, card.radius || 80);
+        break;
+      case 'lightning_bolt':
+        this.executeLightningBolt(x, y, card.radius || 80);
+        break;
+      case 'time_freeze':
+        this.executeTimeFreeze(x, y, card.radius || 70);
+        break;
+      case 'shield_wall':
+        this.executeShieldWall();
+        break;
+      case 'earthquake':
+        this.executeEarthquake(x, y, card.radius || 90);
+        break;
+      case 'holy_smite':
+        this.executeHolySmite(x, y, card.radius || 40);
+        break;
+    }
+
+    this.context.events.emit('god_power_cast', { card, team: 'red', x, y });
+
+    return true;
+  }
+
+  private recordMitigation(event: DamageEvent): void {
+    if (event.mitigated <= 0) return;
+    const team = event.target.team;
+    this.teamDamageBlocked.set(team, (this.teamDamageBlocked.get(team) || 0) + event.mitigated);
+  }
+
+  private creditKill(event: DeathEvent): void {
+    if (!event.killerTeam) return;
+    this.teamKills.set(event.killerTeam, (this.teamKills.get(event.killerTeam) || 0) + 1);
+
+    // Track kill by unit type (what type of unit made the kill)
+    const killsByType = this.teamKillsByType.get(event.killerTeam) || new Map();
+    const killerType = event.killerType || 'unknown';
+    killsByType.set(killerType, (killsByType.get(killerType) || 0) + 1);
+    this.teamKillsByType.set(event.killerTeam, killsByType);
+  }
+
+  // Note when a team's last unit falls - placements come from elimination order
+  private recordElimination(event: DeathEvent): void {
+    const team = event.fighter.team;
+    if (this.eliminationTimes.has(team)) return;
+    const fighters = this.teams.get(team) || [];
+    if (fighters.some(f => !f.isDead)) return;
+    this.eliminationTimes.set(team, this.getElapsedTime());
+  }
+
+  private executeMeteorStrike(x: number, y: number, radius: number): void {
+    // Damage all enemies (everyone except player's team)
+    for (const fighter of this.spatialIndex.queryRadius(x, y, radius)) {
+      if (fighter.isDead || fighter.team === 'red') continue; // Skip player's team
+      const dx = fighter.x - x;
+      const dy = fighter.y - y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      const damage = 40 - (dist / radius) * 20; // 40 at center, 20 at edge
+      fighter.takeDamage(damage, undefined, false, 'physical', 'meteor_strike');
+    }
+  }
+
+  private executeTeleport(unit: Fighter | null, x: number, y: number): void {
+    if (unit) {
+      unit.x = x;
+      unit.y = y;
+    }
+  }
+
+  private executeHealingRain(x: number, y: number, radius: number): void {
+    for (const fighter of this.spatialIndex.queryRadius(x, y, radius)) {
+      if (fighter.isDead || fighter.team !== 'red') continue;
+      const heal = 25;
+      fighter.heal(heal, null, 'god_power', 'healing_rain');
+    }
+  }
+
+  private executeLightningBolt(x: number, y: number, radius: number): void {
+    // Damage all enemies
+    for (const fighter of this.spatialIndex.queryRadius(x, y, radius)) {
+      if (fighter.isDead || fighter.team === 'red') continue;
+      const damage = 35;
+      fighter.takeDamage(damage, undefined, false, 'physical', 'lightning_bolt');
+    }
+  }
+
+  private executeTimeFreeze(x: number, y: number, radius: number): void {
+    const freezeDuration = 3000;
+    // Freeze all enemies
+    for (const fighter of this.spatialIndex.queryRadius(x, y, radius)) {
+      if (fighter.isDead || fighter.team === 'red') continue;
+      fighter.applyStatus('frozen', freezeDuration);
+    }
+  }
+
+  private executeShieldWall(): void {
+    const shieldAmount = 30;
+    const shieldDuration = 8000;
+    const playerTeam = this.teams.get('red') || [];
+    for (const fighter of playerTeam) {
+      if (fighter.isDead) continue;
+      fighter.addShield(shieldAmount, shieldDuration, 'god_power', null, 'shield_wall');
+    }
+  }
+
+  private executeEarthquake(x: number, y: number, radius: number): void {
+    // Damage and knockback all enemies
+    for (const fighter of this.spatialIndex.queryRadius(x, y, radius)) {
+      if (fighter.isDead || fighter.team === 'red') continue;
+      const dx = fighter.x - x;
+      const dy = fighter.y - y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+
+      // Damage
+      const damage = 25;
+      fighter.takeDamage(damage, undefined, false, 'physical', 'earthquake');
+
+      // Knockback - units thrown into the arena wall take extra damage
+      if (dist > 0) {
+        const knockback = 50;
+        this.context.displacement.knockback(fighter, x, y, knockback, { godPower: 'earthquake', wallDamage: 15 });
+      }
+    }
+  }
+
+  private executeHolySmite(x: number, y: number, radius: number): void {
+    for (const fighter of this.spatialIndex.queryRadius(x, y, radius)) {
+      if (fighter.isDead) continue;
+      if (fighter.team === 'red') {
+        // Heal allies
+        const heal = 20;
+        fighter.heal(heal, null, 'god_power', 'holy_smite');
+      } else {
+        // Damage enemies
+        const damage = 30;
+        fighter.takeDamage(damage, undefined, false, 'physical', 'holy_smite');
+      }
+    }
+  }
+}
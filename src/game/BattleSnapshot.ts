@@ -0,0 +1,70 @@
+/**
+ * Battle Snapshot
+ *
+ * Compact per-tick picture of a battle, posted from the BattleWorker to the
+ * main thread so rendering never waits on combat logic. Fighters are packed
+ * into a transferable Float32Array in BattleSimulator team order (the same
+ * order on both sides because both build teams from the same BattleConfig);
+ * projectiles, damage numbers and scores travel as small plain objects.
+ */
+
+import type { Team } from './types';
+import type { BattleConfig, BattleSummary } from './BattleSimulator';
+import type { ProjectileKind } from './ProjectileManager';
+import type { ReplayGodCast } from './BattleReplay';
+import type { CombatLogEntry } from './CombatLog';
+import { STATUS_EFFECTS } from './StatusEffects';
+
+// Per fighter: x, y, health, flags, animation frame, shield, then one value per STATUS_EFFECTS entry
+export const FIGHTER_STATUS_OFFSET = 6;
+export const FIGHTER_STRIDE = FIGHTER_STATUS_OFFSET + STATUS_EFFECTS.length;
+
+// Bit flags packed into each fighter's flags slot
+export const FighterFlag = {
+  dead: 1,
+  flashing: 2,
+  tauntShield: 4,
+  stealthed: 8
+} as const;
+
+export interface ProjectileSnapshot {
+  kind: ProjectileKind;
+  x: number;
+  y: number;
+  angle: number;
+  impactFrame: number; // -1 while in flight
+  impactRadius: number;
+}
+
+export interface DamageNumberSnapshot {
+  x: number;
+  y: number;
+  value: number;
+  age: number;
+  color: string;
+}
+
+export interface BattleSnapshot {
+  time: number;                    // Battle clock (ms)
+  tick: number;
+  battleStartTime: number;
+  fighters: Float32Array;          // FIGHTER_STRIDE values per fighter
+  projectiles: ProjectileSnapshot[];
+  damageNumbers: DamageNumberSnapshot[];
+  combatLog: CombatLogEntry[];     // Entries logged since the previous snapshot
+  teamKills: [Team, number][];
+  godCardCooldowns: [string, number][]; // Card id -> cooldown end (battle clock)
+  summary: BattleSummary | null;   // Set once the battle has ended
+}
+
+// Main thread -> worker
+export type BattleWorkerRequest =
+  | { type: 'start'; config: BattleConfig; width: number; height: number; positions: Float64Array } // positions: x,y per fighter
+  | { type: 'cast'; cardId: string; x: number; y: number; teleportUnitId: number | null }
+  | { type: 'speed'; speed: number } // Simulation speed multiplier - 0 pauses
+  | { type: 'stop' };
+
+// Worker -> main thread
+export type BattleWorkerResponse =
+  | { type: 'snapshot'; snapshot: BattleSnapshot }
+  | { type: 'cast'; cast: ReplayGodCast }; // A cast landed - recorded for the replay
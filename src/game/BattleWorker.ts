@@ -0,0 +1,109 @@
+/**
+ * Battle Worker
+ *
+ * Runs a BattleSimulator off the main thread so big late-game battles can't
+ * freeze the UI. The main thread sends the battle config plus the positions
+ * left by formation dragging, then god-power casts and speed changes while the
+ * battle runs; the worker steps the simulation on the same fixed timestep as
+ * BattleArena and posts a BattleSnapshot after every tick. Sound stays off in
+ * here (there is no AudioContext in a worker).
+ */
+
+import { BattleSimulator } from './BattleSimulator';
+import { SoundManager } from './SoundManager';
+import type { BattleWorkerRequest, BattleWorkerResponse } from './BattleSnapshot';
+
+const MAX_FRAME_TIME = 250; // ms - drop time beyond this instead of spiralling
+
+let simulator: BattleSimulator | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let lastTime = 0;
+let accumulator = 0;
+let speed = 1; // 0 while paused
+
+SoundManager.setEnabled(false);
+
+function post(message: BattleWorkerResponse): void {
+  // The packed fighter array is transferred rather than copied
+  self.postMessage(message, message.type === 'snapshot' ? { transfer: [message.snapshot.fighters.buffer] } : {});
+}
+
+function stop(): void {
+  if (timer !== null) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  simulator = null;
+}
+
+function loop(): void {
+  if (!simulator) return;
+
+  const now = performance.now();
+  accumulator += Math.min(now - lastTime, MAX_FRAME_TIME) * speed;
+  lastTime = now;
+
+  const timestep = BattleSimulator.FIXED_TIMESTEP;
+  let winner = null;
+  while (accumulator >= timestep && winner === null) {
+    winner = simulator.step(timestep);
+    accumulator -= timestep;
+    post({ type: 'snapshot', snapshot: simulator.getSnapshot() });
+  }
+
+  if (winner !== null) {
+    stop();
+    return;
+  }
+
+  timer = setTimeout(loop, timestep);
+}
+
+self.onmessage = (event: MessageEvent<BattleWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'start':
+      stop();
+      simulator = new BattleSimulator(message.width, message.height);
+      simulator.setupBattle(message.config);
+      simulator.setFighterPositions(message.positions);
+      simulator.start();
+      lastTime = performance.now();
+      accumulator = 0;
+      post({ type: 'snapshot', snapshot: simulator.getSnapshot() });
+      timer = setTimeout(loop, BattleSimulator.FIXED_TIMESTEP);
+      break;
+
+    case 'cast': {
+      if (!simulator) return;
+      const card = simulator.getPlayerGodCards().find(c => c.id === message.cardId);
+      if (!card) return;
+      const teleportUnit = message.teleportUnitId !== null
+        ? simulator.getAllFighters()[message.teleportUnitId] ?? null
+        : null;
+      if (!simulator.castGodPower(card, message.x, message.y, teleportUnit)) return;
+      post({
+        type: 'cast',
+        cast: {
+          tick: simulator.getTick(),
+          cardId: card.id,
+          x: message.x,
+          y: message.y,
+          teleportUnitId: message.teleportUnitId
+        }
+      });
+      // Show the result right away - no tick may follow for a while if paused
+      post({ type: 'snapshot', snapshot: simulator.getSnapshot() });
+      break;
+    }
+
+    case 'speed':
+      speed = message.speed;
+      break;
+
+    case 'stop':
+      stop();
+      break;
+  }
+};
@@ -1,8 +1,10 @@
 import { Fighter } from './Fighter';
 import { SpriteRenderer } from './SpriteRenderer';
-import { SoundManager } from './SoundManager';
-import { DamageNumberManager } from './DamageNumber';
 import type { Team, FighterType } from './types';
+import type { DamageType } from './DPSTracker';
+import { NO_DEFENSE, type DefenseProfile } from './Defense';
+import type { GodPowerType } from './GodCardDeck';
+import type { StatusKind } from './StatusEffects';
 
 export class Boss extends Fighter {
   private attackAnimation: number = 0;
@@ -44,10 +46,9 @@ export class Boss extends Fighter {
     if (this.isDead) return;
 
     // Process status effects
-    this.processStatusEffectsPublic(deltaTime);
+    this.processStatusEffects(deltaTime);
 
-    // Check if frozen
-    if (Date.now() < this.statusEffects.frozenUntil) {
+    if (this.isFrozen()) {
       return;
     }
 
@@ -99,43 +100,14 @@ export class Boss extends Fighter {
     }
   }
 
-  private processStatusEffectsPublic(_deltaTime: number): void {
-    // Boss takes reduced status effect damage
-    const now = Date.now();
-    const lastTick = (this as any).lastStatusTick || 0;
-    if (now - lastTick < 1000) return;
-    (this as any).lastStatusTick = now;
-
-    if (this.statusEffects.burning > 0) {
-      const burnDamage = Math.floor(this.statusEffects.burning * 0.5); // 50% reduced
-      this.health -= burnDamage;
-      DamageNumberManager.spawn(this.x, this.y - 20, burnDamage, '#ff6600');
-      this.statusEffects.burning = Math.max(0, this.statusEffects.burning - 1);
-    }
-
-    if (this.statusEffects.poison > 0) {
-      const poisonDamage = Math.floor(this.statusEffects.poison * 0.5);
-      this.health -= poisonDamage;
-      DamageNumberManager.spawn(this.x, this.y - 20, poisonDamage, '#22c55e');
-      this.statusEffects.poison = Math.max(0, this.statusEffects.poison - 0.5);
-    }
-
-    if (this.statusEffects.void > 0) {
-      const voidDamage = Math.floor(this.statusEffects.void * 0.5);
-      this.health -= voidDamage;
-      DamageNumberManager.spawn(this.x, this.y - 20, voidDamage, '#a855f7');
-      this.statusEffects.void = Math.max(0, this.statusEffects.void - 1.2);
-    }
-
-    if (this.health <= 0) {
-      this.health = 0;
-      this.isDead = true;
-      SoundManager.playDeath();
-    }
+  // Boss takes half damage from status effects and shrugs off death marks
+  protected scaleStatusDamage(damage: number, kind: StatusKind): number {
+    if (kind === 'death') return 0;
+    return Math.floor(damage * 0.5);
   }
 
   private groundSlam(enemies: Fighter[]): void {
-    SoundManager.playExplosion();
+    this.announceAbility('ground_slam');
     this.attackAnimation = 30;
 
     // Damage all enemies in a large radius
@@ -150,12 +122,10 @@ export class Boss extends Fighter {
 
       if (dist <= slamRadius) {
         enemy.takeDamage(slamDamage, this);
-        // Knock back (skip structures like towers)
+        // Knock back (skip structures like towers) - slamming into the wall hurts
         if (!(enemy as any).isStructure) {
           const knockback = 20;
-          const angle = Math.atan2(dy, dx);
-          enemy.x += Math.cos(angle) * knockback;
-          enemy.y += Math.sin(angle) * knockback;
+          this.context.displacement.knockback(enemy, this.x, this.y, knockback, { source: this, wallDamage: 10 });
         }
       }
     }
@@ -163,30 +133,27 @@ export class Boss extends Fighter {
 
   private expunge(enemies: Fighter[]): void {
     // Deal 500 damage to all enemies with death DoT (globally)
-    SoundManager.playExplosion();
+    this.announceAbility('expunge');
     this.expungeAnimation = 60; // Show skull for ~1 second
 
     let hitCount = 0;
     for (const enemy of enemies) {
       if (enemy.isDead) continue;
       if ((enemy as any).isStructure) continue; // Skip buildings
-      if (enemy.statusEffects.death > 0) {
+      if (enemy.statusEffects.has('death', this.context.clock.now())) {
         enemy.takeDamage(500, this);
-        DamageNumberManager.spawn(enemy.x, enemy.y - 30, 500, '#ffffff');
         hitCount++;
       }
     }
 
     // Heal boss for each target hit
     if (hitCount > 0) {
-      const healAmount = hitCount * 50;
-      this.health = Math.min(this.maxHealth, this.health + healAmount);
-      DamageNumberManager.spawn(this.x, this.y - 50, healAmount, '#22c55e');
+      this.heal(hitCount * 50, this, 'ability');
     }
   }
 
   protected attack(_target: Fighter, allEnemies?: Fighter[]): void {
-    const now = Date.now();
+    const now = this.context.clock.now();
     if (now - this.lastAttackTime >= this.attackCooldown) {
       this.attackAnimation = 15;
 
@@ -199,7 +166,7 @@ export class Boss extends Fighter {
         const dist = Math.sqrt(dx * dx + dy * dy);
 
         if (dist <= this.attackRange + cleaveRadius) {
-          const isCrit = Math.random() < 0.1; // 10% crit chance
+          const isCrit = this.context.rng.chance(0.1); // 10% crit chance
           const damage = isCrit ? this.damage * 2 : this.damage;
           enemy.takeDamage(damage, this, isCrit);
         }
@@ -242,10 +209,18 @@ export class Boss extends Fighter {
     this.target = closestStructure || closest;
   }
 
-  takeDamage(amount: number, attacker?: Fighter, isCrit: boolean = false): void {
+  // Flat reduction below replaces the knight/mage armor and resistances
+  protected getBaseDefense(): DefenseProfile {
+    return NO_DEFENSE;
+  }
+
+  takeDamage(
+    amount: number, attacker?: Fighter, isCrit: boolean = false, damageType: DamageType = 'physical',
+    godPower: GodPowerType | null = null
+  ): void {
     // Boss takes reduced damage
     const reducedAmount = Math.floor(amount * 0.8);
-    super.takeDamage(reducedAmount, attacker, isCrit);
+    super.takeDamage(reducedAmount, attacker, isCrit, damageType, godPower);
   }
 
   draw(ctx: CanvasRenderingContext2D): void {
@@ -357,9 +332,10 @@ export class Boss extends Fighter {
     ctx.fillStyle = '#333';
     ctx.fillRect(barX, barY, barWidth, barHeight);
 
-    const healthPercent = this.health / this.maxHealth;
+    const healthPercent = this.health / this.getHealthBarScale();
     ctx.fillStyle = '#ef4444';
     ctx.fillRect(barX, barY, barWidth * healthPercent, barHeight);
+    this.drawShieldSegment(ctx, barX, barY, barWidth, barHeight);
 
     ctx.strokeStyle = '#000';
     ctx.lineWidth = 1;
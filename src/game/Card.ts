@@ -1,4 +1,6 @@
 import type { FighterType } from './types';
+import type { DamageType } from './DPSTracker';
+import type { ArenaId } from './Arenas';
 
 export interface CardEffect {
   // All multipliers compound (multiply together)
@@ -33,10 +35,26 @@ export interface CardEffect {
   knightTauntAbility?: boolean;
   mageVoidEruptionAbility?: boolean;
   healerPurifyAbility?: boolean;
+  cavalryTrampleAbility?: boolean;
+  assassinVanishAbility?: boolean;
 
   // Healer-specific
   healPowerMultiplier?: number;
   healAoeMultiplier?: number;
+
+  // Cavalry-specific
+  cavalryChargeMultiplier?: number;
+
+  // Armor, resistances and penetration add up (shares of damage, e.g. 0.05 = 5%)
+  armorBonus?: { type: FighterType | 'all'; value: number };
+  resistanceBonus?: { type: DamageType; value: number };
+  armorPenetration?: number;
+
+  // Absorb shield at battle start, as a share of max health (adds up)
+  startingShield?: { type: FighterType | 'all'; value: number };
+
+  // Battlefield for the round (community cards only - the last one dealt wins)
+  arena?: ArenaId;
 }
 
 export type CardRarity = 'common' | 'rare' | 'epic' | 'legendary';
@@ -148,6 +166,24 @@ function scaleEffect(effect: CardEffect, multiplier: number): CardEffect {
     const bonus = (effect.healAoeMultiplier - 1) * multiplier;
     scaled.healAoeMultiplier = 1 + bonus;
   }
+  if (effect.cavalryChargeMultiplier) {
+    const bonus = (effect.cavalryChargeMultiplier - 1) * multiplier;
+    scaled.cavalryChargeMultiplier = 1 + bonus;
+  }
+
+  // Additive bonuses scale directly
+  if (effect.armorBonus) {
+    scaled.armorBonus = { type: effect.armorBonus.type, value: effect.armorBonus.value * multiplier };
+  }
+  if (effect.resistanceBonus) {
+    scaled.resistanceBonus = { type: effect.resistanceBonus.type, value: effect.resistanceBonus.value * multiplier };
+  }
+  if (effect.armorPenetration) {
+    scaled.armorPenetration = effect.armorPenetration * multiplier;
+  }
+  if (effect.startingShield) {
+    scaled.startingShield = { type: effect.startingShield.type, value: effect.startingShield.value * multiplier };
+  }
 
   // Abilities and on-hit unlocks don't scale - they're boolean
   if (effect.archerPoisonOnHit) scaled.archerPoisonOnHit = true;
@@ -158,6 +194,9 @@ function scaleEffect(effect: CardEffect, multiplier: number): CardEffect {
   if (effect.knightTauntAbility) scaled.knightTauntAbility = true;
   if (effect.mageVoidEruptionAbility) scaled.mageVoidEruptionAbility = true;
   if (effect.healerPurifyAbility) scaled.healerPurifyAbility = true;
+  if (effect.cavalryTrampleAbility) scaled.cavalryTrampleAbility = true;
+  if (effect.assassinVanishAbility) scaled.assassinVanishAbility = true;
+  if (effect.arena) scaled.arena = effect.arena;
 
   return scaled;
 }
@@ -243,17 +282,47 @@ const BASE_CARDS: BaseCard[] = [
   { name: "Circle of Light", description: "+15% Healer AoE radius", effect: { healAoeMultiplier: 1.15 }, color: '#22d3ee' },
   { name: "Healer's Reach", description: "+10% Healer range", effect: { rangeMultiplier: { type: 'healer', value: 1.10 } }, color: '#22d3ee' },
 
+  // Cavalry cards
+  { name: "Couched Lance", description: "+10% Cavalry charge damage", effect: { cavalryChargeMultiplier: 1.10 }, color: '#a16207' },
+
   // Ability cards
   { name: "Piercing Shot", description: "Every 5th arrow pierces through all enemies (50% damage after first)", effect: { archerFanAbility: true }, color: '#22c55e' },
   { name: "Whirlwind Slash", description: "Swordsmen sweep all nearby enemies every 3 attacks", effect: { swordsmanSweepAbility: true }, color: '#3b82f6' },
-  { name: "Guardian's Call", description: "Knights taunt enemies and become invulnerable (6s cooldown)", effect: { knightTauntAbility: true }, color: '#f59e0b' },
+  { name: "Guardian's Call", description: "Knights taunt enemies and gain a full-health shield for 3s (6s cooldown)", effect: { knightTauntAbility: true }, color: '#f59e0b' },
   { name: "Void Eruption", description: "Mages cause chain-reaction void blasts every 10 attacks", effect: { mageVoidEruptionAbility: true }, color: '#7c3aed' },
   { name: "Purifying Light", description: "Healers cleanse debuffs and burst heal all nearby allies (8s cooldown)", effect: { healerPurifyAbility: true }, color: '#22d3ee' },
+  { name: "Trample", description: "Charging Cavalry ride down every enemy in their path (50% damage)", effect: { cavalryTrampleAbility: true }, color: '#a16207' },
+  { name: "Vanish", description: "Assassins slip back into stealth after a kill (6s cooldown)", effect: { assassinVanishAbility: true }, color: '#475569' },
+
+  // Armor, resistance and penetration cards
+  { name: "Plate Mail", description: "+4% Knight armor", effect: { armorBonus: { type: 'knight', value: 0.04 } }, color: '#94a3b8' },
+  { name: "Chain Mail", description: "+3% all armor", effect: { armorBonus: { type: 'all', value: 0.03 } }, color: '#94a3b8' },
+  { name: "Fireproof Cloaks", description: "+8% fire resistance", effect: { resistanceBonus: { type: 'fire', value: 0.08 } }, color: '#f59e0b' },
+  { name: "Antivenom", description: "+8% poison resistance", effect: { resistanceBonus: { type: 'poison', value: 0.08 } }, color: '#84cc16' },
+  { name: "Warding Runes", description: "+8% void resistance", effect: { resistanceBonus: { type: 'void', value: 0.08 } }, color: '#7c3aed' },
+  { name: "Soul Ward", description: "+8% death resistance", effect: { resistanceBonus: { type: 'death', value: 0.08 } }, color: '#64748b' },
+  { name: "Armor Piercing", description: "+8% armor penetration", effect: { armorPenetration: 0.08 }, color: '#e2e8f0' },
+
+  // Shield cards
+  { name: "Aegis", description: "Units start with a shield worth +5% max health", effect: { startingShield: { type: 'all', value: 0.05 } }, color: '#e2e8f0' },
+  { name: "Bulwark", description: "Knights start with a shield worth +10% max health", effect: { startingShield: { type: 'knight', value: 0.10 } }, color: '#e2e8f0' },
+  { name: "Spellguard", description: "Mages start with a shield worth +10% max health", effect: { startingShield: { type: 'mage', value: 0.10 } }, color: '#e2e8f0' },
+
+  // Arena cards - a community arena card picks the battlefield
+  { name: "Hexagon Arena", description: "Battle in the classic hexagon (community card only - can't be kept)", effect: { arena: 'hexagon' }, color: '#a16207' },
+  { name: "Ring of Ruin", description: "Battle around a deadly abyss (community card only - can't be kept)", effect: { arena: 'ring' }, color: '#a16207' },
+  { name: "Sundered Isles", description: "Battle on two islands joined by bridges (community card only - can't be kept)", effect: { arena: 'islands' }, color: '#a16207' },
+  { name: "Gauntlet", description: "Battle down a long corridor (community card only - can't be kept)", effect: { arena: 'corridor' }, color: '#a16207' },
 ];
 
 // Generate all card variants
 export const ALL_CARDS: Card[] = generateCards(BASE_CARDS);
 
+// Arena cards pick the battlefield for everyone, so they only work on the table - nobody can win or buy one
+export function isKeepableCard(card: Card): boolean {
+  return card.effect.arena === undefined;
+}
+
 // Base rarity weights for card selection (level 1)
 export const BASE_RARITY_WEIGHTS: Record<CardRarity, number> = {
   common: 55,
@@ -320,11 +389,27 @@ export class TeamModifiers {
   knightTauntAbility: boolean = false;
   mageVoidEruptionAbility: boolean = false;
   healerPurifyAbility: boolean = false;
+  cavalryTrampleAbility: boolean = false;
+  assassinVanishAbility: boolean = false;
 
   // Healer-specific
   healPowerMultiplier: number = 1;
   healAoeMultiplier: number = 1;
 
+  // Cavalry-specific
+  cavalryChargeMultiplier: number = 1;
+
+  // Defense bonuses (added to each unit's base armor/resistances) and armor penetration
+  armorBonus: Map<FighterType | 'all', number> = new Map();
+  resistanceBonus: Map<DamageType, number> = new Map();
+  armorPenetration: number = 0;
+
+  // Starting shield as a share of max health
+  startingShield: Map<FighterType | 'all', number> = new Map();
+
+  // Battlefield picked by an arena card (null = random)
+  arena: ArenaId | null = null;
+
   applyCard(card: Card): void {
     const e = card.effect;
 
@@ -372,10 +457,31 @@ export class TeamModifiers {
     if (e.knightTauntAbility) this.knightTauntAbility = true;
     if (e.mageVoidEruptionAbility) this.mageVoidEruptionAbility = true;
     if (e.healerPurifyAbility) this.healerPurifyAbility = true;
+    if (e.cavalryTrampleAbility) this.cavalryTrampleAbility = true;
+    if (e.assassinVanishAbility) this.assassinVanishAbility = true;
+    if (e.arena) this.arena = e.arena;
 
     // Healer-specific
     if (e.healPowerMultiplier) this.healPowerMultiplier *= e.healPowerMultiplier;
     if (e.healAoeMultiplier) this.healAoeMultiplier *= e.healAoeMultiplier;
+
+    // Cavalry-specific
+    if (e.cavalryChargeMultiplier) this.cavalryChargeMultiplier *= e.cavalryChargeMultiplier;
+
+    // Defense bonuses add up
+    if (e.armorBonus) {
+      const current = this.armorBonus.get(e.armorBonus.type) || 0;
+      this.armorBonus.set(e.armorBonus.type, current + e.armorBonus.value);
+    }
+    if (e.resistanceBonus) {
+      const current = this.resistanceBonus.get(e.resistanceBonus.type) || 0;
+      this.resistanceBonus.set(e.resistanceBonus.type, current + e.resistanceBonus.value);
+    }
+    if (e.armorPenetration) this.armorPenetration += e.armorPenetration;
+    if (e.startingShield) {
+      const current = this.startingShield.get(e.startingShield.type) || 0;
+      this.startingShield.set(e.startingShield.type, current + e.startingShield.value);
+    }
   }
 
   getDamageMultiplier(type: FighterType): number {
@@ -390,6 +496,14 @@ export class TeamModifiers {
     return (this.rangeMultiplier.get(type) || 1) * (this.rangeMultiplier.get('all') || 1);
   }
 
+  getArmorBonus(type: FighterType): number {
+    return (this.armorBonus.get(type) || 0) + (this.armorBonus.get('all') || 0);
+  }
+
+  getStartingShield(type: FighterType): number {
+    return (this.startingShield.get(type) || 0) + (this.startingShield.get('all') || 0);
+  }
+
   getSpawnWeight(type: FighterType): number {
     return this.spawnWeights.get(type) || 1;
   }
@@ -425,6 +539,21 @@ export class TeamModifiers {
       combined.spawnWeights.set(type, (this.spawnWeights.get(type) || 1) * (other.spawnWeights.get(type) || 1));
     }
 
+    // Combine defense bonuses (added)
+    const allArmorTypes = new Set([...this.armorBonus.keys(), ...other.armorBonus.keys()]);
+    for (const type of allArmorTypes) {
+      combined.armorBonus.set(type, (this.armorBonus.get(type) || 0) + (other.armorBonus.get(type) || 0));
+    }
+    const allResistanceTypes = new Set([...this.resistanceBonus.keys(), ...other.resistanceBonus.keys()]);
+    for (const type of allResistanceTypes) {
+      combined.resistanceBonus.set(type, (this.resistanceBonus.get(type) || 0) + (other.resistanceBonus.get(type) || 0));
+    }
+    combined.armorPenetration = this.armorPenetration + other.armorPenetration;
+    const allShieldTypes = new Set([...this.startingShield.keys(), ...other.startingShield.keys()]);
+    for (const type of allShieldTypes) {
+      combined.startingShield.set(type, (this.startingShield.get(type) || 0) + (other.startingShield.get(type) || 0));
+    }
+
     // Combine scalar multipliers
     combined.speedMultiplier = this.speedMultiplier * other.speedMultiplier;
     combined.attackSpeedMultiplier = this.attackSpeedMultiplier * other.attackSpeedMultiplier;
@@ -439,6 +568,7 @@ export class TeamModifiers {
     combined.regenMultiplier = this.regenMultiplier * other.regenMultiplier;
     combined.healPowerMultiplier = this.healPowerMultiplier * other.healPowerMultiplier;
     combined.healAoeMultiplier = this.healAoeMultiplier * other.healAoeMultiplier;
+    combined.cavalryChargeMultiplier = this.cavalryChargeMultiplier * other.cavalryChargeMultiplier;
 
     // Combine boolean unlocks (OR)
     combined.archerPoisonOnHit = this.archerPoisonOnHit || other.archerPoisonOnHit;
@@ -449,6 +579,9 @@ export class TeamModifiers {
     combined.knightTauntAbility = this.knightTauntAbility || other.knightTauntAbility;
     combined.mageVoidEruptionAbility = this.mageVoidEruptionAbility || other.mageVoidEruptionAbility;
     combined.healerPurifyAbility = this.healerPurifyAbility || other.healerPurifyAbility;
+    combined.cavalryTrampleAbility = this.cavalryTrampleAbility || other.cavalryTrampleAbility;
+    combined.assassinVanishAbility = this.assassinVanishAbility || other.assassinVanishAbility;
+    combined.arena = other.arena ?? this.arena;
 
     return combined;
   }
@@ -0,0 +1,186 @@
+import { Fighter } from './Fighter';
+import { SpriteRenderer } from './SpriteRenderer';
+import { UNIT_DEFENSES } from './Defense';
+import type { Direction } from './Player';
+import type { Team, FighterType } from './types';
+
+export class Cavalry extends Fighter {
+  // Charges targets between these distances, dashing in to just short of them (or through them with trample)
+  private readonly CHARGE_MIN_DISTANCE: number = 40;
+  private readonly CHARGE_MAX_DISTANCE: number = 110;
+  // The charge re-arms after this long without landing a hit - riders have to disengage
+  private readonly CHARGE_RECOVERY: number = 4000;
+  // Minimum time between charge dashes, so a dash cut short doesn't chain into another
+  private readonly CHARGE_COOLDOWN: number = 2000;
+  private readonly CHARGE_DAMAGE_MULTIPLIER: number = 3;
+  private readonly CHARGE_KNOCKBACK: number = 30;
+  private readonly CHARGE_WALL_DAMAGE: number = 8;
+  private readonly TRAMPLE_DAMAGE_SHARE: number = 0.5;
+  private readonly TRAMPLE_KNOCKBACK: number = 18;
+  private readonly TRAMPLE_OVERRUN: number = 20;
+  // Spacing of the hazard checks along a charge's path, and how far short of a hazard the rider pulls up
+  private readonly CHARGE_PATH_STEP: number = 4;
+  private readonly CHARGE_HAZARD_MARGIN: number = 10;
+
+  private chargeReady: boolean = true;
+  private charging: boolean = false;
+  private lastChargeTime: number = -Infinity;
+  private trampled: Set<Fighter> = new Set();
+
+  // Facing comes from how far the unit moved between frames, so worker mirrors face the same way
+  private facing: Direction;
+  private lastDrawX: number;
+  private lastDrawY: number;
+
+  constructor(team: Team, x: number, canvasHeight: number) {
+    super(team, x, canvasHeight);
+    this.health = 170;
+    this.maxHealth = 170;
+    this.baseSpeed = 0.75;
+    this.speed = 0.75;
+    this.baseDamage = 12;
+    this.damage = 12;
+    this.baseAttackRange = 12;
+    this.attackRange = 12;
+    this.baseAttackCooldown = 1100;
+    this.attackCooldown = 1100;
+    this.width = 10;
+    this.height = 10;
+    this.facing = team === 'blue' ? 'left' : 'right';
+    this.lastDrawX = this.x;
+    this.lastDrawY = this.y;
+  }
+
+  getColor(): string {
+    return this.team === 'blue' ? '#92400e' : '#b45309';
+  }
+
+  getType(): FighterType {
+    return 'cavalry';
+  }
+
+  update(enemies: Fighter[], deltaTime: number, allies?: Fighter[]): void {
+    super.update(enemies, deltaTime, allies);
+    if (this.isDead) return;
+
+    const now = this.context.clock.now();
+    if (!this.chargeReady && now - this.lastAttackTime >= this.CHARGE_RECOVERY) {
+      this.chargeReady = true;
+    }
+
+    // The charge is over once the dash runs out or something knocks the rider off course
+    const displacement = this.context.displacement;
+    if (this.charging && (!displacement.isMoving(this) || displacement.isDisplaced(this))) {
+      this.charging = false;
+    }
+
+    if (this.charging) {
+      if (this.modifiers?.cavalryTrampleAbility) {
+        this.trample(enemies);
+      }
+      return;
+    }
+
+    const chargeOffCooldown = now - this.lastChargeTime >= this.CHARGE_COOLDOWN;
+    if (this.chargeReady && chargeOffCooldown && this.target && !this.target.isDead && !this.isFrozen() && !displacement.isMoving(this)) {
+      const dist = this.getDistanceTo(this.target);
+      if (dist >= this.CHARGE_MIN_DISTANCE && dist <= this.CHARGE_MAX_DISTANCE) {
+        const dirX = (this.target.x - this.x) / dist;
+        const dirY = (this.target.y - this.y) / dist;
+        const reach = dist - this.attackRange;
+        const wanted = this.modifiers?.cavalryTrampleAbility ? dist + this.TRAMPLE_OVERRUN : reach;
+        // Dashes don't stop for hazards - cut the overrun short of one, and don't charge at all if one is in the way
+        const distance = Math.min(wanted, this.getClearDistance(dirX, dirY, wanted));
+        if (distance >= reach) {
+          displacement.dash(this, dirX, dirY, distance, { source: this });
+          this.charging = true;
+          this.lastChargeTime = now;
+          this.trampled.clear();
+          this.announceAbility('charge');
+        }
+      }
+    }
+  }
+
+  // How far the rider can dash along (dirX, dirY) and still stop clear of impassable ground
+  private getClearDistance(dirX: number, dirY: number, distance: number): number {
+    // Look past the landing point - the rider keeps walking while it dashes
+    const probe = distance + this.CHARGE_HAZARD_MARGIN;
+    for (let step = this.CHARGE_PATH_STEP; step < probe + this.CHARGE_PATH_STEP; step += this.CHARGE_PATH_STEP) {
+      const along = Math.min(step, probe);
+      if (this.context.isImpassable(this.x + dirX * along, this.y + dirY * along)) {
+        return Math.max(0, along - this.CHARGE_PATH_STEP - this.CHARGE_HAZARD_MARGIN);
+      }
+    }
+    return distance;
+  }
+
+  // Unarmored units get ridden down - bosses and armored units hold their ground
+  private isLight(target: Fighter): boolean {
+    return !target.isBoss && UNIT_DEFENSES[target.getType()].armor === 0;
+  }
+
+  private trample(enemies: Fighter[]): void {
+    const reach = this.width;
+    const nearby = this.context.spatialIndex
+      ? this.context.spatialIndex.queryRadius(this.x, this.y, reach)
+      : enemies;
+
+    for (const enemy of nearby) {
+      if (enemy.isDead || enemy.team === this.team || this.trampled.has(enemy)) continue;
+      if (this.getDistanceTo(enemy) > reach) continue;
+
+      this.trampled.add(enemy);
+      if (this.trampled.size === 1) {
+        this.announceAbility('trample');
+      }
+      this.dealDamage(enemy, Math.floor(this.damage * this.TRAMPLE_DAMAGE_SHARE));
+      if (this.isLight(enemy) && !enemy.isDead) {
+        this.context.displacement.knockback(enemy, this.x, this.y, this.TRAMPLE_KNOCKBACK, { source: this });
+      }
+    }
+  }
+
+  protected attack(target: Fighter, allEnemies?: Fighter[]): void {
+    const now = this.context.clock.now();
+    if (now - this.lastAttackTime < this.attackCooldown) return;
+
+    if (this.chargeReady) {
+      // First impact of a charge hits hard and knocks light units down
+      const chargeMultiplier = this.modifiers?.cavalryChargeMultiplier ?? 1;
+      this.dealDamage(target, Math.floor(this.damage * this.CHARGE_DAMAGE_MULTIPLIER * chargeMultiplier), allEnemies);
+      if (this.isLight(target) && !target.isDead) {
+        this.context.displacement.knockback(target, this.x, this.y, this.CHARGE_KNOCKBACK, {
+          source: this, wallDamage: this.CHARGE_WALL_DAMAGE
+        });
+      }
+      this.chargeReady = false;
+    } else {
+      this.dealDamage(target, this.damage, allEnemies);
+    }
+    this.lastAttackTime = now;
+  }
+
+  private updateFacing(): void {
+    const dx = this.x - this.lastDrawX;
+    const dy = this.y - this.lastDrawY;
+    this.lastDrawX = this.x;
+    this.lastDrawY = this.y;
+    if (dx * dx + dy * dy < 0.01) return;
+
+    if (Math.abs(dx) >= Math.abs(dy)) {
+      this.facing = dx > 0 ? 'right' : 'left';
+    } else {
+      this.facing = dy > 0 ? 'down' : 'up';
+    }
+  }
+
+  draw(ctx: CanvasRenderingContext2D): void {
+    if (this.isDead) return;
+
+    this.drawStatusEffects(ctx);
+    this.updateFacing();
+    SpriteRenderer.drawHorseman(ctx, this.x, this.y, this.team, this.animationFrame, this.facing, this.isFlashing());
+    this.drawHealthBar(ctx);
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Combat Log
+ *
+ * Battle history built from the BattleContext event bus: hits (who hit whom,
+ * for how much, with what damage type), heals, deaths, ability triggers and
+ * god power casts. Entries are plain data so they can travel in worker
+ * snapshots and be exported as text or JSON after the battle.
+ */
+
+import type { Team } from './types';
+import type { Clock } from './BattleClock';
+import type { Fighter } from './Fighter';
+import type { BattleEventBus } from './BattleEvents';
+
+export type CombatLogKind = 'damage' | 'heal' | 'shield' | 'death' | 'ability' | 'god_power';
+
+export interface CombatLogEntry {
+  time: number;               // Battle clock (ms)
+  kind: CombatLogKind;
+  sourceTeam: Team | null;    // Attacker, healer, killer, caster - null for DoT ticks and god power heals
+  source: string | null;      // Unit type or god power name
+  targetTeam: Team | null;
+  target: string | null;
+  amount: number;             // Damage or healing, 0 where it doesn't apply
+  detail: string;             // Damage type, heal/shield source or ability name
+}
+
+// Oldest entries are dropped past this - a big battle logs tens of thousands of hits
+const MAX_ENTRIES = 20000;
+
+function unitName(fighter: Fighter): string {
+  if (fighter.isBoss) return fighter.getType() === 'mage' ? 'wraith' : 'boss';
+  return fighter.getType();
+}
+
+export class CombatLog {
+  private entries: CombatLogEntry[] = [];
+  private totalLogged: number = 0;
+  private snapshotCursor: number = 0; // totalLogged at the last getSnapshot()
+  private clock: Clock;
+
+  constructor(clock: Clock) {
+    this.clock = clock;
+  }
+
+  subscribe(events: BattleEventBus): void {
+    events.on('damage', event => {
+      const detail = event.source === 'status' ? `${event.damageType} (dot)`
+        : event.source === 'thorns' ? 'thorns'
+        : event.source === 'impact' ? 'wall impact'
+        : event.source === 'hazard' ? 'hazard'
+        : event.source === 'zone' ? 'outside zone'
+        : event.isCrit ? `${event.damageType} crit` : event.damageType;
+      this.add({
+        kind: 'damage',
+        sourceTeam: event.attacker?.team ?? (event.godPower ? 'red' : null),
+        source: event.attacker ? unitName(event.attacker) : event.godPower,
+        targetTeam: event.target.team,
+        target: unitName(event.target),
+        amount: event.amount,
+        detail
+      });
+    });
+    events.on('heal', event => {
+      // Lifesteal procs on every hit and would bury everything else
+      if (event.source === 'lifesteal' || event.amount <= 0) return;
+      this.add({
+        kind: 'heal',
+        sourceTeam: event.healer?.team ?? null,
+        source: event.healer ? unitName(event.healer) : event.godPower,
+        targetTeam: event.target.team,
+        target: unitName(event.target),
+        amount: event.amount,
+        detail: event.source
+      });
+    });
+    events.on('shield_applied', event => {
+      // Starting shields from cards land on every unit at once
+      if (event.source === 'card') return;
+      this.add({
+        kind: 'shield',
+        sourceTeam: event.grantedBy?.team ?? (event.godPower ? 'red' : null),
+        source: event.grantedBy ? unitName(event.grantedBy) : event.godPower,
+        targetTeam: event.target.team,
+        target: unitName(event.target),
+        amount: event.amount,
+        detail: event.source
+      });
+    });
+    events.on('death', event => {
+      this.add({
+        kind: 'death',
+        sourceTeam: event.killerTeam,
+        source: event.killerType,
+        targetTeam: event.fighter.team,
+        target: unitName(event.fighter),
+        amount: 0,
+        detail: ''
+      });
+    });
+    events.on('ability_triggered', event => {
+      this.add({
+        kind: 'ability',
+        sourceTeam: event.fighter.team,
+        source: unitName(event.fighter),
+        targetTeam: null,
+        target: null,
+        amount: 0,
+        detail: event.ability
+      });
+    });
+    events.on('god_power_cast', event => {
+      this.add({
+        kind: 'god_power',
+        sourceTeam: event.team,
+        source: event.card.name,
+        targetTeam: null,
+        target: null,
+        amount: 0,
+        detail: event.card.type
+      });
+    });
+  }
+
+  private add(entry: Omit<CombatLogEntry, 'time'>): void {
+    this.push({ time: this.clock.now(), ...entry });
+  }
+
+  private push(entry: CombatLogEntry): void {
+    this.entries.push(entry);
+    this.totalLogged++;
+    if (this.entries.length > MAX_ENTRIES * 1.25) {
+      this.entries = this.entries.slice(-MAX_ENTRIES);
+    }
+  }
+
+  getEntries(): readonly CombatLogEntry[] {
+    return this.entries;
+  }
+
+  // Entries involving a team on either side (null = all)
+  getFiltered(team: Team | null): CombatLogEntry[] {
+    if (!team) return this.entries;
+    return this.entries.filter(e => e.sourceTeam === team || e.targetTeam === team);
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.totalLogged = 0;
+    this.snapshotCursor = 0;
+  }
+
+  // Entries logged since the previous call - sent with each worker snapshot
+  getSnapshot(): CombatLogEntry[] {
+    const fresh = Math.min(this.totalLogged - this.snapshotCursor, this.entries.length);
+    this.snapshotCursor = this.totalLogged;
+    return fresh > 0 ? this.entries.slice(-fresh) : [];
+  }
+
+  // Append entries from a worker snapshot (display mirrors only)
+  loadSnapshot(entries: CombatLogEntry[]): void {
+    for (const entry of entries) {
+      this.push(entry);
+    }
+  }
+}
+
+export function formatCombatLogTime(time: number): string {
+  const secs = time / 1000;
+  return `${Math.floor(secs / 60)}:${(secs % 60).toFixed(1).padStart(4, '0')}`;
+}
+
+// One-line description, e.g. "red archer hit blue knight for 14 poison"
+export function formatCombatLogEntry(entry: CombatLogEntry): string {
+  const who = (team: Team | null, name: string | null) =>
+    [team, name?.replace(/_/g, ' ')].filter(Boolean).join(' ') || 'unknown';
+  const source = who(entry.sourceTeam, entry.source);
+  const target = who(entry.targetTeam, entry.target);
+  const amount = Math.round(entry.amount);
+
+  switch (entry.kind) {
+    case 'damage':
+      return entry.source
+        ? `${source} hit ${target} for ${amount} ${entry.detail}`
+        : `${target} took ${amount} ${entry.detail}`;
+    case 'heal':
+      return `${source} healed ${target} for ${amount}`;
+    case 'shield':
+      return `${source} shielded ${target} for ${amount}`;
+    case 'death':
+      return entry.sourceTeam ? `${target} was killed by ${source}` : `${target} died`;
+    case 'ability':
+      return `${source} used ${entry.detail.replace(/_/g, ' ')}`;
+    case 'god_power':
+      return `${entry.sourceTeam} cast ${entry.source}`;
+  }
+}
+
+export function combatLogToText(entries: readonly CombatLogEntry[]): string {
+  return entries.map(e => `[${formatCombatLogTime(e.time)}] ${formatCombatLogEntry(e)}`).join('\n') + '\n';
+}
+
+export function combatLogToJSON(entries: readonly CombatLogEntry[]): string {
+  return JSON.stringify(entries, null, 2);
+}
@@ -1,12 +1,33 @@
+import { WallClock, type Clock } from './BattleClock';
+import type { Fighter } from './Fighter';
+import type { BattleEventBus } from './BattleEvents';
+
 export type DamageType = 'physical' | 'fire' | 'poison' | 'frost' | 'void' | 'death' | 'splash';
-export type UnitType = 'swordsman' | 'archer' | 'mage' | 'knight' | 'healer' | 'player' | 'boss' | 'wraith' | 'tower';
+export type UnitType = 'swordsman' | 'archer' | 'mage' | 'knight' | 'healer' | 'cavalry' | 'assassin' | 'player' | 'boss' | 'wraith' | 'tower';
+
+// DoT ticks have no attacker - credit them to the class that applies the effect
+const STATUS_DAMAGE_OWNERS: Partial<Record<DamageType, UnitType>> = {
+  fire: 'swordsman',
+  poison: 'archer',
+  void: 'mage',
+  death: 'wraith'
+};
+
+function getUnitType(fighter: Fighter): UnitType {
+  if (fighter.isBoss) {
+    // Wraiths report themselves as mages
+    return fighter.getType() === 'mage' ? 'wraith' : 'boss';
+  }
+  return fighter.getType() as UnitType;
+}
 
 interface DamageEntry {
   amount: number;
   timestamp: number;
 }
 
-class DPSTrackerClass {
+// Damage/healing stats for one battle (owned by BattleContext)
+export class DPSTracker {
   // Track damage by unit type
   private unitDamage: Map<UnitType, DamageEntry[]> = new Map();
   // Track damage by damage type
@@ -21,7 +42,11 @@ class DPSTrackerClass {
   private totalDamageDealt: number = 0;
   private totalHealing: number = 0;
 
-  constructor() {
+  // Timestamps come from the battle clock so the DPS window follows simulation time
+  private clock: Clock;
+
+  constructor(clock: Clock = WallClock) {
+    this.clock = clock;
     this.reset();
   }
 
@@ -33,8 +58,23 @@ class DPSTrackerClass {
     this.totalHealing = 0;
   }
 
+  // Collect damage and healing from the battle's event bus
+  subscribe(events: BattleEventBus): void {
+    events.on('damage', event => {
+      if (event.source === 'attack' && event.attacker) {
+        this.recordDamage(getUnitType(event.attacker), event.damageType, event.amount);
+      } else if (event.source === 'status') {
+        const owner = STATUS_DAMAGE_OWNERS[event.damageType];
+        if (owner) this.recordDamage(owner, event.damageType, event.amount);
+      }
+    });
+    events.on('heal', event => {
+      if (event.source === 'healer') this.recordHealing(event.amount);
+    });
+  }
+
   recordDamage(unitType: UnitType, damageType: DamageType, amount: number): void {
-    const now = Date.now();
+    const now = this.clock.now();
     const entry: DamageEntry = { amount, timestamp: now };
 
     // Record by unit type
@@ -53,13 +93,13 @@ class DPSTrackerClass {
   }
 
   recordHealing(amount: number): void {
-    const now = Date.now();
+    const now = this.clock.now();
     this.healingEntries.push({ amount, timestamp: now });
     this.totalHealing += amount;
   }
 
   private cleanOldEntries(): void {
-    const now = Date.now();
+    const now = this.clock.now();
     const cutoff = now - this.DPS_WINDOW;
 
     // Clean unit damage entries
@@ -173,6 +213,8 @@ class DPSTrackerClass {
       mage: '#a855f7',
       knight: '#f59e0b',
       healer: '#22d3ee',
+      cavalry: '#a16207',
+      assassin: '#64748b',
       player: '#ef4444',
       boss: '#dc2626',
       wraith: '#7c3aed',
@@ -235,5 +277,3 @@ class DPSTrackerClass {
     return num.toString();
   }
 }
-
-export const DPSTracker = new DPSTrackerClass();
@@ -1,3 +1,22 @@
+import type { DamageNumberSnapshot } from './BattleSnapshot';
+import type { DamageType } from './DPSTracker';
+import type { GodPowerType } from './GodCardDeck';
+import type { BattleEventBus } from './BattleEvents';
+
+export const STATUS_DAMAGE_COLORS: Partial<Record<DamageType, string>> = {
+  fire: '#ff6600',
+  poison: '#22c55e',
+  void: '#a855f7',
+  death: '#e5e5e5'
+};
+
+const GOD_POWER_DAMAGE_COLORS: Partial<Record<GodPowerType, string>> = {
+  meteor_strike: '#ef4444',
+  lightning_bolt: '#fbbf24',
+  earthquake: '#a16207',
+  holy_smite: '#fef08a'
+};
+
 export class DamageNumber {
   x: number;
   y: number;
@@ -50,28 +69,63 @@ export class DamageNumber {
   }
 }
 
-// Global damage number manager
+// Floating damage numbers for one battle (owned by BattleContext)
 export class DamageNumberManager {
-  private static numbers: DamageNumber[] = [];
+  private numbers: DamageNumber[] = [];
 
-  static spawn(x: number, y: number, value: number, color?: string): void {
+  // Spawn numbers for damage and heals announced on the battle's event bus
+  subscribe(events: BattleEventBus): void {
+    events.on('damage', ({ target, amount, damageType, isCrit, source, godPower }) => {
+      let color = isCrit ? '#fbbf24' : '#ffffff';
+      if (source === 'status') color = STATUS_DAMAGE_COLORS[damageType] ?? color;
+      if (godPower) color = GOD_POWER_DAMAGE_COLORS[godPower] ?? color;
+      this.spawn(target.x, target.y - (target.isBoss ? 20 : 10), amount, color);
+    });
+    events.on('heal', ({ target, amount, source }) => {
+      // Lifesteal procs on every hit - too noisy to show
+      if (source === 'lifesteal' || amount <= 0) return;
+      const color = source === 'ability' ? '#22c55e' : '#22d3ee';
+      this.spawn(target.x, target.y - (target.isBoss ? 30 : 15), amount, color);
+    });
+    events.on('shield_applied', ({ target, amount, source }) => {
+      // Card shields land on every unit at battle start - skip those
+      if (source === 'card') return;
+      this.spawn(target.x, target.y - (target.isBoss ? 30 : 15), Math.round(amount), '#f59e0b');
+    });
+  }
+
+  spawn(x: number, y: number, value: number, color?: string): void {
     this.numbers.push(new DamageNumber(x, y, value, color));
   }
 
-  static update(deltaTime: number): void {
+  update(deltaTime: number): void {
     for (const num of this.numbers) {
       num.update(deltaTime);
     }
     this.numbers = this.numbers.filter(n => !n.isDead);
   }
 
-  static draw(ctx: CanvasRenderingContext2D): void {
+  draw(ctx: CanvasRenderingContext2D): void {
     for (const num of this.numbers) {
       num.draw(ctx);
     }
   }
 
-  static clear(): void {
+  clear(): void {
     this.numbers = [];
   }
+
+  getSnapshot(): DamageNumberSnapshot[] {
+    return this.numbers.map(n => ({ x: n.x, y: n.y, value: n.value, age: n.age, color: n.color }));
+  }
+
+  // Replace the live numbers with ones captured by the battle worker
+  loadSnapshot(snapshots: DamageNumberSnapshot[]): void {
+    this.numbers = snapshots.map(s => {
+      const num = new DamageNumber(s.x, s.y, s.value, s.color);
+      num.x = s.x; // Drop the spawn jitter - the snapshot already has it
+      num.age = s.age;
+      return num;
+    });
+  }
 }
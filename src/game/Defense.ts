@@ -0,0 +1,78 @@
+/**
+ * Armor & Resistances
+ *
+ * Damage mitigation for Fighter.takeDamage and status effect ticks. Armor
+ * blocks a share of physical and splash hits and can be partly ignored by the
+ * attacker's armor penetration; each resistance blocks a share of one element.
+ * Every FighterType has a default profile, and TeamModifiers (cards) add to it.
+ */
+
+import type { FighterType } from './types';
+import type { DamageType } from './DPSTracker';
+import type { TeamModifiers } from './Card';
+
+export type Resistances = Partial<Record<DamageType, number>>;
+
+export interface DefenseProfile {
+  armor: number;              // Share of physical/splash damage blocked (0.25 = 25%)
+  resistances: Resistances;   // Share of each element blocked - negative means a weakness
+}
+
+// Damage types armor applies to - the rest are checked against resistances
+const ARMORED_DAMAGE_TYPES: ReadonlySet<DamageType> = new Set<DamageType>(['physical', 'splash']);
+
+// However many cards stack up, at least a quarter of every hit gets through
+export const MAX_MITIGATION = 0.75;
+
+export const UNIT_DEFENSES: Record<FighterType, DefenseProfile> = {
+  swordsman: { armor: 0.1, resistances: { fire: 0.15 } },
+  archer: { armor: 0, resistances: { poison: 0.25 } },
+  mage: { armor: 0, resistances: { void: 0.5, frost: 0.15 } },
+  knight: { armor: 0.25, resistances: { frost: 0.25, void: -0.1 } },
+  healer: { armor: 0, resistances: { death: 0.3, poison: 0.15 } },
+  cavalry: { armor: 0.15, resistances: { frost: -0.1 } },
+  assassin: { armor: 0, resistances: { poison: 0.2, void: 0.1 } }
+};
+
+// Bosses keep their own flat damage reduction instead
+export const NO_DEFENSE: DefenseProfile = { armor: 0, resistances: {} };
+
+// Base profile plus the armor and resistance bonuses from cards
+export function applyDefenseModifiers(
+  base: DefenseProfile, type: FighterType, modifiers: TeamModifiers | null
+): DefenseProfile {
+  if (!modifiers) return base;
+
+  const resistances: Resistances = { ...base.resistances };
+  for (const [damageType, bonus] of modifiers.resistanceBonus) {
+    resistances[damageType] = (resistances[damageType] ?? 0) + bonus;
+  }
+  return { armor: base.armor + modifiers.getArmorBonus(type), resistances };
+}
+
+// Share of a hit that gets through (1 = unmitigated)
+export function getDamageTakenMultiplier(
+  defense: DefenseProfile, damageType: DamageType, armorPenetration: number = 0
+): number {
+  const blocked = ARMORED_DAMAGE_TYPES.has(damageType)
+    ? defense.armor * (1 - Math.min(1, armorPenetration))
+    : defense.resistances[damageType] ?? 0;
+  return 1 - Math.min(MAX_MITIGATION, blocked);
+}
+
+// Short labels for a team's defensive card bonuses, e.g. "+8% armor", "+10% fire res"
+export function describeDefenseModifiers(modifiers: TeamModifiers): string[] {
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const labels: string[] = [];
+
+  for (const [type, bonus] of modifiers.armorBonus) {
+    if (bonus !== 0) labels.push(`+${percent(bonus)} ${type === 'all' ? '' : `${type} `}armor`);
+  }
+  for (const [damageType, bonus] of modifiers.resistanceBonus) {
+    if (bonus !== 0) labels.push(`+${percent(bonus)} ${damageType} res`);
+  }
+  if (modifiers.armorPenetration > 0) {
+    labels.push(`${percent(modifiers.armorPenetration)} armor pen`);
+  }
+  return labels;
+}
@@ -0,0 +1,211 @@
+/**
+ * Displacement
+ *
+ * Velocity-based knockback, pull and dash owned by each BattleContext. A
+ * displacement gives the unit a velocity that decays every tick, so a push
+ * plays out over a few ticks instead of teleporting the unit. Moving units
+ * stop at the arena wall and at obstacles (optionally taking impact damage) and shove units
+ * they run into, handing over part of their momentum. Knocked back or pulled
+ * units can't act until they come to rest; dashing units can. Nothing stops
+ * a unit being knocked into an arena hazard.
+ */
+
+import type { Fighter } from './Fighter';
+import type { SpatialHash } from './SpatialHash';
+import type { GodPowerType } from './GodCardDeck';
+import type { Arena } from './Arenas';
+
+export type DisplacementKind = 'knockback' | 'pull' | 'dash';
+
+export interface DisplacementOptions {
+  source?: Fighter | null;        // Gets kill credit for wall impacts
+  godPower?: GodPowerType | null;
+  wallDamage?: number;            // Damage on hitting the arena wall or an obstacle at full speed
+}
+
+interface Motion {
+  fighter: Fighter;
+  kind: DisplacementKind;
+  vx: number;                     // px per ms
+  vy: number;
+  initialSpeed: number;
+  source: Fighter | null;
+  godPower: GodPowerType | null;
+  wallDamage: number;
+  collided: Set<Fighter>;         // Units already shoved by this motion
+}
+
+// Velocity left after each 60fps frame - a push covers ~95% of its distance in 10 frames
+const DECAY_PER_FRAME = 0.75;
+const FRAME_MS = 1000 / 60;
+// Below this a motion is over (px per ms)
+const REST_SPEED = 0.01;
+// Share of momentum handed to a unit that gets run into
+const COLLISION_TRANSFER = 0.5;
+// Bosses are heavy - they only move this much of a push
+const BOSS_DISPLACEMENT_SCALE = 0.25;
+
+export class DisplacementSystem {
+  private motions: Map<Fighter, Motion> = new Map();
+  // Arena boundary - null when there is none (e.g. lane mode)
+  private arena: Arena | null = null;
+
+  setArena(arena: Arena | null): void {
+    this.arena = arena;
+  }
+
+  // Push away from a point, travelling roughly `distance` px
+  knockback(fighter: Fighter, fromX: number, fromY: number, distance: number, options: DisplacementOptions = {}): void {
+    const dx = fighter.x - fromX;
+    const dy = fighter.y - fromY;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist < 0.001) return;
+    this.push(fighter, dx / dist, dy / dist, distance, 'knockback', options);
+  }
+
+  // Drag towards a point, never past it
+  pull(fighter: Fighter, toX: number, toY: number, distance: number, options: DisplacementOptions = {}): void {
+    const dx = toX - fighter.x;
+    const dy = toY - fighter.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist < 0.001) return;
+    this.push(fighter, dx / dist, dy / dist, Math.min(distance, dist), 'pull', options);
+  }
+
+  // Self-propelled burst of movement in a direction
+  dash(fighter: Fighter, dirX: number, dirY: number, distance: number, options: DisplacementOptions = {}): void {
+    const length = Math.sqrt(dirX * dirX + dirY * dirY);
+    if (length < 0.001) return;
+    this.push(fighter, dirX / length, dirY / length, distance, 'dash', options);
+  }
+
+  private push(
+    fighter: Fighter, dirX: number, dirY: number, distance: number, kind: DisplacementKind, options: DisplacementOptions
+  ): void {
+    if (fighter.isDead || distance <= 0) return;
+    const scaled = fighter.isBoss ? distance * BOSS_DISPLACEMENT_SCALE : distance;
+    // Geometric decay: total travel = v0 * FRAME_MS / (1 - DECAY_PER_FRAME)
+    const speed = scaled * (1 - DECAY_PER_FRAME) / FRAME_MS;
+
+    const existing = this.motions.get(fighter);
+    const vx = dirX * speed + (existing?.vx ?? 0);
+    const vy = dirY * speed + (existing?.vy ?? 0);
+    this.motions.set(fighter, {
+      fighter,
+      kind,
+      vx,
+      vy,
+      initialSpeed: Math.sqrt(vx * vx + vy * vy),
+      source: options.source ?? null,
+      godPower: options.godPower ?? null,
+      wallDamage: options.wallDamage ?? 0,
+      collided: existing?.collided ?? new Set()
+    });
+    fighter.context.events.emit('displaced', {
+      fighter, source: options.source ?? null, kind, distance: scaled, godPower: options.godPower ?? null
+    });
+  }
+
+  // Knocked back or pulled - the unit is not in control of its movement
+  isDisplaced(fighter: Fighter): boolean {
+    const motion = this.motions.get(fighter);
+    return motion !== undefined && motion.kind !== 'dash';
+  }
+
+  isMoving(fighter: Fighter): boolean {
+    return this.motions.has(fighter);
+  }
+
+  update(deltaTime: number, spatialIndex: SpatialHash<Fighter> | null): void {
+    if (this.motions.size === 0) return;
+    const decay = Math.pow(DECAY_PER_FRAME, deltaTime / FRAME_MS);
+
+    for (const motion of [...this.motions.values()]) {
+      const fighter = motion.fighter;
+      if (fighter.isDead) {
+        this.motions.delete(fighter);
+        continue;
+      }
+
+      const fromX = fighter.x;
+      const fromY = fighter.y;
+      fighter.x += motion.vx * deltaTime;
+      fighter.y += motion.vy * deltaTime;
+
+      if (this.collideWithWall(motion)) continue;
+      if (this.collideWithObstacle(motion, fromX, fromY)) continue;
+      if (spatialIndex) this.collideWithUnits(motion, spatialIndex);
+
+      motion.vx *= decay;
+      motion.vy *= decay;
+      if (Math.sqrt(motion.vx * motion.vx + motion.vy * motion.vy) < REST_SPEED) {
+        this.motions.delete(fighter);
+      }
+    }
+  }
+
+  // Stops the motion at the wall - returns true if it hit
+  private collideWithWall(motion: Motion): boolean {
+    if (!this.arena) return false;
+    const fighter = motion.fighter;
+    if (this.arena.contains(fighter.x, fighter.y)) return false;
+
+    const edge = this.arena.clampInside(fighter.x, fighter.y);
+    fighter.x = edge.x;
+    fighter.y = edge.y;
+    this.stopOnImpact(motion);
+    return true;
+  }
+
+  // Stops the motion in front of a rock or wall - returns true if it hit
+  private collideWithObstacle(motion: Motion, fromX: number, fromY: number): boolean {
+    const fighter = motion.fighter;
+    const grid = fighter.context.grid;
+    // A unit that started inside an obstacle is let out
+    if (!grid || !grid.isBlockedAt(fighter.x, fighter.y) || grid.isBlockedAt(fromX, fromY)) return false;
+
+    fighter.x = fromX;
+    fighter.y = fromY;
+    this.stopOnImpact(motion);
+    return true;
+  }
+
+  private stopOnImpact(motion: Motion): void {
+    // Slam damage scales with how fast the unit was still going
+    const speed = Math.sqrt(motion.vx * motion.vx + motion.vy * motion.vy);
+    if (motion.wallDamage > 0 && motion.initialSpeed > 0) {
+      motion.fighter.takeImpactDamage(motion.wallDamage * Math.min(1, speed / motion.initialSpeed), motion.source, motion.godPower);
+    }
+    this.motions.delete(motion.fighter);
+  }
+
+  private collideWithUnits(motion: Motion, spatialIndex: SpatialHash<Fighter>): void {
+    const fighter = motion.fighter;
+    const reach = fighter.width;
+    for (const other of spatialIndex.queryRadius(fighter.x, fighter.y, reach)) {
+      if (other === fighter || other.isDead || motion.collided.has(other)) continue;
+      const minDist = (fighter.width + other.width) / 2;
+      const dx = other.x - fighter.x;
+      const dy = other.y - fighter.y;
+      if (dx * dx + dy * dy > minDist * minDist) continue;
+
+      // Hand over part of the momentum and slow down
+      motion.collided.add(other);
+      const speed = Math.sqrt(motion.vx * motion.vx + motion.vy * motion.vy);
+      const distance = speed * COLLISION_TRANSFER * FRAME_MS / (1 - DECAY_PER_FRAME);
+      // Dashing units slip past their own team
+      if (motion.kind === 'dash' && other.team === fighter.team) continue;
+      this.push(other, motion.vx / speed, motion.vy / speed, distance, 'knockback', {
+        source: motion.source, godPower: motion.godPower, wallDamage: motion.wallDamage * COLLISION_TRANSFER
+      });
+      // Don't let the shoved unit bounce straight back into us
+      this.motions.get(other)?.collided.add(fighter);
+      motion.vx *= 1 - COLLISION_TRANSFER;
+      motion.vy *= 1 - COLLISION_TRANSFER;
+    }
+  }
+
+  clear(): void {
+    this.motions.clear();
+  }
+}
@@ -1,37 +1,21 @@
 import { TEAM_COLORS, type Team, type Position, type FighterType } from './types';
 import type { TeamModifiers } from './Card';
-import { DamageNumberManager } from './DamageNumber';
-import { SoundManager } from './SoundManager';
-import { DPSTracker } from './DPSTracker';
-import type { UnitType, DamageType } from './DPSTracker';
-import { SlotManager, AttackState, findEnemyInRange } from './AttackSlotSystem';
-
-export interface StatusEffects {
-  burning: number;
-  poison: number;
-  frozen: number;
-  frozenUntil: number;
-  void: number;
-  death: number;
-}
+import type { DamageType } from './DPSTracker';
+import type { GodPowerType } from './GodCardDeck';
+import type { AbilityKind, HealSource } from './BattleEvents';
+import { AttackState, findEnemyInRange } from './AttackSlotSystem';
+import { BattleContext } from './BattleContext';
+import { FighterFlag, FIGHTER_STATUS_OFFSET } from './BattleSnapshot';
+import { StatusEffectSet, STATUS_TICK_INTERVAL, type StatusKind } from './StatusEffects';
+import { ShieldLayer, type ShieldSource } from './Shields';
+import { UNIT_DEFENSES, applyDefenseModifiers, getDamageTakenMultiplier, type DefenseProfile } from './Defense';
+import { TERRAIN_EFFECTS, type TerrainKind } from './Terrain';
+
+// Directions tried (relative to the intended step) when sliding along an obstacle -
+// mirrored when the unit is following an edge the other way
+const OBSTACLE_SLIDE_ANGLES = [0, Math.PI / 4, -Math.PI / 4, Math.PI / 2, -Math.PI / 2];
 
 export abstract class Fighter {
-  // Global aggro range multiplier - increases over time during battle
-  private static aggroRangeMultiplier: number = 1.0;
-  private static readonly BASE_AGGRO_RANGE: number = 121;
-
-  static getAggroRange(): number {
-    return Fighter.BASE_AGGRO_RANGE * Fighter.aggroRangeMultiplier;
-  }
-
-  static increaseAggroRange(multiplier: number): void {
-    Fighter.aggroRangeMultiplier *= multiplier;
-  }
-
-  static resetAggroRange(): void {
-    Fighter.aggroRangeMultiplier = 1.0;
-  }
-
   x: number;
   y: number;
   team: Team;
@@ -45,11 +29,12 @@ export abstract class Fighter {
   attackRange: number;
   baseAttackCooldown: number;
   attackCooldown: number;
-  lastAttackTime: number = 0;
+  lastAttackTime: number = -Infinity;
   width: number = 4;
   height: number = 5;
   isDead: boolean = false;
   isBoss: boolean = false;
+  isStealthed: boolean = false; // Stealthed units can't be picked as a target (area damage still hits them)
   target: Fighter | null = null;
   modifiers: TeamModifiers | null = null;
   taunter: Fighter | null = null; // Used by Knight's taunt ability
@@ -67,20 +52,28 @@ export abstract class Fighter {
   arenaCenterX: number = 600;
   arenaCenterY: number = 400;
 
+  // Per-battle state (slots, stats, damage numbers, aggro, clock, RNG) - replaced by the owning battle
+  context: BattleContext = new BattleContext();
+
   // Attack slot system state
   attackState: AttackState = AttackState.IDLE;
   private waitingStartTime: number = 0;
 
-  statusEffects: StatusEffects = {
-    burning: 0,
-    poison: 0,
-    frozen: 0,
-    frozenUntil: 0,
-    void: 0,
-    death: 0
-  };
+  statusEffects: StatusEffectSet = new StatusEffectSet();
+  shields: ShieldLayer = new ShieldLayer();
+
+  private lastStatusTick: number = -Infinity;
 
-  private lastStatusTick: number = 0;
+  // Terrain under the unit this tick, and its speed/range before that tile's effect
+  terrain: TerrainKind | null = null;
+  private offTerrainSpeed: number = 0;
+  private offTerrainRange: number = 0;
+  private lastTerrainTick: number = -Infinity;
+  // Which way to turn when sliding along an edge (1 = counterclockwise)
+  private slideSide: number = 1;
+
+  // Armor and resistances with card bonuses - resolved on first use (getType isn't available in the constructor)
+  private defense: DefenseProfile | null = null;
 
   protected animationFrame: number = 0;
   protected animationTimer: number = 0;
@@ -107,6 +100,7 @@ export abstract class Fighter {
 
   applyModifiers(modifiers: TeamModifiers): void {
     this.modifiers = modifiers;
+    this.defense = null;
     const type = this.getType();
 
     // Apply health multiplier
@@ -125,6 +119,12 @@ export abstract class Fighter {
 
     // Apply attack speed multiplier (higher = faster, so divide cooldown)
     this.attackCooldown = this.baseAttackCooldown / modifiers.attackSpeedMultiplier;
+
+    // Starting shield (share of max health, lasts the whole battle)
+    const startingShield = modifiers.getStartingShield(type);
+    if (startingShield > 0) {
+      this.addShield(this.maxHealth * startingShield, Infinity, 'card');
+    }
   }
 
   // Store nearby units for pathfinding
@@ -134,7 +134,7 @@ export abstract class Fighter {
   update(enemies: Fighter[], deltaTime: number, allies?: Fighter[], skipTargetFind: boolean = false): void {
     if (this.isDead) {
       // Release any slot we had when we die
-      SlotManager.releaseSlot(this);
+      this.context.slots.releaseSlot(this);
       return;
     }
 
@@ -145,13 +145,16 @@ export abstract class Fighter {
     // Process status effects
     this.processStatusEffects(deltaTime);
 
-    // Check if frozen
-    if (Date.now() < this.statusEffects.frozenUntil) {
+    if (this.isFrozen()) {
       return; // Can't act while frozen
     }
 
+    if (this.context.displacement.isDisplaced(this)) {
+      return; // Can't act while being knocked back or pulled
+    }
+
     // Regeneration from modifiers (base 2 HP/sec * multiplier)
-    if (this.modifiers && this.modifiers.regenMultiplier > 1) {
+    if (this.modifiers && this.modifiers.regenMultiplier > 1 && !this.context.healingDisabled) {
       const baseRegen = 2;
       const regenPerFrame = (baseRegen * this.modifiers.regenMultiplier * deltaTime) / 1000;
       this.health = Math.min(this.maxHealth, this.health + regenPerFrame);
@@ -171,7 +174,7 @@ export abstract class Fighter {
     // No target - idle state, move forward
     if (!this.target || this.target.isDead) {
       this.attackState = AttackState.IDLE;
-      SlotManager.releaseSlot(this);
+      this.context.slots.releaseSlot(this);
       this.moveForward();
       return;
     }
@@ -179,11 +182,11 @@ export abstract class Fighter {
     // We have a target - use slot-based positioning
     // Slots are pre-assigned by greedy FCFS algorithm in BattleArena
     // (closest units to target pick their closest slot first)
-    let assignment = SlotManager.getAssignment(this);
+    let assignment = this.context.slots.getAssignment(this);
 
     // Check if assignment is for wrong target (target changed)
     if (assignment && assignment.targetFighter !== this.target) {
-      SlotManager.releaseSlot(this);
+      this.context.slots.releaseSlot(this);
       assignment = null;
     }
 
@@ -196,10 +199,10 @@ export abstract class Fighter {
 
       const distToTarget = this.getDistanceTo(this.target);
 
-      if (distToTarget <= this.attackRange) {
+      if (distToTarget <= this.attackRange && this.canSee(this.target)) {
         // Close enough to attack assigned target
         this.attackState = AttackState.ATTACKING;
-        SlotManager.occupySlot(this);
+        this.context.slots.occupySlot(this);
         this.attack(this.target, enemies);
         this.applySeparation();
       } else {
@@ -217,23 +220,24 @@ export abstract class Fighter {
           this.moveToSlot(assignment.slot);
         } else {
           // At slot but target out of range - move towards target directly
-          SlotManager.updateSlotPositions(this.target, this.attackRange);
+          this.context.slots.updateSlotPositions(this.target, this.attackRange);
           this.moveTowardsWithAvoidance(this.target);
         }
       }
     } else {
       // No slot available - try to get one while we wait
-      const allUnits = [...this.nearbyAllies, ...this.nearbyEnemies];
-      const slot = SlotManager.findBestSlot(this, this.target, allUnits);
+      // (with a spatial index, slot blocking queries the index instead of this list)
+      const allUnits = this.context.spatialIndex ? [] : [...this.nearbyAllies, ...this.nearbyEnemies];
+      const slot = this.context.slots.findBestSlot(this, this.target, allUnits);
       if (slot) {
-        SlotManager.reserveSlot(this, slot, this.target, false);
-        assignment = SlotManager.getAssignment(this);
+        this.context.slots.reserveSlot(this, slot, this.target, false);
+        assignment = this.context.slots.getAssignment(this);
       } else {
         // Try queue slot as fallback
-        const queueSlots = SlotManager.getOrCreateQueueSlots(this.target, this.attackRange);
+        const queueSlots = this.context.slots.getOrCreateQueueSlots(this.target, this.attackRange);
         for (const qSlot of queueSlots) {
-          if (SlotManager.reserveSlot(this, qSlot, this.target, true)) {
-            assignment = SlotManager.getAssignment(this);
+          if (this.context.slots.reserveSlot(this, qSlot, this.target, true)) {
+            assignment = this.context.slots.getAssignment(this);
             break;
           }
         }
@@ -259,10 +263,10 @@ export abstract class Fighter {
 
           if (!wasWaiting) {
             // Just started waiting - record the time
-            this.waitingStartTime = Date.now();
+            this.waitingStartTime = this.context.clock.now();
           }
 
-          const waitDuration = Date.now() - this.waitingStartTime;
+          const waitDuration = this.context.clock.now() - this.waitingStartTime;
           if (waitDuration >= 2000) {
             // Waited long enough, move towards the fight
             this.moveForward();
@@ -273,51 +277,65 @@ export abstract class Fighter {
     }
   }
 
-  private processStatusEffects(_deltaTime: number): void {
-    const now = Date.now();
-    if (now - this.lastStatusTick < 1000) return;
-    this.lastStatusTick = now;
-
-    // Burn damage (orange)
-    if (this.statusEffects.burning > 0) {
-      const burnDamage = this.statusEffects.burning;
-      this.health -= burnDamage;
-      DamageNumberManager.spawn(this.x, this.y - 10, burnDamage, '#ff6600');
-      DPSTracker.recordDamage('swordsman', 'fire', burnDamage);
-      this.statusEffects.burning = Math.max(0, this.statusEffects.burning - 1);
+  // Called by the battle every tick with the terrain under the unit
+  updateTerrain(kind: TerrainKind | null): void {
+    if (kind !== this.terrain) {
+      // Stepping onto terrain from plain ground - remember the unmodified stats
+      if (this.terrain === null) {
+        this.offTerrainSpeed = this.speed;
+        this.offTerrainRange = this.attackRange;
+      }
+      this.terrain = kind;
+      const effect = kind ? TERRAIN_EFFECTS[kind] : null;
+      this.speed = this.offTerrainSpeed * (effect?.speedMultiplier ?? 1);
+      this.attackRange = this.offTerrainRange * (effect?.rangeMultiplier ?? 1);
     }
 
-    // Poison damage (green)
-    if (this.statusEffects.poison > 0) {
-      const poisonDamage = this.statusEffects.poison;
-      this.health -= poisonDamage;
-      DamageNumberManager.spawn(this.x, this.y - 10, poisonDamage, '#22c55e');
-      DPSTracker.recordDamage('archer', 'poison', poisonDamage);
-      this.statusEffects.poison = Math.max(0, this.statusEffects.poison - 0.5);
+    // Lava keeps stoking the flames once per status tick
+    const burn = kind ? TERRAIN_EFFECTS[kind].burnPerTick : 0;
+    const now = this.context.clock.now();
+    if (burn > 0 && now - this.lastTerrainTick >= STATUS_TICK_INTERVAL) {
+      this.lastTerrainTick = now;
+      this.applyStatus('burning', burn);
     }
+  }
 
-    // Void damage (purple)
-    if (this.statusEffects.void > 0) {
-      const voidDamage = this.statusEffects.void;
-      this.health -= voidDamage;
-      DamageNumberManager.spawn(this.x, this.y - 10, voidDamage, '#a855f7');
-      DPSTracker.recordDamage('mage', 'void', voidDamage);
-      this.statusEffects.void = Math.max(0, this.statusEffects.void - 1.2);
-    }
+  // Tick status effects once per STATUS_TICK_INTERVAL - the rules live in the StatusEffects registry
+  protected processStatusEffects(_deltaTime: number): void {
+    const now = this.context.clock.now();
+    if (now - this.lastStatusTick < STATUS_TICK_INTERVAL) return;
+    this.lastStatusTick = now;
 
-    // Death damage (white/gray) - 1 DPS, stacks represent seconds remaining
-    if (this.statusEffects.death > 0) {
-      const deathDamage = 1;
-      this.health -= deathDamage;
-      DamageNumberManager.spawn(this.x, this.y - 10, deathDamage, '#e5e5e5');
-      DPSTracker.recordDamage('wraith', 'death', deathDamage);
-      this.statusEffects.death = Math.max(0, this.statusEffects.death - 1);
+    for (const { definition, damage } of this.statusEffects.tick(now)) {
+      const scaled = this.scaleStatusDamage(damage, definition.kind);
+      if (scaled > 0 && definition.damageType) {
+        const taken = scaled * getDamageTakenMultiplier(this.getDefense(), definition.damageType);
+        this.takeStatusDamage(taken, definition.damageType, scaled - taken);
+      }
     }
 
-    if (this.health <= 0) {
-      this.health = 0;
-      this.isDead = true;
+    this.checkDeath();
+  }
+
+  // Hook for units that resist status damage
+  protected scaleStatusDamage(damage: number, _kind: StatusKind): number {
+    return damage;
+  }
+
+  // Default armor/resistances for this unit before card bonuses
+  protected getBaseDefense(): DefenseProfile {
+    return UNIT_DEFENSES[this.getType()];
+  }
+
+  getDefense(): DefenseProfile {
+    if (!this.defense) {
+      this.defense = applyDefenseModifiers(this.getBaseDefense(), this.getType(), this.modifiers);
     }
+    return this.defense;
+  }
+
+  isFrozen(): boolean {
+    return this.statusEffects.preventsActing(this.context.clock.now());
   }
 
   findTarget(enemies: Fighter[]): void {
@@ -328,24 +346,29 @@ export abstract class Fighter {
     }
     this.taunter = null; // Clear dead taunter
 
-    const aliveEnemies = enemies.filter(e => !e.isDead);
-    if (aliveEnemies.length === 0) {
-      this.target = null;
-      return;
-    }
-
     // Aggro range - only target enemies within this distance (increases over time)
-    const aggroRange = Fighter.getAggroRange();
+    const aggroRange = this.context.getAggroRange();
 
     // Simple targeting: find the closest enemy within aggro range
     let closest: Fighter | null = null;
-    let closestDist = Infinity;
 
-    for (const enemy of aliveEnemies) {
-      const dist = this.getDistanceTo(enemy);
-      if (dist <= aggroRange && dist < closestDist) {
-        closest = enemy;
-        closestDist = dist;
+    if (this.context.spatialIndex) {
+      closest = this.context.spatialIndex.findNearest(this.x, this.y, aggroRange,
+        other => other.team !== this.team && !other.isDead && !other.isStealthed);
+    } else {
+      const aliveEnemies = enemies.filter(e => !e.isDead && !e.isStealthed);
+      if (aliveEnemies.length === 0) {
+        this.target = null;
+        return;
+      }
+
+      let closestDist = Infinity;
+      for (const enemy of aliveEnemies) {
+        const dist = this.getDistanceTo(enemy);
+        if (dist <= aggroRange && dist < closestDist) {
+          closest = enemy;
+          closestDist = dist;
+        }
       }
     }
 
@@ -353,20 +376,98 @@ export abstract class Fighter {
     this.focusedEnemyTeam = closest?.team || null;
   }
 
+  // Units within radius for steering - uses the spatial index when the battle provides one
+  protected getNearbyUnits(radius: number): Fighter[] {
+    if (this.context.spatialIndex) {
+      return this.context.spatialIndex.queryRadius(this.x, this.y, radius);
+    }
+    return [...this.nearbyAllies, ...this.nearbyEnemies];
+  }
+
   protected getDistanceTo(other: Fighter): number {
     const dx = other.x - this.x;
     const dy = other.y - this.y;
     return Math.sqrt(dx * dx + dy * dy);
   }
 
+  // Step by (dx, dy), sliding along obstacles and hazards instead of walking into them
+  protected moveBy(dx: number, dy: number): void {
+    const context = this.context;
+    // Units already on impassable ground (spawned or shoved there) walk out freely
+    if ((!context.grid?.hasObstacles() && !context.arena) || context.isImpassable(this.x, this.y)) {
+      this.x += dx;
+      this.y += dy;
+      return;
+    }
+
+    for (const turn of OBSTACLE_SLIDE_ANGLES) {
+      const angle = turn * this.slideSide;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      const stepX = dx * cos - dy * sin;
+      const stepY = dx * sin + dy * cos;
+      if (!context.isImpassable(this.x + stepX, this.y + stepY)) {
+        // Had to turn the other way - keep following the edge that way
+        if (turn < 0) this.slideSide = -this.slideSide;
+        this.x += stepX;
+        this.y += stepY;
+        return;
+      }
+    }
+    // Boxed in - stay put
+  }
+
+  // Sideways push away from an obstacle or hazard on the path ahead (zero when the way is clear)
+  protected getObstacleAvoidance(dirX: number, dirY: number): { x: number; y: number } {
+    const context = this.context;
+    const grid = context.grid;
+    if (!grid?.hasObstacles() && !context.arena) return { x: 0, y: 0 };
+
+    const hexSize = grid?.getHexSize() ?? 20;
+    const perpX = -dirY;
+    const perpY = dirX;
+    for (const lookAhead of [hexSize, hexSize * 2]) {
+      const aheadX = this.x + dirX * lookAhead;
+      const aheadY = this.y + dirY * lookAhead;
+      if (!context.isImpassable(aheadX, aheadY)) continue;
+
+      // Steer towards whichever side is open, harder when the blockage is close
+      const strength = lookAhead === hexSize ? 1.5 : 0.8;
+      const leftOpen = !context.isImpassable(aheadX + perpX * lookAhead, aheadY + perpY * lookAhead);
+      const rightOpen = !context.isImpassable(aheadX - perpX * lookAhead, aheadY - perpY * lookAhead);
+      let side: number;
+      if (leftOpen !== rightOpen) {
+        side = leftOpen ? 1 : -1;
+      } else if (grid?.isBlockedAt(aheadX, aheadY)) {
+        // Go round the blocked cell on the side we're already on
+        const center = grid.hexToPixel(grid.hexAt(aheadX, aheadY));
+        side = (center.x - this.x) * perpX + (center.y - this.y) * perpY > 0 ? -1 : 1;
+      } else {
+        side = this.slideSide;
+      }
+      return { x: perpX * strength * side, y: perpY * strength * side };
+    }
+    return { x: 0, y: 0 };
+  }
+
+  // Ranged units can't shoot through obstacles, and forest gives cover against them
+  isRanged(): boolean {
+    return false;
+  }
+
+  canSee(target: Fighter): boolean {
+    const grid = this.context.grid;
+    if (!grid || !this.isRanged()) return true;
+    return grid.hasLineOfSight(this.x, this.y, target.x, target.y);
+  }
+
   protected moveTowards(target: Fighter): void {
     const dx = target.x - this.x;
     const dy = target.y - this.y;
     const distance = Math.sqrt(dx * dx + dy * dy);
 
     if (distance > 0) {
-      this.x += (dx / distance) * this.speed;
-      this.y += (dy / distance) * this.speed;
+      this.moveBy((dx / distance) * this.speed, (dy / distance) * this.speed);
     }
   }
 
@@ -450,7 +551,7 @@ export abstract class Fighter {
     let avoidX = 0;
     let avoidY = 0;
 
-    const allUnits = [...this.nearbyAllies, ...this.nearbyEnemies];
+    const allUnits = this.getNearbyUnits(lookAhead);
 
     for (const other of allUnits) {
       if (other === this || other.isDead || other === target) continue;
@@ -482,8 +583,11 @@ export abstract class Fighter {
       }
     }
 
-    let moveX = desiredX * 0.7 + avoidX * 1.2;
-    let moveY = desiredY * 0.7 + avoidY * 1.2;
+    // Steer around rocks and walls ahead
+    const obstacleAvoid = this.getObstacleAvoidance(desiredX, desiredY);
+
+    let moveX = desiredX * 0.7 + avoidX * 1.2 + obstacleAvoid.x;
+    let moveY = desiredY * 0.7 + avoidY * 1.2 + obstacleAvoid.y;
 
     // Boundary avoidance
     const boundaryRadius = 500;
@@ -501,8 +605,7 @@ export abstract class Fighter {
     // Normalize and move
     const moveMag = Math.sqrt(moveX * moveX + moveY * moveY);
     if (moveMag > 0) {
-      this.x += (moveX / moveMag) * this.speed;
-      this.y += (moveY / moveMag) * this.speed;
+      this.moveBy((moveX / moveMag) * this.speed, (moveY / moveMag) * this.speed);
     }
 
     // Hard clamp
@@ -543,7 +646,7 @@ export abstract class Fighter {
     let avoidX = 0;
     let avoidY = 0;
 
-    const allUnits = [...this.nearbyAllies, ...this.nearbyEnemies];
+    const allUnits = this.getNearbyUnits(lookAhead);
 
     for (const other of allUnits) {
       if (other === this || other.isDead) continue;
@@ -575,8 +678,11 @@ export abstract class Fighter {
       }
     }
 
-    let moveX = desiredX * 0.7 + avoidX * 1.2;
-    let moveY = desiredY * 0.7 + avoidY * 1.2;
+    // Steer around rocks and walls ahead
+    const obstacleAvoid = this.getObstacleAvoidance(desiredX, desiredY);
+
+    let moveX = desiredX * 0.7 + avoidX * 1.2 + obstacleAvoid.x;
+    let moveY = desiredY * 0.7 + avoidY * 1.2 + obstacleAvoid.y;
 
     // Boundary avoidance
     const boundaryRadius = 500;
@@ -594,8 +700,7 @@ export abstract class Fighter {
     // Normalize and move
     const moveMag = Math.sqrt(moveX * moveX + moveY * moveY);
     if (moveMag > 0) {
-      this.x += (moveX / moveMag) * this.speed;
-      this.y += (moveY / moveMag) * this.speed;
+      this.moveBy((moveX / moveMag) * this.speed, (moveY / moveMag) * this.speed);
     }
 
     // Hard clamp
@@ -626,7 +731,7 @@ export abstract class Fighter {
     let avoidX = 0;
     let avoidY = 0;
 
-    const allUnits = [...this.nearbyAllies, ...this.nearbyEnemies];
+    const allUnits = this.getNearbyUnits(lookAhead);
 
     for (const other of allUnits) {
       if (other === this || other.isDead || other === target) continue;
@@ -666,9 +771,12 @@ export abstract class Fighter {
       }
     }
 
+    // Steer around rocks and walls ahead
+    const obstacleAvoid = this.getObstacleAvoidance(desiredX, desiredY);
+
     // Combine desired direction with avoidance
-    let moveX = desiredX * 0.7 + avoidX * 1.5;
-    let moveY = desiredY * 0.7 + avoidY * 1.5;
+    let moveX = desiredX * 0.7 + avoidX * 1.5 + obstacleAvoid.x;
+    let moveY = desiredY * 0.7 + avoidY * 1.5 + obstacleAvoid.y;
 
     // Boundary avoidance
     const boundaryRadius = 500;
@@ -686,8 +794,7 @@ export abstract class Fighter {
     // Normalize and move
     const moveMag = Math.sqrt(moveX * moveX + moveY * moveY);
     if (moveMag > 0) {
-      this.x += (moveX / moveMag) * this.speed;
-      this.y += (moveY / moveMag) * this.speed;
+      this.moveBy((moveX / moveMag) * this.speed, (moveY / moveMag) * this.speed);
     }
 
     // Hard clamp to arena bounds
@@ -712,8 +819,7 @@ export abstract class Fighter {
     const moveX = toCenterX / toCenterDist;
     const moveY = toCenterY / toCenterDist;
 
-    this.x += moveX * this.speed;
-    this.y += moveY * this.speed;
+    this.moveBy(moveX * this.speed, moveY * this.speed);
 
     // Hard clamp to arena bounds
     const maxDist = 540;
@@ -734,7 +840,7 @@ export abstract class Fighter {
     // Critical hit check (base 5% * multiplier)
     const baseCritChance = 0.05;
     const critMultiplier = this.modifiers?.critChance || 1;
-    if (Math.random() < baseCritChance * critMultiplier) {
+    if (this.context.rng.chance(baseCritChance * critMultiplier)) {
       finalDamage *= 2;
       isCrit = true;
     }
@@ -749,37 +855,39 @@ export abstract class Fighter {
       if (type === 'swordsman' && this.modifiers.swordsmanFireOnHit) {
         const baseBurn = 3;
         const fireMultiplier = this.modifiers.fireDoTMultiplier;
-        target.statusEffects.burning += baseBurn * fireMultiplier;
+        target.applyStatus('burning', baseBurn * fireMultiplier, this);
       }
 
       // Knight: Frost (freeze chance) on hit
       if (type === 'knight' && this.modifiers.knightFrostOnHit) {
         const baseFreezeChance = 0.15;
         const frostMultiplier = this.modifiers.frostDurationMultiplier;
-        if (Math.random() < baseFreezeChance) {
+        if (this.context.rng.chance(baseFreezeChance)) {
           const baseDuration = 1500;
-          target.statusEffects.frozenUntil = Date.now() + baseDuration * frostMultiplier;
-          SoundManager.playFreeze();
+          target.applyStatus('frozen', baseDuration * frostMultiplier, this);
         }
       }
 
       // Lifesteal (multiplier - 1 = actual percentage, e.g., 1.2 = 20% lifesteal)
       if (this.modifiers.lifestealPercent > 1) {
         const lifestealPercent = this.modifiers.lifestealPercent - 1;
-        const healAmount = finalDamage * lifestealPercent;
-        this.health = Math.min(this.maxHealth, this.health + healAmount);
+        this.heal(finalDamage * lifestealPercent, this, 'lifesteal');
       }
 
       // Splash damage (base 20% * multiplier) - works for all units
       if (this.modifiers.splashMultiplier > 1 && allEnemies) {
         const baseSplash = 0.2;
-        for (const enemy of allEnemies) {
-          if (enemy === target || enemy.isDead) continue;
+        const splashRadius = 14;
+        const nearby = this.context.spatialIndex
+          ? this.context.spatialIndex.queryRadius(target.x, target.y, splashRadius)
+          : allEnemies;
+        for (const enemy of nearby) {
+          if (enemy === target || enemy.isDead || enemy.team === this.team) continue;
           const dx = target.x - enemy.x;
           const dy = target.y - enemy.y;
           const dist = Math.sqrt(dx * dx + dy * dy);
-          if (dist < 14) {
-            enemy.takeDamage(finalDamage * baseSplash * this.modifiers.splashMultiplier, this);
+          if (dist < splashRadius) {
+            enemy.takeDamage(finalDamage * baseSplash * this.modifiers.splashMultiplier, this, false, 'splash');
           }
         }
       }
@@ -787,7 +895,7 @@ export abstract class Fighter {
   }
 
   protected attack(target: Fighter, allEnemies?: Fighter[]): void {
-    const now = Date.now();
+    const now = this.context.clock.now();
     if (now - this.lastAttackTime >= this.attackCooldown) {
       this.dealDamage(target, this.damage, allEnemies);
       this.lastAttackTime = now;
@@ -795,14 +903,59 @@ export abstract class Fighter {
   }
 
   isFlashing(): boolean {
-    return Date.now() < this.damageFlashUntil;
+    return this.context.clock.now() < this.damageFlashUntil;
   }
 
-  takeDamage(amount: number, attacker?: Fighter, isCrit: boolean = false, damageType: DamageType = 'physical'): void {
-    this.health -= amount;
+  // Pack the drawable state into a BattleSnapshot fighter record (FIGHTER_STRIDE values)
+  writeSnapshot(data: Float32Array, offset: number): void {
+    let flags = 0;
+    if (this.isDead) flags |= FighterFlag.dead;
+    if (this.isFlashing()) flags |= FighterFlag.flashing;
+    if (this.shields.has('taunt', this.context.clock.now())) flags |= FighterFlag.tauntShield;
+    if (this.isStealthed) flags |= FighterFlag.stealthed;
+
+    data[offset] = this.x;
+    data[offset + 1] = this.y;
+    data[offset + 2] = this.health;
+    data[offset + 3] = flags;
+    data[offset + 4] = this.animationFrame;
+    data[offset + 5] = this.getShield();
+    this.statusEffects.writeSnapshot(data, offset + FIGHTER_STATUS_OFFSET, this.context.clock.now());
+  }
+
+  // Mirror a snapshot record onto this display-only copy (worker mode - never updated locally)
+  applySnapshot(data: Float32Array, offset: number): void {
+    const flags = data[offset + 3];
+    this.x = data[offset];
+    this.y = data[offset + 1];
+    this.health = data[offset + 2];
+    this.isDead = (flags & FighterFlag.dead) !== 0;
+    this.damageFlashUntil = (flags & FighterFlag.flashing) !== 0 ? Infinity : 0;
+    this.isStealthed = (flags & FighterFlag.stealthed) !== 0;
+    this.animationFrame = data[offset + 4];
+    this.shields.applySnapshot(data[offset + 5], (flags & FighterFlag.tauntShield) !== 0);
+    this.statusEffects.applySnapshot(data, offset + FIGHTER_STATUS_OFFSET);
+  }
+
+  takeDamage(
+    amount: number, attacker?: Fighter, isCrit: boolean = false, damageType: DamageType = 'physical',
+    godPower: GodPowerType | null = null
+  ): void {
+    // Armor (less the attacker's penetration) or the matching resistance
+    const penetration = attacker?.modifiers?.armorPenetration ?? 0;
+    let taken = amount * getDamageTakenMultiplier(this.getDefense(), damageType, penetration);
+    // Only armor and resistances count as blocked - cover and overtime scaling below aren't
+    const mitigated = amount - taken;
+    // Forest cover against arrows and bolts
+    if (this.terrain && attacker?.isRanged()) {
+      taken *= TERRAIN_EFFECTS[this.terrain].rangedDamageTaken;
+    }
+    taken *= this.context.damageMultiplier;
+    const absorbed = this.shields.absorb(taken, this.context.clock.now());
+    this.health -= taken - absorbed;
 
     // Trigger damage flash
-    this.damageFlashUntil = Date.now() + 100;
+    this.damageFlashUntil = this.context.clock.now() + 100;
 
     // Track who last damaged this unit (for kill credit)
     if (attacker) {
@@ -810,50 +963,110 @@ export abstract class Fighter {
       this.lastAttackerType = attacker.getType();
     }
 
-    // Record damage to DPS tracker
-    if (attacker) {
-      const unitType = this.mapFighterToUnitType(attacker);
-      DPSTracker.recordDamage(unitType, damageType, amount);
-    }
-
-    // Play hit sound
-    if (isCrit) {
-      SoundManager.playCritical();
-    } else {
-      SoundManager.playHit();
-    }
-
-    // Spawn floating damage number (yellow for crit, white otherwise)
-    const color = isCrit ? '#fbbf24' : '#ffffff';
-    DamageNumberManager.spawn(this.x, this.y - 10, amount, color);
+    this.context.events.emit('damage', {
+      target: this, attacker: attacker ?? null, amount: taken, mitigated, absorbed, damageType, isCrit,
+      source: godPower ? 'god_power' : 'attack', godPower
+    });
 
     // Thorns damage (base 5 dmg * multiplier)
     if (this.modifiers && this.modifiers.thornsMultiplier > 1 && attacker) {
       const baseThorns = 5;
       const thornsDamage = baseThorns * this.modifiers.thornsMultiplier;
       attacker.health -= thornsDamage;
-      DamageNumberManager.spawn(attacker.x, attacker.y - 10, thornsDamage);
-      if (attacker.health <= 0) {
-        attacker.health = 0;
-        attacker.isDead = true;
-      }
+      this.context.events.emit('damage', {
+        target: attacker, attacker: this, amount: thornsDamage, mitigated: 0, absorbed: 0, damageType: 'physical', isCrit: false,
+        source: 'thorns', godPower: null
+      });
+      attacker.checkDeath();
     }
 
-    if (this.health <= 0) {
-      this.health = 0;
-      this.isDead = true;
-      SoundManager.playDeath();
-    }
+    this.checkDeath();
+  }
+
+  // Damage-over-time tick: no flash, and kill credit stays with whoever last hit us
+  protected takeStatusDamage(amount: number, damageType: DamageType, mitigated: number = 0): void {
+    const taken = amount * this.context.damageMultiplier;
+    const absorbed = this.shields.absorb(taken, this.context.clock.now());
+    this.health -= taken - absorbed;
+    this.context.events.emit('damage', {
+      target: this, attacker: null, amount: taken, mitigated, absorbed, damageType, isCrit: false, source: 'status', godPower: null
+    });
   }
 
-  private mapFighterToUnitType(fighter: Fighter): UnitType {
-    const type = fighter.getType();
-    if (fighter.isBoss) {
-      // Check if it's a wraith or boss based on class name or type
-      if (type === 'mage' && fighter.isBoss) return 'wraith';
-      return 'boss';
+  // Slammed into a wall (or something else solid) - armor applies, kill credit goes to whoever caused it
+  takeImpactDamage(amount: number, source: Fighter | null, godPower: GodPowerType | null = null): void {
+    if (this.isDead || amount <= 0) return;
+    const taken = amount * getDamageTakenMultiplier(this.getDefense(), 'physical');
+    const absorbed = this.shields.absorb(taken, this.context.clock.now());
+    this.health -= taken - absorbed;
+    this.damageFlashUntil = this.context.clock.now() + 100;
+    if (source) {
+      this.lastAttackerTeam = source.team;
+      this.lastAttackerType = source.getType();
     }
-    return type as UnitType;
+    this.context.events.emit('damage', {
+      target: this, attacker: source, amount: taken, mitigated: amount - taken, absorbed,
+      damageType: 'physical', isCrit: false, source: 'impact', godPower
+    });
+    this.checkDeath();
+  }
+
+  // Arena hazards and the safe zone ignore armor - kill credit stays with whoever last hit the unit
+  takeHazardDamage(amount: number, source: 'hazard' | 'zone' = 'hazard'): void {
+    if (this.isDead || amount <= 0) return;
+    const absorbed = this.shields.absorb(amount, this.context.clock.now());
+    this.health -= amount - absorbed;
+    this.damageFlashUntil = this.context.clock.now() + 100;
+    this.context.events.emit('damage', {
+      target: this, attacker: null, amount, mitigated: 0, absorbed,
+      damageType: 'physical', isCrit: false, source, godPower: null
+    });
+    this.checkDeath();
+  }
+
+  // Mark the unit dead once health runs out - announces the death only once
+  protected checkDeath(): void {
+    if (this.health > 0) return;
+    this.health = 0;
+    if (this.isDead) return;
+    this.isDead = true;
+    this.context.events.emit('death', {
+      fighter: this, killerTeam: this.lastAttackerTeam, killerType: this.lastAttackerType
+    });
+  }
+
+  // Restore health (capped at max) - returns the amount actually restored
+  heal(amount: number, healer: Fighter | null, source: HealSource, godPower: GodPowerType | null = null): number {
+    if (this.context.healingDisabled) return 0;
+    const before = this.health;
+    this.health = Math.min(this.maxHealth, this.health + amount);
+    const healed = Math.max(0, this.health - before);
+    this.context.events.emit('heal', { target: this, healer, amount: healed, source, godPower });
+    return healed;
+  }
+
+  // Absorb shield on top of health - soaks damage until it runs out or expires
+  addShield(
+    amount: number, duration: number, source: ShieldSource, grantedBy: Fighter | null = null,
+    godPower: GodPowerType | null = null
+  ): void {
+    if (amount <= 0) return;
+    this.shields.add(amount, duration, source, this.context.clock.now());
+    this.context.events.emit('shield_applied', { target: this, grantedBy, amount, duration, source, godPower });
+  }
+
+  getShield(): number {
+    return this.shields.getTotal(this.context.clock.now());
+  }
+
+  // amount is stacks, or ms for timed effects - the registry decides how it stacks
+  applyStatus(status: StatusKind, amount: number, source: Fighter | null = null): void {
+    this.statusEffects.apply(status, amount, this.context.clock.now());
+    this.context.events.emit('status_applied', { target: this, source, status, amount });
+  }
+
+  protected announceAbility(ability: AbilityKind): void {
+    this.context.events.emit('ability_triggered', { fighter: this, ability });
   }
 
   getPosition(): Position {
@@ -865,16 +1078,8 @@ export abstract class Fighter {
 
     const bobOffset = Math.sin(this.animationFrame * Math.PI / 2) * 0.5;
 
-    // Draw frozen effect
-    if (Date.now() < this.statusEffects.frozenUntil) {
-      ctx.fillStyle = 'rgba(135, 206, 235, 0.5)';
-      ctx.fillRect(
-        this.x - this.width / 2 - 1,
-        this.y - this.height / 2 + bobOffset - 1,
-        this.width + 2,
-        this.height + 2
-      );
-    }
+    // Status visuals that sit beneath the body (frozen)
+    this.statusEffects.draw(ctx, this, bobOffset, this.context.clock.now(), { small: true, layer: 'under' });
 
     // Draw unit as small colored square with team outline
     ctx.fillStyle = this.getColor();
@@ -895,96 +1100,14 @@ export abstract class Fighter {
       this.height
     );
 
-    // Draw burn effect (smaller)
-    if (this.statusEffects.burning > 0) {
-      ctx.fillStyle = 'rgba(255, 100, 0, 0.6)';
-      ctx.beginPath();
-      ctx.arc(this.x, this.y + bobOffset, 5, 0, Math.PI * 2);
-      ctx.fill();
-    }
-
-    // Draw poison effect (smaller)
-    if (this.statusEffects.poison > 0) {
-      ctx.fillStyle = 'rgba(100, 255, 0, 0.4)';
-      ctx.beginPath();
-      ctx.arc(this.x, this.y + 2 + bobOffset, 4, 0, Math.PI * 2);
-      ctx.fill();
-    }
-
-    // Draw void effect (smaller)
-    if (this.statusEffects.void > 0) {
-      ctx.fillStyle = 'rgba(139, 92, 246, 0.5)';
-      ctx.beginPath();
-      ctx.arc(this.x, this.y - 1 + bobOffset, 5, 0, Math.PI * 2);
-      ctx.fill();
-    }
+    this.statusEffects.draw(ctx, this, bobOffset, this.context.clock.now(), { small: true, layer: 'over' });
 
     this.drawHealthBar(ctx);
   }
 
   protected drawStatusEffects(ctx: CanvasRenderingContext2D): void {
     const bobOffset = Math.sin(this.animationFrame * Math.PI / 2) * 2;
-
-    // Draw frozen effect
-    if (Date.now() < this.statusEffects.frozenUntil) {
-      ctx.fillStyle = 'rgba(135, 206, 235, 0.5)';
-      ctx.fillRect(
-        this.x - this.width / 2 - 3,
-        this.y - this.height / 2 + bobOffset - 3,
-        this.width + 6,
-        this.height + 6
-      );
-    }
-
-    // Draw burn effect
-    if (this.statusEffects.burning > 0) {
-      ctx.fillStyle = 'rgba(255, 100, 0, 0.6)';
-      ctx.beginPath();
-      ctx.arc(this.x, this.y + bobOffset, 12, 0, Math.PI * 2);
-      ctx.fill();
-    }
-
-    // Draw poison effect
-    if (this.statusEffects.poison > 0) {
-      ctx.fillStyle = 'rgba(100, 255, 0, 0.4)';
-      ctx.beginPath();
-      ctx.arc(this.x, this.y + 5 + bobOffset, 10, 0, Math.PI * 2);
-      ctx.fill();
-    }
-
-    // Draw void effect (purple)
-    if (this.statusEffects.void > 0) {
-      ctx.fillStyle = 'rgba(139, 92, 246, 0.5)';
-      ctx.beginPath();
-      ctx.arc(this.x, this.y - 3 + bobOffset, 11, 0, Math.PI * 2);
-      ctx.fill();
-    }
-
-    // Draw death effect - tiny skull above head
-    if (this.statusEffects.death > 0) {
-      const skullX = this.x;
-      const skullY = this.y - 22 + bobOffset;
-      const pulse = 0.8 + Math.sin(Date.now() / 200) * 0.2;
-
-      ctx.save();
-      ctx.globalAlpha = pulse;
-
-      // Skull (5x5 pixels, scaled down)
-      ctx.fillStyle = '#e5e5e5';
-      // Skull top
-      ctx.fillRect(skullX - 2, skullY - 3, 4, 2);
-      // Skull middle (wider)
-      ctx.fillRect(skullX - 3, skullY - 1, 6, 2);
-      // Skull bottom (jaw)
-      ctx.fillRect(skullX - 2, skullY + 1, 4, 1);
-
-      // Eye sockets (black)
-      ctx.fillStyle = '#1a1a1a';
-      ctx.fillRect(skullX - 2, skullY - 1, 1, 1);
-      ctx.fillRect(skullX + 1, skullY - 1, 1, 1);
-
-      ctx.restore();
-    }
+    this.statusEffects.draw(ctx, this, bobOffset, this.context.clock.now());
   }
 
   protected drawHealthBar(ctx: CanvasRenderingContext2D): void {
@@ -1006,6 +1129,23 @@ export abstract class Fighter {
     const healthPercent = this.health / this.maxHealth;
     const healthColor = healthPercent > 0.5 ? '#22c55e' : healthPercent > 0.25 ? '#eab308' : '#ef4444';
     ctx.fillStyle = healthColor;
-    ctx.fillRect(barX, barY, barWidth * healthPercent, barHeight);
+    ctx.fillRect(barX, barY, barWidth * this.health / this.getHealthBarScale(), barHeight);
+
+    this.drawShieldSegment(ctx, barX, barY, barWidth, barHeight);
+  }
+
+  // Health the full bar represents - grows past maxHealth while health + shield exceeds it
+  protected getHealthBarScale(): number {
+    return Math.max(this.maxHealth, this.health + this.getShield());
+  }
+
+  // Shield as its own segment straight after the health fill
+  protected drawShieldSegment(ctx: CanvasRenderingContext2D, barX: number, barY: number, barWidth: number, barHeight: number): void {
+    const shield = this.getShield();
+    if (shield <= 0) return;
+
+    const scale = this.getHealthBarScale();
+    ctx.fillStyle = '#e2e8f0';
+    ctx.fillRect(barX + barWidth * Math.max(0, this.health) / scale, barY, barWidth * shield / scale, barHeight);
   }
 }
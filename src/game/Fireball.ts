@@ -1,24 +1,32 @@
-import { Fighter } from './Fighter';
+import type { Fighter } from './Fighter';
 import { SoundManager } from './SoundManager';
 import type { Team } from './types';
-
-export class Fireball {
-  x: number;
-  y: number;
-  targetX: number;
-  targetY: number;
+import type { ProjectileSnapshot } from './BattleSnapshot';
+import type { Projectile, ProjectileWorld } from './ProjectileManager';
+import type { SeededRandom } from './SeededRandom';
+
+export class Fireball implements Projectile {
+  readonly kind = 'fireball';
+  x: number = 0;
+  y: number = 0;
+  targetX: number = 0;
+  targetY: number = 0;
   speed: number = 5;
-  damage: number;
-  team: Team;
-  target: Fighter;
-  shooter: Fighter | null;
+  damage: number = 0;
+  team: Team = 'red';
+  target!: Fighter;
+  shooter: Fighter | null = null;
+  // Battle RNG from the ProjectileManager so crit rolls stay reproducible
+  private rng!: SeededRandom;
   isDead: boolean = false;
-  angle: number;
+  angle: number = 0;
   explosionRadius: number = 30;
   isExploding: boolean = false;
   explosionFrame: number = 0;
 
-  constructor(x: number, y: number, target: Fighter, damage: number, team: Team, shooter?: Fighter) {
+  // (Re)initialise for a fresh or pooled fireball
+  launch(rng: SeededRandom, x: number, y: number, target: Fighter, damage: number, team: Team, shooter: Fighter | null): void {
+    this.rng = rng;
     this.x = x;
     this.y = y;
     this.target = target;
@@ -26,14 +34,21 @@ export class Fireball {
     this.targetY = target.y;
     this.damage = damage;
     this.team = team;
-    this.shooter = shooter || null;
+    this.shooter = shooter;
+    this.isDead = false;
+    this.isExploding = false;
+    this.explosionFrame = 0;
 
     const dx = this.targetX - this.x;
     const dy = this.targetY - this.y;
     this.angle = Math.atan2(dy, dx);
   }
 
-  update(enemies: Fighter[]): void {
+  release(): void {
+    this.shooter = null;
+  }
+
+  update(world: ProjectileWorld): void {
     if (this.isDead) return;
 
     if (this.isExploding) {
@@ -59,8 +74,9 @@ export class Fireball {
     const dy = this.targetY - this.y;
     const distance = Math.sqrt(dx * dx + dy * dy);
 
-    if (distance < 20) {
-      this.explode(enemies);
+    // Bursts on the target or on whatever obstacle is in the way
+    if (distance < 20 || world.isBlocked(this.x, this.y)) {
+      this.explode(world.enemiesOf(this.team));
     }
 
     if (this.x < -100 || this.x > 2000 || this.y < -100 || this.y > 1500) {
@@ -89,23 +105,33 @@ export class Fireball {
         // Critical hit check (base 5% * multiplier)
         const baseCritChance = 0.05;
         const critMultiplier = modifiers?.critChance || 1;
-        if (Math.random() < baseCritChance * critMultiplier) {
+        if (this.rng.chance(baseCritChance * critMultiplier)) {
           finalDamage *= 2;
           isCrit = true;
         }
 
-        enemy.takeDamage(finalDamage, this.shooter || undefined, isCrit);
+        enemy.takeDamage(finalDamage, this.shooter || undefined, isCrit, 'fire');
 
         // Apply lifesteal only (Fireball is currently unused but kept for reference)
         if (modifiers && modifiers.lifestealPercent > 1 && this.shooter) {
           const lifestealPercent = modifiers.lifestealPercent - 1;
-          const healAmount = finalDamage * lifestealPercent;
-          this.shooter.health = Math.min(this.shooter.maxHealth, this.shooter.health + healAmount);
+          this.shooter.heal(finalDamage * lifestealPercent, this.shooter, 'lifesteal');
         }
       }
     }
   }
 
+  toSnapshot(): ProjectileSnapshot {
+    return {
+      kind: 'fireball',
+      x: this.x,
+      y: this.y,
+      angle: this.angle,
+      impactFrame: this.isExploding ? this.explosionFrame : -1,
+      impactRadius: this.explosionRadius
+    };
+  }
+
   draw(ctx: CanvasRenderingContext2D): void {
     if (this.isDead) return;
 
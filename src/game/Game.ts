@@ -1,5 +1,4 @@
 import { Fighter } from './Fighter';
-import { DamageNumberManager } from './DamageNumber';
 import { Swordsman } from './Swordsman';
 import { Archer } from './Archer';
 import { Mage } from './Mage';
@@ -14,7 +13,7 @@ import { ALL_CARDS, TeamModifiers, pickRandomRarity } from './Card';
 import { SoundManager } from './SoundManager';
 import { Player } from './Player';
 import { Chest } from './Chest';
-import { DPSTracker } from './DPSTracker';
+import { BattleContext } from './BattleContext';
 import type { Card } from './Card';
 import type { BuildingChoice } from './Building';
 import type { Team, FighterType } from './types';
@@ -66,6 +65,8 @@ export class Game {
   private bossSpawnCount: number = 0;
   private topWraith: Wraith | null = null;
   private wraithSpawnCount: number = 0;
+  // Per-game stats, damage numbers and slot assignment shared by every unit
+  private context: BattleContext = new BattleContext();
 
   constructor(
     canvas: HTMLCanvasElement,
@@ -108,8 +109,11 @@ export class Game {
     // Create towers
     this.topTower = new Tower('blue', this.canvas.width, this.canvas.height);
     this.bottomTower = new Tower('red', this.canvas.width, this.canvas.height);
+    this.topTower.context = this.context;
+    this.bottomTower.context = this.context;
     // Create player for bottom team (player-controlled)
     this.player = new Player('red', this.canvas.width, this.canvas.height);
+    this.player.context = this.context;
     this.player.setModifiers(this.bottomModifiers);
     // Each team starts with building selection
     this.triggerSelection('blue', 'building');
@@ -132,7 +136,7 @@ export class Game {
     this.player = null;
     this.xpOrbs = [];
     this.chests = [];
-    DPSTracker.reset();
+    this.context = new BattleContext();
     this.topKills = 0;
     this.bottomKills = 0;
     this.topXP = 0;
@@ -147,7 +151,6 @@ export class Game {
     this.selectingForTeam = null;
     this.selectionType = null;
     this.pendingSelections = [];
-    DamageNumberManager.clear();
     this.clear();
     this.updateCountsCallback();
   }
@@ -243,6 +246,7 @@ export class Game {
         fighter = new Swordsman(team, x, this.canvas.height);
     }
 
+    fighter.context = this.context;
     fighter.applyModifiers(modifiers);
     return fighter;
   }
@@ -272,6 +276,7 @@ export class Game {
     const bossSpawnTimes = [180000]; // 3 min only
     if (this.bossSpawnCount < bossSpawnTimes.length && this.gameTime >= bossSpawnTimes[this.bossSpawnCount]) {
       this.topBoss = new Boss('blue', this.canvas.width / 2, this.canvas.height);
+      this.topBoss.context = this.context;
       this.bossSpawnCount++;
       SoundManager.playExplosion();
     }
@@ -280,6 +285,7 @@ export class Game {
     const wraithSpawnTimes = [180000]; // 3 min only
     if (this.wraithSpawnCount < wraithSpawnTimes.length && this.gameTime >= wraithSpawnTimes[this.wraithSpawnCount]) {
       this.topWraith = new Wraith('blue', this.canvas.width / 2, this.canvas.height);
+      this.topWraith.context = this.context;
       this.wraithSpawnCount++;
       SoundManager.playFireball();
     }
@@ -368,6 +374,16 @@ export class Game {
       this.player.update(deltaTime, this.canvas.width, this.canvas.height, aliveTop);
     }
 
+    // Update projectiles - they keep flying after their shooter dies
+    this.context.projectiles.update({
+      enemiesOf: team => (team === 'blue' ? bottomTargets : topTargets) as Fighter[],
+      alliesOf: team => team === 'blue' ? aliveTop : aliveBottom,
+      isBlocked: () => false // Open lanes - no obstacles
+    });
+
+    // Knockback and pulls from boss abilities (no arena wall in lane mode)
+    this.context.displacement.update(deltaTime, null);
+
     // Update XP orbs (pass player for attraction)
     for (const orb of this.xpOrbs) {
       const wasCollected = orb.collected;
@@ -389,7 +405,7 @@ export class Game {
     this.processDeaths();
 
     // Update damage numbers
-    DamageNumberManager.update(deltaTime);
+    this.context.damageNumbers.update(deltaTime);
 
     // Clean up dead fighters periodically
     this.topTeam = this.topTeam.filter(f => !f.isDead || !('processed' in f));
@@ -584,12 +600,17 @@ export class Game {
     const availableCards = ALL_CARDS.filter(card => {
       const e = card.effect;
 
+      // Arenas only exist in the six-team battle
+      if (e.arena) return false;
+
       // Filter out ability cards we already have
       if (e.archerFanAbility && modifiers.archerFanAbility) return false;
       if (e.swordsmanSweepAbility && modifiers.swordsmanSweepAbility) return false;
       if (e.knightTauntAbility && modifiers.knightTauntAbility) return false;
       if (e.mageVoidEruptionAbility && modifiers.mageVoidEruptionAbility) return false;
       if (e.healerPurifyAbility && modifiers.healerPurifyAbility) return false;
+      if (e.cavalryTrampleAbility && modifiers.cavalryTrampleAbility) return false;
+      if (e.assassinVanishAbility && modifiers.assassinVanishAbility) return false;
 
       // Filter out ability cards for units we don't have
       if (e.archerFanAbility && !ownedTypes.has('archer')) return false;
@@ -597,11 +618,20 @@ export class Game {
       if (e.knightTauntAbility && !ownedTypes.has('knight')) return false;
       if (e.mageVoidEruptionAbility && !ownedTypes.has('mage')) return false;
       if (e.healerPurifyAbility && !ownedTypes.has('healer')) return false;
+      if (e.cavalryTrampleAbility && !ownedTypes.has('cavalry')) return false;
+      if (e.assassinVanishAbility && !ownedTypes.has('assassin')) return false;
+
+      // Filter out armor and shield cards for a unit type we don't have
+      if (e.armorBonus && e.armorBonus.type !== 'all' && !ownedTypes.has(e.armorBonus.type)) return false;
+      if (e.startingShield && e.startingShield.type !== 'all' && !ownedTypes.has(e.startingShield.type)) return false;
 
       // Filter out healer-specific cards if we don't have healers
       if (e.healPowerMultiplier && !ownedTypes.has('healer')) return false;
       if (e.healAoeMultiplier && !ownedTypes.has('healer')) return false;
 
+      // Filter out cavalry charge cards if we don't have cavalry
+      if (e.cavalryChargeMultiplier && !ownedTypes.has('cavalry')) return false;
+
       // Filter out on-hit application cards we already have (can only pick once)
       if (e.archerPoisonOnHit && modifiers.archerPoisonOnHit) return false;
       if (e.swordsmanFireOnHit && modifiers.swordsmanFireOnHit) return false;
@@ -741,8 +771,11 @@ export class Game {
       this.player.draw(ctx);
     }
 
+    // Draw projectiles (after their shooters so they fly on top)
+    this.context.projectiles.draw(ctx);
+
     // Draw damage numbers
-    DamageNumberManager.draw(ctx);
+    this.context.damageNumbers.draw(ctx);
 
     // Draw XP bars
     this.drawXPBar('blue');
@@ -752,7 +785,7 @@ export class Game {
     this.drawClock();
 
     // Draw DPS tracker on the right
-    DPSTracker.draw(ctx, this.canvas.width - 150, 70);
+    this.context.dps.draw(ctx, this.canvas.width - 150, 70);
   }
 
   private drawClock(): void {
@@ -1,16 +1,22 @@
-import { Fighter } from './Fighter';
+import type { Fighter } from './Fighter';
 import { SoundManager } from './SoundManager';
 import type { Team } from './types';
-
-export class Ghost {
-  x: number;
-  y: number;
+import type { ProjectileSnapshot } from './BattleSnapshot';
+import type { Projectile, ProjectileWorld } from './ProjectileManager';
+import type { SeededRandom } from './SeededRandom';
+
+export class Ghost implements Projectile {
+  readonly kind = 'ghost';
+  x: number = 0;
+  y: number = 0;
   speed: number = 3;
-  damage: number;
-  team: Team;
-  shooter: Fighter | null;
+  damage: number = 0;
+  team: Team = 'red';
+  shooter: Fighter | null = null;
+  // Battle RNG from the ProjectileManager so crit rolls stay reproducible
+  private rng!: SeededRandom;
   isDead: boolean = false;
-  angle: number;
+  angle: number = 0;
   wobbleOffset: number = 0;
   trailParticles: { x: number; y: number; alpha: number }[] = [];
 
@@ -19,18 +25,32 @@ export class Ghost {
   chainTarget: Fighter | null = null;
   hitEnemies: Set<Fighter> = new Set();
 
-  constructor(x: number, y: number, angle: number, damage: number, team: Team, shooter?: Fighter) {
+  // (Re)initialise for a fresh or pooled ghost
+  launch(rng: SeededRandom, x: number, y: number, angle: number, damage: number, team: Team, shooter: Fighter | null): void {
+    this.rng = rng;
     this.x = x;
     this.y = y;
     this.angle = angle;
     this.damage = damage;
     this.team = team;
-    this.shooter = shooter || null;
+    this.shooter = shooter;
+    this.isDead = false;
+    this.wobbleOffset = 0;
+    this.isChaining = false;
+  }
+
+  release(): void {
+    this.shooter = null;
+    this.chainTarget = null;
+    this.hitEnemies.clear();
+    this.trailParticles = [];
   }
 
-  update(enemies: Fighter[]): void {
+  update(world: ProjectileWorld): void {
     if (this.isDead) return;
 
+    const enemies = world.enemiesOf(this.team);
+
     // Add trail particle
     if (Math.random() < 0.5) {
       this.trailParticles.push({
@@ -107,18 +127,17 @@ export class Ghost {
     this.hitEnemies.add(firstTarget);
 
     // Deal damage and apply death DoT (10 seconds) - skip structures
-    const isCrit = Math.random() < 0.1;
+    const isCrit = this.rng.chance(0.1);
     const finalDamage = isCrit ? this.damage * 2 : this.damage;
-    firstTarget.takeDamage(finalDamage, this.shooter || undefined, isCrit);
+    firstTarget.takeDamage(finalDamage, this.shooter || undefined, isCrit, 'death');
     if (!(firstTarget as any).isStructure) {
-      firstTarget.statusEffects.death = Math.max(firstTarget.statusEffects.death, 10);
+      firstTarget.applyStatus('death', 10, this.shooter);
     }
     SoundManager.playFreeze();
 
     // Life steal for the wraith
     if (this.shooter) {
-      const healAmount = Math.floor(finalDamage * 0.1);
-      this.shooter.health = Math.min(this.shooter.maxHealth, this.shooter.health + healAmount);
+      this.shooter.heal(Math.floor(finalDamage * 0.1), this.shooter, 'lifesteal');
     }
 
     // Find next target to chain to
@@ -137,17 +156,16 @@ export class Ghost {
 
     // Deal reduced damage per chain and apply death DoT (10 seconds) - skip structures
     this.damage *= 0.85;
-    const isCrit = Math.random() < 0.1;
+    const isCrit = this.rng.chance(0.1);
     const finalDamage = isCrit ? Math.floor(this.damage * 2) : Math.floor(this.damage);
-    this.chainTarget.takeDamage(finalDamage, this.shooter || undefined, isCrit);
+    this.chainTarget.takeDamage(finalDamage, this.shooter || undefined, isCrit, 'death');
     if (!(this.chainTarget as any).isStructure) {
-      this.chainTarget.statusEffects.death = Math.max(this.chainTarget.statusEffects.death, 10);
+      this.chainTarget.applyStatus('death', 10, this.shooter);
     }
 
     // Life steal
     if (this.shooter) {
-      const healAmount = Math.floor(finalDamage * 0.1);
-      this.shooter.health = Math.min(this.shooter.maxHealth, this.shooter.health + healAmount);
+      this.shooter.heal(Math.floor(finalDamage * 0.1), this.shooter, 'lifesteal');
     }
 
     // Find next target
@@ -182,6 +200,10 @@ export class Ghost {
     this.chainTarget = closest;
   }
 
+  toSnapshot(): ProjectileSnapshot {
+    return { kind: 'ghost', x: this.x, y: this.y, angle: this.angle, impactFrame: -1, impactRadius: 0 };
+  }
+
   draw(ctx: CanvasRenderingContext2D): void {
     if (this.isDead) return;
 
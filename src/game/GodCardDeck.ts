@@ -1,5 +1,7 @@
 // God Cards - powerful abilities usable during battle
 
+import { SeededRandom } from './SeededRandom';
+
 export type GodPowerType =
   | 'meteor_strike'
   | 'divine_teleport'
@@ -81,7 +83,7 @@ export const GOD_CARDS: GodCard[] = [
     id: 'shield_wall',
     name: 'Shield Wall',
     type: 'shield_wall',
-    description: 'Grant all friendly units a damage shield',
+    description: 'Grant all friendly units a 30 damage shield for 8s',
     icon: '🛡️',
     color: '#f59e0b',
     cooldown: 15000,
@@ -113,8 +115,10 @@ export const GOD_CARDS: GodCard[] = [
 
 export class GodCardDeck {
   private cards: GodCard[] = [];
+  private rng: SeededRandom;
 
-  constructor() {
+  constructor(rng: SeededRandom = new SeededRandom()) {
+    this.rng = rng;
     this.reset();
   }
 
@@ -125,10 +129,7 @@ export class GodCardDeck {
   }
 
   private shuffle(): void {
-    for (let i = this.cards.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [this.cards[i], this.cards[j]] = [this.cards[j], this.cards[i]];
-    }
+    this.rng.shuffle(this.cards);
   }
 
   deal(count: number): GodCard[] {
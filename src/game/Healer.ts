@@ -1,8 +1,5 @@
 import { Fighter } from './Fighter';
 import { SpriteRenderer } from './SpriteRenderer';
-import { SoundManager } from './SoundManager';
-import { DamageNumberManager } from './DamageNumber';
-import { DPSTracker } from './DPSTracker';
 import type { Team, FighterType } from './types';
 
 export class Healer extends Fighter {
@@ -13,7 +10,7 @@ export class Healer extends Fighter {
   private baseHealAmount: number = 7;
   private healAmount: number = 7;
   private healCooldown: number = 1000;
-  private lastHealTime: number = 0;
+  private lastHealTime: number = -Infinity;
   private healEffect: { x: number; y: number; frame: number }[] = [];
   private aoeAnimation: number = 0;
 
@@ -122,13 +119,11 @@ export class Healer extends Fighter {
         let moveY = (dy / dist) + sepY * 2;
         const moveMag = Math.sqrt(moveX * moveX + moveY * moveY);
         if (moveMag > 0) {
-          this.x += (moveX / moveMag) * this.speed;
-          this.y += (moveY / moveMag) * this.speed;
+          this.moveBy((moveX / moveMag) * this.speed, (moveY / moveMag) * this.speed);
         }
       } else {
         // In range but apply separation
-        this.x += sepX * this.speed * 0.5;
-        this.y += sepY * this.speed * 0.5;
+        this.moveBy(sepX * this.speed * 0.5, sepY * this.speed * 0.5);
       }
     } else if (allies && allies.length > 0) {
       // No wounded allies - stay near the group center but slightly behind the front line
@@ -168,13 +163,11 @@ export class Healer extends Fighter {
           let moveY = (dy / dist) + sepY * 2;
           const moveMag = Math.sqrt(moveX * moveX + moveY * moveY);
           if (moveMag > 0) {
-            this.x += (moveX / moveMag) * this.speed;
-            this.y += (moveY / moveMag) * this.speed;
+            this.moveBy((moveX / moveMag) * this.speed, (moveY / moveMag) * this.speed);
           }
         } else {
           // Close enough, just apply separation
-          this.x += sepX * this.speed * 0.5;
-          this.y += sepY * this.speed * 0.5;
+          this.moveBy(sepX * this.speed * 0.5, sepY * this.speed * 0.5);
         }
       } else {
         // No non-healer allies - move towards nearest enemy
@@ -187,7 +180,7 @@ export class Healer extends Fighter {
 
     // Only attack if enemy is very close (self-defense)
     for (const enemy of enemies) {
-      if (enemy.isDead) continue;
+      if (enemy.isDead || enemy.isStealthed) continue;
       const dx = enemy.x - this.x;
       const dy = enemy.y - this.y;
       const dist = Math.sqrt(dx * dx + dy * dy);
@@ -205,7 +198,7 @@ export class Healer extends Fighter {
     let nearestDist = Infinity;
 
     for (const enemy of enemies) {
-      if (enemy.isDead) continue;
+      if (enemy.isDead || enemy.isStealthed) continue;
       const dx = enemy.x - this.x;
       const dy = enemy.y - this.y;
       const dist = Math.sqrt(dx * dx + dy * dy);
@@ -223,8 +216,7 @@ export class Healer extends Fighter {
       const dist = Math.sqrt(dx * dx + dy * dy);
 
       if (dist > this.attackRange) {
-        this.x += (dx / dist) * this.speed;
-        this.y += (dy / dist) * this.speed;
+        this.moveBy((dx / dist) * this.speed, (dy / dist) * this.speed);
       }
     } else {
       // No enemies, just move forward
@@ -257,7 +249,7 @@ export class Healer extends Fighter {
   }
 
   private tryHeal(allies: Fighter[]): void {
-    const now = Date.now();
+    const now = this.context.clock.now();
     if (now - this.lastHealTime < this.healCooldown) return;
 
     // Find wounded allies within range to determine heal center
@@ -295,11 +287,8 @@ export class Healer extends Fighter {
       const dist = Math.sqrt(dx * dx + dy * dy);
 
       if (dist <= this.healAoe) {
-        const actualHeal = Math.min(ally.maxHealth - ally.health, this.healAmount);
-        ally.health = Math.min(ally.maxHealth, ally.health + this.healAmount);
+        ally.heal(this.healAmount, this, 'healer');
         this.healEffect.push({ x: ally.x, y: ally.y, frame: 0 });
-        DamageNumberManager.spawn(ally.x, ally.y - 15, this.healAmount, '#22d3ee');
-        DPSTracker.recordHealing(actualHeal);
         healedAny = true;
       }
     }
@@ -312,7 +301,7 @@ export class Healer extends Fighter {
   }
 
   private purifyingLight(allies: Fighter[]): void {
-    SoundManager.playFreeze(); // Use freeze sound for purify
+    this.announceAbility('purify');
     this.purifyAnimation = 40;
 
     const purifyRadius = 60;
@@ -328,18 +317,11 @@ export class Healer extends Fighter {
 
       if (dist <= purifyRadius) {
         // Cleanse all debuffs
-        ally.statusEffects.burning = 0;
-        ally.statusEffects.poison = 0;
-        ally.statusEffects.void = 0;
-        ally.statusEffects.death = 0;
-        ally.statusEffects.frozenUntil = 0;
+        ally.statusEffects.cleanse('debuff');
 
         // Burst heal
-        const healedAmount = Math.min(ally.maxHealth - ally.health, burstHeal);
-        if (healedAmount > 0) {
-          ally.health = Math.min(ally.maxHealth, ally.health + burstHeal);
-          DamageNumberManager.spawn(ally.x, ally.y - 20, healedAmount, '#22d3ee');
-          DPSTracker.recordHealing(healedAmount);
+        if (ally.health < ally.maxHealth) {
+          ally.heal(burstHeal, this, 'healer');
         }
 
         // Add heal effect
@@ -1,6 +1,9 @@
-// Hexagon grid system for unit placement
+// Hexagon grid system for unit placement, battlefield obstacles and terrain
 // Uses "pointy-top" hexagons with offset coordinates (odd-q)
 
+import type { Obstacle } from './Obstacles';
+import type { TerrainKind, TerrainTile } from './Terrain';
+
 export interface HexCoord {
   col: number;
   row: number;
@@ -18,6 +21,10 @@ export class HexGrid {
   private originX: number;
   private originY: number;
   private occupied: Map<string, boolean> = new Map();
+  // Impassable cells, keyed by row * cols + col
+  private obstacles: Map<number, Obstacle> = new Map();
+  // Terrain tiles, same keys - cells without one are plain ground
+  private terrain: Map<number, TerrainTile> = new Map();
 
   // Hex dimensions
   private hexWidth: number;
@@ -66,6 +73,30 @@ export class HexGrid {
     };
   }
 
+  // Exact hex containing a pixel (may be outside the grid) - cube rounding on axial coordinates
+  hexAt(x: number, y: number): HexCoord {
+    const px = x - this.originX;
+    const py = y - this.originY;
+    const q = (px * Math.sqrt(3) / 3 - py / 3) / this.hexSize;
+    const r = (py * 2 / 3) / this.hexSize;
+    const s = -q - r;
+
+    let rq = Math.round(q);
+    let rr = Math.round(r);
+    const rs = Math.round(s);
+    const dq = Math.abs(rq - q);
+    const dr = Math.abs(rr - r);
+    const ds = Math.abs(rs - s);
+    if (dq > dr && dq > ds) {
+      rq = -rr - rs;
+    } else if (dr > ds) {
+      rr = -rq - rs;
+    }
+
+    // Axial to offset (odd rows shifted right)
+    return { col: rq + (rr - (rr & 1)) / 2, row: rr };
+  }
+
   // Get the nearest valid hex to a pixel position
   getNearestHex(pixel: PixelCoord): HexCoord {
     return this.pixelToHex(pixel);
@@ -107,6 +138,67 @@ export class HexGrid {
     this.occupied.clear();
   }
 
+  // Obstacles (rocks, pillars, walls) - cells outside the grid are ignored
+  setObstacles(obstacles: Obstacle[]): void {
+    this.obstacles.clear();
+    for (const obstacle of obstacles) {
+      if (this.isValidHex(obstacle)) {
+        this.obstacles.set(obstacle.row * this.cols + obstacle.col, obstacle);
+      }
+    }
+  }
+
+  getObstacles(): Obstacle[] {
+    return [...this.obstacles.values()];
+  }
+
+  hasObstacles(): boolean {
+    return this.obstacles.size > 0;
+  }
+
+  isBlocked(hex: HexCoord): boolean {
+    return this.isValidHex(hex) && this.obstacles.has(hex.row * this.cols + hex.col);
+  }
+
+  isBlockedAt(x: number, y: number): boolean {
+    if (this.obstacles.size === 0) return false;
+    return this.isBlocked(this.hexAt(x, y));
+  }
+
+  // Whether a straight line crosses no obstacle (sampled every half hex)
+  hasLineOfSight(x1: number, y1: number, x2: number, y2: number): boolean {
+    if (this.obstacles.size === 0) return true;
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const steps = Math.ceil(Math.sqrt(dx * dx + dy * dy) / (this.hexSize / 2));
+    for (let i = 1; i < steps; i++) {
+      const t = i / steps;
+      if (this.isBlockedAt(x1 + dx * t, y1 + dy * t)) return false;
+    }
+    return true;
+  }
+
+  // Terrain - cells outside the grid are ignored, later tiles replace earlier ones
+  setTerrain(tiles: TerrainTile[]): void {
+    this.terrain.clear();
+    for (const tile of tiles) {
+      if (this.isValidHex(tile)) {
+        this.terrain.set(tile.row * this.cols + tile.col, tile);
+      }
+    }
+  }
+
+  getTerrainTiles(): TerrainTile[] {
+    return [...this.terrain.values()];
+  }
+
+  getTerrainAt(x: number, y: number): TerrainKind | null {
+    if (this.terrain.size === 0) return null;
+    const hex = this.hexAt(x, y);
+    if (!this.isValidHex(hex)) return null;
+    return this.terrain.get(hex.row * this.cols + hex.col)?.kind ?? null;
+  }
+
   // Get all hexes
   getAllHexes(): HexCoord[] {
     const hexes: HexCoord[] = [];
@@ -1,13 +1,11 @@
 import { Fighter } from './Fighter';
 import { SpriteRenderer } from './SpriteRenderer';
-import { SoundManager } from './SoundManager';
 import type { Team, FighterType } from './types';
 
 export class Knight extends Fighter {
-  private lastTauntTime: number = 0;
+  private lastTauntTime: number = -Infinity;
   private tauntCooldown: number = 6000; // 6 seconds
-  private invulnerableUntil: number = 0;
-  private isTaunting: boolean = false;
+  private readonly TAUNT_SHIELD_DURATION: number = 3000;
   private tauntRange: number = 50;
 
   constructor(team: Team, x: number, canvasHeight: number) {
@@ -34,38 +32,27 @@ export class Knight extends Fighter {
     return 'knight';
   }
 
-  takeDamage(amount: number, attacker?: Fighter, isCrit: boolean = false): void {
-    // If invulnerable, take no damage
-    if (Date.now() < this.invulnerableUntil) {
-      return;
-    }
-    // Knights have 25% damage reduction
-    const reducedDamage = Math.floor(amount * 0.75);
-    super.takeDamage(reducedDamage, attacker, isCrit);
-  }
-
   update(enemies: Fighter[], deltaTime: number, allies?: Fighter[]): void {
     super.update(enemies, deltaTime, allies);
 
     // Check if taunt is off cooldown and ability is unlocked
-    const now = Date.now();
+    const now = this.context.clock.now();
     if (this.modifiers?.knightTauntAbility && now - this.lastTauntTime >= this.tauntCooldown) {
       this.activateTaunt(enemies);
       this.lastTauntTime = now;
-      this.invulnerableUntil = now + 3000; // 3 seconds invulnerability
-      this.isTaunting = true;
-      SoundManager.playTaunt();
-    }
-
-    // Clear taunting visual after invuln ends
-    if (now >= this.invulnerableUntil) {
-      this.isTaunting = false;
+      // Shield worth a full health bar while enemies pile on (3 seconds)
+      this.addShield(this.maxHealth, this.TAUNT_SHIELD_DURATION, 'taunt', this);
+      this.announceAbility('taunt');
     }
   }
 
   private activateTaunt(enemies: Fighter[]): void {
-    for (const enemy of enemies) {
-      if (enemy.isDead) continue;
+    const nearby = this.context.spatialIndex
+      ? this.context.spatialIndex.queryRadius(this.x, this.y, this.tauntRange)
+      : enemies;
+
+    for (const enemy of nearby) {
+      if (enemy.isDead || enemy.team === this.team) continue;
       const dist = this.getDistanceTo(enemy);
 
       if (dist <= this.tauntRange) {
@@ -75,7 +62,7 @@ export class Knight extends Fighter {
   }
 
   protected attack(target: Fighter, allEnemies?: Fighter[]): void {
-    const now = Date.now();
+    const now = this.context.clock.now();
     if (now - this.lastAttackTime >= this.attackCooldown) {
       this.dealDamage(target, this.damage, allEnemies);
       this.lastAttackTime = now;
@@ -87,8 +74,8 @@ export class Knight extends Fighter {
 
     this.drawStatusEffects(ctx);
 
-    // Draw invulnerability shield effect
-    if (Date.now() < this.invulnerableUntil) {
+    // Draw taunt shield effect
+    if (this.shields.has('taunt', this.context.clock.now())) {
       const pulse = Math.sin(Date.now() / 100) * 0.2 + 0.6;
 
       // Golden shield aura
@@ -101,15 +88,13 @@ export class Knight extends Fighter {
       ctx.stroke();
 
       // Taunt range indicator
-      if (this.isTaunting) {
-        ctx.beginPath();
-        ctx.arc(this.x, this.y, this.tauntRange, 0, Math.PI * 2);
-        ctx.strokeStyle = `rgba(255, 100, 0, 0.4)`;
-        ctx.lineWidth = 1;
-        ctx.setLineDash([5, 5]);
-        ctx.stroke();
-        ctx.setLineDash([]);
-      }
+      ctx.beginPath();
+      ctx.arc(this.x, this.y, this.tauntRange, 0, Math.PI * 2);
+      ctx.strokeStyle = `rgba(255, 100, 0, 0.4)`;
+      ctx.lineWidth = 1;
+      ctx.setLineDash([5, 5]);
+      ctx.stroke();
+      ctx.setLineDash([]);
     }
 
     SpriteRenderer.drawKnight(ctx, this.x, this.y, this.team, this.animationFrame, this.isFlashing());
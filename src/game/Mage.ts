@@ -1,5 +1,4 @@
 import { Fighter } from './Fighter';
-import { VoidBolt } from './VoidBolt';
 import { SpriteRenderer } from './SpriteRenderer';
 import { SoundManager } from './SoundManager';
 import type { Team, FighterType } from './types';
@@ -16,7 +15,6 @@ interface VoidChain {
 }
 
 export class Mage extends Fighter {
-  voidBolts: VoidBolt[] = [];
   private castAnimation: number = 0;
   private attackCount: number = 0;
   private voidChains: VoidChain[] = [];
@@ -50,6 +48,10 @@ export class Mage extends Fighter {
     return 'mage';
   }
 
+  isRanged(): boolean {
+    return true;
+  }
+
   private startVoidEruption(startTarget: Fighter, _allEnemies: Fighter[]): void {
     // Start a void chain from the mage to the target
     this.voidChains.push({
@@ -75,9 +77,9 @@ export class Mage extends Fighter {
         // Hit the current target
         if (!chain.hitEnemies.has(chain.currentTarget) && !chain.currentTarget.isDead) {
           chain.hitEnemies.add(chain.currentTarget);
-          chain.currentTarget.takeDamage(chain.damage, this);
+          chain.currentTarget.takeDamage(chain.damage, this, false, 'void');
           // Apply strong void DoT
-          chain.currentTarget.statusEffects.void += 6 * voidMultiplier;
+          chain.currentTarget.applyStatus('void', 6 * voidMultiplier, this);
 
           // Find next target to chain to
           let nextTarget: Fighter | null = null;
@@ -118,13 +120,6 @@ export class Mage extends Fighter {
   }
 
   update(enemies: Fighter[], deltaTime: number, allies?: Fighter[]): void {
-    // Always update projectiles even if mage is dead (so they can finish)
-    // Pass allies for friendly fire splash damage
-    for (const voidBolt of this.voidBolts) {
-      voidBolt.update(enemies, allies);
-    }
-    this.voidBolts = this.voidBolts.filter(v => !v.isDead);
-
     // Update void chains even after death
     this.updateVoidChains(enemies);
 
@@ -161,8 +156,8 @@ export class Mage extends Fighter {
     if (this.target && !this.target.isDead) {
       const distance = this.getDistanceTo(this.target);
 
-      if (distance > this.attackRange) {
-        // Out of range - move towards target with mage separation
+      if (distance > this.attackRange || !this.canSee(this.target)) {
+        // Out of range or behind an obstacle - move towards target with mage separation
         this.moveWithSeparation(this.target, allies || []);
       } else {
         // In range - start charging (lock in target position)
@@ -197,8 +192,7 @@ export class Mage extends Fighter {
     // Normalize and move
     const moveMag = Math.sqrt(moveX * moveX + moveY * moveY);
     if (moveMag > 0) {
-      this.x += (moveX / moveMag) * this.speed;
-      this.y += (moveY / moveMag) * this.speed;
+      this.moveBy((moveX / moveMag) * this.speed, (moveY / moveMag) * this.speed);
     }
 
     // Boundary clamp
@@ -225,8 +219,7 @@ export class Mage extends Fighter {
     // Normalize and move
     const moveMag = Math.sqrt(moveX * moveX + moveY * moveY);
     if (moveMag > 0) {
-      this.x += (moveX / moveMag) * this.speed;
-      this.y += (moveY / moveMag) * this.speed;
+      this.moveBy((moveX / moveMag) * this.speed, (moveY / moveMag) * this.speed);
     }
 
     // Boundary clamp
@@ -274,10 +267,10 @@ export class Mage extends Fighter {
     // Check for void eruption ability (every 10 attacks)
     if (this.modifiers?.mageVoidEruptionAbility && this.attackCount % 10 === 0 && allEnemies && this.target) {
       this.startVoidEruption(this.target, allEnemies);
-      SoundManager.playChainFire();
+      this.announceAbility('void_eruption');
     } else {
       // Fire ground-targeted artillery bolt
-      this.voidBolts.push(new VoidBolt(
+      this.context.projectiles.spawnVoidBolt(
         this.x, this.y,
         null, // No target tracking
         this.damage,
@@ -285,7 +278,7 @@ export class Mage extends Fighter {
         this,
         this.chargeTargetX,
         this.chargeTargetY
-      ));
+      );
       SoundManager.playFireball();
     }
 
@@ -293,10 +286,6 @@ export class Mage extends Fighter {
   }
 
   draw(ctx: CanvasRenderingContext2D): void {
-    for (const voidBolt of this.voidBolts) {
-      voidBolt.draw(ctx);
-    }
-
     // Draw void chains
     for (const chain of this.voidChains) {
       this.drawVoidChain(ctx, chain);
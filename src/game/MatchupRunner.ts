@@ -0,0 +1,227 @@
+/**
+ * Matchup Runner
+ *
+ * Monte Carlo balance tables. Plays many headless BattleSimulator battles for
+ * every pairing of matchup entries - a FighterType, optionally holding one
+ * modifier card - and collects win rates and average survivors per pairing.
+ * Every pairing is played from both sides of the arena (player/bottom and
+ * opponent/top) so spawn position doesn't skew the results.
+ */
+
+import type { FighterType } from './types';
+import type { Card } from './Card';
+import type { UnitCard } from './UnitCardDeck';
+import type { ArenaId } from './Arenas';
+import { BattleSimulator, type BattleConfig, type BattleSummary } from './BattleSimulator';
+
+export const MATCHUP_FIGHTER_TYPES: FighterType[] = ['knight', 'swordsman', 'archer', 'mage', 'healer', 'cavalry', 'assassin'];
+
+export interface MatchupEntry {
+  label: string;      // "archer" or "archer + Poison Arrows"
+  type: FighterType;
+  card: Card | null;  // Kept card applied to this side only
+}
+
+export interface MatchupOptions {
+  battlesPerMatchup: number;
+  unitCardsPerSide: number; // Copies of the entry's unit card each side fields
+  seed: number;             // Battle b of every pairing uses seed + b
+  arena: ArenaId;           // Every battle is fought here, so layouts and hazards don't skew the tables
+  onProgress?: (done: number, total: number) => void;
+}
+
+// One pairing, seen from the row entry
+export interface MatchupCell {
+  battles: number;          // Mirror matches on the diagonal count each battle once per side
+  wins: number;
+  losses: number;
+  ties: number;
+  winRate: number;          // wins / battles
+  avgSurvivors: number;     // Row entry's units alive at the end
+  avgSurvivorRate: number;  // avgSurvivors / units fielded
+  avgDuration: number;      // ms of battle time
+}
+
+export interface MatchupReport {
+  labels: string[];
+  battlesPerMatchup: number;
+  unitCardsPerSide: number;
+  seed: number;
+  arena: ArenaId;
+  cells: MatchupCell[][];   // cells[row][col]
+}
+
+// Every type alone, plus every type holding each of the given cards
+export function buildMatchupEntries(types: FighterType[], cards: Card[]): MatchupEntry[] {
+  const entries: MatchupEntry[] = [];
+  for (const type of types) {
+    entries.push({ label: type, type, card: null });
+    for (const card of cards) {
+      entries.push({ label: `${type} + ${card.name}`, type, card });
+    }
+  }
+  return entries;
+}
+
+export function runMatchups(entries: MatchupEntry[], options: MatchupOptions): MatchupReport {
+  const simulator = new BattleSimulator();
+  const size = entries.length;
+  const cells: MatchupCell[][] = entries.map(() => new Array<MatchupCell>(size));
+  const total = (size * (size + 1)) / 2;
+  let done = 0;
+
+  // Each pairing is played once; the mirrored cell is the same battles seen from the other side
+  for (let row = 0; row < size; row++) {
+    for (let col = row; col < size; col++) {
+      const [tallyA, tallyB] = playPairing(simulator, entries[row], entries[col], options);
+      if (row === col) {
+        // A mirror match is both sides of one cell: count every battle from each side, so wins always equal losses
+        tallyA.merge(tallyB);
+        cells[row][col] = tallyA.toCell();
+      } else {
+        cells[row][col] = tallyA.toCell();
+        cells[col][row] = tallyB.toCell();
+      }
+      options.onProgress?.(++done, total);
+    }
+  }
+
+  return {
+    labels: entries.map(e => e.label),
+    battlesPerMatchup: options.battlesPerMatchup,
+    unitCardsPerSide: options.unitCardsPerSide,
+    seed: options.seed,
+    arena: options.arena,
+    cells
+  };
+}
+
+function playPairing(
+  simulator: BattleSimulator, a: MatchupEntry, b: MatchupEntry, options: MatchupOptions
+): [MatchupTally, MatchupTally] {
+  const tallyA = new MatchupTally();
+  const tallyB = new MatchupTally();
+
+  for (let i = 0; i < options.battlesPerMatchup; i++) {
+    // Alternate sides: on even battles `a` is the player (bottom), on odd ones the opponent (top)
+    const aIsPlayer = i % 2 === 0;
+    const player = aIsPlayer ? a : b;
+    const opponent = aIsPlayer ? b : a;
+
+    const summary = simulator.run(createMatchupConfig(player, opponent, options.unitCardsPerSide, options.seed + i, options.arena));
+    const playerResult = getSideResult(summary, 'red');
+    const opponentResult = getSideResult(summary, 'blue');
+    const playerOutcome = summary.winner === 'player' ? 1 : summary.winner === 'opponent' ? -1 : 0;
+
+    const [resultA, resultB] = aIsPlayer ? [playerResult, opponentResult] : [opponentResult, playerResult];
+    const outcomeA = aIsPlayer ? playerOutcome : -playerOutcome;
+    tallyA.add(outcomeA, resultA.survivors, resultA.fielded, summary.battleDuration);
+    tallyB.add(-outcomeA, resultB.survivors, resultB.fielded, summary.battleDuration);
+  }
+
+  return [tallyA, tallyB];
+}
+
+function createMatchupConfig(
+  player: MatchupEntry, opponent: MatchupEntry, unitCardsPerSide: number, seed: number, arena: ArenaId
+): BattleConfig {
+  return {
+    playerUnits: createUnitCards(player.type, unitCardsPerSide),
+    opponentUnits: createUnitCards(opponent.type, unitCardsPerSide),
+    modifiers: [],
+    teamModifiers: {
+      player: player.card ? [player.card] : [],
+      opponent: opponent.card ? [opponent.card] : []
+    },
+    playerGodCards: [],
+    opponentGodCards: [],
+    seed,
+    arena
+  };
+}
+
+// The simulator only reads the type off a unit card
+function createUnitCards(type: FighterType, count: number): UnitCard[] {
+  const cards: UnitCard[] = [];
+  for (let i = 0; i < count; i++) {
+    cards.push({ id: i + 1, type, name: type, description: '', color: '' });
+  }
+  return cards;
+}
+
+function getSideResult(summary: BattleSummary, team: 'red' | 'blue'): { survivors: number; fielded: number } {
+  const teamSummary = summary.teams.find(t => t.team === team);
+  return {
+    survivors: teamSummary?.unitsRemaining ?? 0,
+    fielded: teamSummary?.totalUnits ?? 0
+  };
+}
+
+class MatchupTally {
+  private battles: number = 0;
+  private wins: number = 0;
+  private losses: number = 0;
+  private survivors: number = 0;
+  private fielded: number = 0;
+  private duration: number = 0;
+
+  add(outcome: number, survivors: number, fielded: number, duration: number): void {
+    this.battles++;
+    if (outcome > 0) this.wins++;
+    if (outcome < 0) this.losses++;
+    this.survivors += survivors;
+    this.fielded += fielded;
+    this.duration += duration;
+  }
+
+  merge(other: MatchupTally): void {
+    this.battles += other.battles;
+    this.wins += other.wins;
+    this.losses += other.losses;
+    this.survivors += other.survivors;
+    this.fielded += other.fielded;
+    this.duration += other.duration;
+  }
+
+  toCell(): MatchupCell {
+    const battles = Math.max(this.battles, 1);
+    return {
+      battles: this.battles,
+      wins: this.wins,
+      losses: this.losses,
+      ties: this.battles - this.wins - this.losses,
+      winRate: this.wins / battles,
+      avgSurvivors: this.survivors / battles,
+      avgSurvivorRate: this.fielded > 0 ? this.survivors / this.fielded : 0,
+      avgDuration: this.duration / battles
+    };
+  }
+}
+
+// Square CSV of one cell field: header row of column entries, one row per entry
+export function matchupMatrixToCSV(report: MatchupReport, field: keyof MatchupCell): string {
+  const quote = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const lines = [['', ...report.labels].map(quote).join(',')];
+  report.cells.forEach((row, i) => {
+    lines.push([quote(report.labels[i]), ...row.map(cell => formatNumber(cell[field]))].join(','));
+  });
+  return lines.join('\n') + '\n';
+}
+
+// Report as JSON: the per-cell details plus ready-made win-rate and survivor matrices
+export function matchupReportToJSON(report: MatchupReport): string {
+  return JSON.stringify({
+    labels: report.labels,
+    battlesPerMatchup: report.battlesPerMatchup,
+    unitCardsPerSide: report.unitCardsPerSide,
+    seed: report.seed,
+    arena: report.arena,
+    winRate: report.cells.map(row => row.map(cell => cell.winRate)),
+    avgSurvivors: report.cells.map(row => row.map(cell => cell.avgSurvivors)),
+    cells: report.cells
+  }, null, 2);
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(4);
+}
@@ -0,0 +1,99 @@
+/**
+ * Obstacles
+ *
+ * Impassable rocks, pillars and walls placed on HexGrid cells. Fighters steer
+ * and slide around blocked cells, attack slots inside them are never handed
+ * out, arrows and bolts stop when they fly into one, and ranged units need a
+ * clear line of sight over them before they fire. Displaced units stop dead
+ * against them like they do against the arena wall.
+ */
+
+import type { HexCoord, HexGrid } from './HexGrid';
+
+export type ObstacleKind = 'rock' | 'pillar' | 'wall';
+
+export interface Obstacle extends HexCoord {
+  kind: ObstacleKind;
+}
+
+// Default battlefield on the 16x12 battle grid - kept well inside the spawn ring
+export const DEFAULT_OBSTACLES: Obstacle[] = [
+  // Rock outcrop in the middle of the arena
+  { col: 7, row: 5, kind: 'rock' },
+  { col: 7, row: 6, kind: 'rock' },
+  { col: 8, row: 6, kind: 'rock' },
+  // Pillars either side of it
+  { col: 4, row: 5, kind: 'pillar' },
+  { col: 10, row: 5, kind: 'pillar' },
+  // Short walls covering the top and bottom approaches
+  { col: 4, row: 1, kind: 'wall' },
+  { col: 5, row: 1, kind: 'wall' },
+  { col: 9, row: 1, kind: 'wall' },
+  { col: 10, row: 1, kind: 'wall' },
+  { col: 4, row: 9, kind: 'wall' },
+  { col: 5, row: 9, kind: 'wall' },
+  { col: 9, row: 9, kind: 'wall' },
+  { col: 10, row: 9, kind: 'wall' }
+];
+
+const OBSTACLE_COLORS: Record<ObstacleKind, { fill: string; edge: string }> = {
+  rock: { fill: '#4b5563', edge: '#6b7280' },
+  pillar: { fill: '#78716c', edge: '#a8a29e' },
+  wall: { fill: '#57534e', edge: '#292524' }
+};
+
+export function drawObstacles(ctx: CanvasRenderingContext2D, grid: HexGrid): void {
+  const size = grid.getHexSize();
+
+  for (const obstacle of grid.getObstacles()) {
+    const { x, y } = grid.hexToPixel(obstacle);
+    const colors = OBSTACLE_COLORS[obstacle.kind];
+    ctx.fillStyle = colors.fill;
+    ctx.strokeStyle = colors.edge;
+    ctx.lineWidth = 2;
+
+    if (obstacle.kind === 'pillar') {
+      // Round column with a lighter top
+      ctx.beginPath();
+      ctx.arc(x, y, size * 0.8, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+      ctx.beginPath();
+      ctx.arc(x - size * 0.15, y - size * 0.15, size * 0.3, 0, Math.PI * 2);
+      ctx.fill();
+    } else {
+      // Full hex block - walls get brick lines, rocks a highlight
+      ctx.beginPath();
+      for (let i = 0; i < 6; i++) {
+        const angle = (Math.PI / 3) * i - Math.PI / 6;
+        const hx = x + size * Math.cos(angle);
+        const hy = y + size * Math.sin(angle);
+        if (i === 0) {
+          ctx.moveTo(hx, hy);
+        } else {
+          ctx.lineTo(hx, hy);
+        }
+      }
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+
+      if (obstacle.kind === 'wall') {
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.4)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        for (const offset of [-size / 3, 0, size / 3]) {
+          ctx.moveTo(x - size * 0.8, y + offset);
+          ctx.lineTo(x + size * 0.8, y + offset);
+        }
+        ctx.stroke();
+      } else {
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
+        ctx.beginPath();
+        ctx.arc(x - size * 0.25, y - size * 0.25, size * 0.35, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+  }
+}
@@ -1,28 +1,39 @@
-import { Fighter } from './Fighter';
+import type { Fighter } from './Fighter';
 import type { Team } from './types';
-
-export class PiercingArrow {
-  x: number;
-  y: number;
+import type { ProjectileSnapshot } from './BattleSnapshot';
+import type { Projectile, ProjectileWorld } from './ProjectileManager';
+import type { SeededRandom } from './SeededRandom';
+
+export class PiercingArrow implements Projectile {
+  readonly kind = 'piercing_arrow';
+  x: number = 0;
+  y: number = 0;
   speed: number = 10;
-  damage: number;
-  team: Team;
-  shooter: Fighter;
+  damage: number = 0;
+  team: Team = 'red';
+  shooter!: Fighter;
+  // Battle RNG from the ProjectileManager so crit rolls stay reproducible
+  private rng!: SeededRandom;
   isDead: boolean = false;
-  angle: number;
+  angle: number = 0;
   private hitEnemies: Set<Fighter> = new Set();
-  private allEnemies: Fighter[];
+  private allEnemies: Fighter[] = [];
   private isFirstHit: boolean = true;
   private travelDistance: number = 0;
   private maxDistance: number = 500;
 
-  constructor(x: number, y: number, target: Fighter, damage: number, team: Team, shooter: Fighter, allEnemies: Fighter[]) {
+  // (Re)initialise for a fresh or pooled arrow
+  launch(rng: SeededRandom, x: number, y: number, target: Fighter, damage: number, team: Team, shooter: Fighter, allEnemies: Fighter[]): void {
+    this.rng = rng;
     this.x = x;
     this.y = y;
     this.damage = damage;
     this.team = team;
     this.shooter = shooter;
     this.allEnemies = allEnemies;
+    this.isDead = false;
+    this.isFirstHit = true;
+    this.travelDistance = 0;
 
     // Calculate angle to target - arrow will travel in this direction
     const dx = target.x - this.x;
@@ -30,7 +41,12 @@ export class PiercingArrow {
     this.angle = Math.atan2(dy, dx);
   }
 
-  update(): void {
+  release(): void {
+    this.hitEnemies.clear();
+    this.allEnemies = [];
+  }
+
+  update(world: ProjectileWorld): void {
     if (this.isDead) return;
 
     // Move in straight line
@@ -51,8 +67,8 @@ export class PiercingArrow {
       }
     }
 
-    // Die if traveled too far or out of bounds
-    if (this.travelDistance > this.maxDistance ||
+    // Die if traveled too far, hit an obstacle or went out of bounds
+    if (this.travelDistance > this.maxDistance || world.isBlocked(this.x, this.y) ||
         this.x < -100 || this.x > 2000 || this.y < -100 || this.y > 1500) {
       this.isDead = true;
     }
@@ -71,7 +87,7 @@ export class PiercingArrow {
     // Critical hit check (base 5% * multiplier)
     const baseCritChance = 0.05;
     const critMultiplier = modifiers?.critChance || 1;
-    if (Math.random() < baseCritChance * critMultiplier) {
+    if (this.rng.chance(baseCritChance * critMultiplier)) {
       finalDamage *= 2;
       isCrit = true;
     }
@@ -83,24 +99,31 @@ export class PiercingArrow {
       if (modifiers.archerPoisonOnHit) {
         const basePoison = 2;
         const poisonMultiplier = modifiers.poisonDoTMultiplier;
-        enemy.statusEffects.poison += basePoison * poisonMultiplier;
+        enemy.applyStatus('poison', basePoison * poisonMultiplier, this.shooter);
       }
       if (modifiers.lifestealPercent > 1) {
         const lifestealPercent = modifiers.lifestealPercent - 1;
-        const healAmount = finalDamage * lifestealPercent;
-        this.shooter.health = Math.min(this.shooter.maxHealth, this.shooter.health + healAmount);
+        this.shooter.heal(finalDamage * lifestealPercent, this.shooter, 'lifesteal');
       }
     }
 
     this.isFirstHit = false;
   }
 
+  toSnapshot(): ProjectileSnapshot {
+    return { kind: 'piercing_arrow', x: this.x, y: this.y, angle: this.angle, impactFrame: -1, impactRadius: 0 };
+  }
+
   draw(ctx: CanvasRenderingContext2D): void {
     if (this.isDead) return;
+    PiercingArrow.drawAt(ctx, this.x, this.y, this.angle);
+  }
 
+  // Shared with worker-mode rendering, which only has snapshot data
+  static drawAt(ctx: CanvasRenderingContext2D, x: number, y: number, angle: number): void {
     ctx.save();
-    ctx.translate(this.x, this.y);
-    ctx.rotate(this.angle);
+    ctx.translate(x, y);
+    ctx.rotate(angle);
 
     // Glowing arrow shaft for piercing arrow
     ctx.strokeStyle = '#fbbf24';
@@ -2,9 +2,10 @@ import type { Team, FighterType, Position } from './types';
 import type { TeamModifiers } from './Card';
 import type { Fighter } from './Fighter';
 import { SpriteRenderer } from './SpriteRenderer';
-import { DamageNumberManager } from './DamageNumber';
+import { BattleContext } from './BattleContext';
 import { SoundManager } from './SoundManager';
-import { PlayerArrow } from './PlayerArrow';
+import { StatusEffectSet, type StatusKind } from './StatusEffects';
+import { STATUS_DAMAGE_COLORS } from './DamageNumber';
 
 export type Direction = 'up' | 'down' | 'left' | 'right';
 
@@ -29,21 +30,15 @@ export class Player {
   attackRange: number = 120;
   attackCooldown: number = 400;
   lastAttackTime: number = 0;
-  arrows: PlayerArrow[] = [];
+  // Battle state for damage numbers and projectiles - replaced by the owning game
+  context: BattleContext = new BattleContext();
   private target: Fighter | null = null;
 
   // Modifiers from cards
   modifiers: TeamModifiers | null = null;
 
-  // Status effects (for compatibility with Fighter targeting)
-  statusEffects = {
-    burning: 0,
-    poison: 0,
-    frozen: 0,
-    frozenUntil: 0,
-    void: 0,
-    death: 0
-  };
+  // Status effects (for compatibility with Fighter targeting) - the player runs them on wall-clock time
+  statusEffects: StatusEffectSet = new StatusEffectSet();
 
   // Movement state
   private keys: Set<string> = new Set();
@@ -69,6 +64,10 @@ export class Player {
     return { x: this.x, y: this.y };
   }
 
+  applyStatus(status: StatusKind, amount: number): void {
+    this.statusEffects.apply(status, amount, Date.now());
+  }
+
   setModifiers(modifiers: TeamModifiers): void {
     this.modifiers = modifiers;
   }
@@ -87,14 +86,14 @@ export class Player {
 
     // Spawn floating damage number
     const color = isCrit ? '#fbbf24' : '#ffffff';
-    DamageNumberManager.spawn(this.x, this.y - 20, amount, color);
+    this.context.damageNumbers.spawn(this.x, this.y - 20, amount, color);
 
     // Thorns damage (base 5 dmg * multiplier)
     if (this.modifiers && this.modifiers.thornsMultiplier > 1 && attacker) {
       const baseThorns = 5;
       const thornsDamage = baseThorns * this.modifiers.thornsMultiplier;
       attacker.health -= thornsDamage;
-      DamageNumberManager.spawn(attacker.x, attacker.y - 10, thornsDamage, '#10b981');
+      this.context.damageNumbers.spawn(attacker.x, attacker.y - 10, thornsDamage, '#10b981');
       if (attacker.health <= 0) {
         attacker.health = 0;
         attacker.isDead = true;
@@ -119,17 +118,11 @@ export class Player {
   update(deltaTime: number, canvasWidth: number, canvasHeight: number, enemies?: Fighter[]): void {
     if (this.isDead) return;
 
-    // Update arrows
-    for (const arrow of this.arrows) {
-      arrow.update();
-    }
-    this.arrows = this.arrows.filter(arrow => !arrow.isDead);
-
     // Process status effects (burn, poison)
     this.processStatusEffects();
 
     // Check if frozen
-    if (Date.now() < this.statusEffects.frozenUntil) {
+    if (this.statusEffects.preventsActing(Date.now())) {
       return; // Can't move while frozen
     }
 
@@ -245,7 +238,7 @@ export class Player {
         finalDamage = Math.round(this.baseDamage * allDamageMult);
       }
 
-      this.arrows.push(new PlayerArrow(this.x, this.y, this.target, finalDamage, this.team, this));
+      this.context.projectiles.spawnPlayerArrow(this.x, this.y, this.target, finalDamage, this.team, this);
       SoundManager.playArrowShot();
       this.lastAttackTime = now;
     }
@@ -256,36 +249,10 @@ export class Player {
     if (now - this.lastStatusTick < 1000) return;
     this.lastStatusTick = now;
 
-    // Burn damage (orange)
-    if (this.statusEffects.burning > 0) {
-      const burnDamage = this.statusEffects.burning;
-      this.health -= burnDamage;
-      DamageNumberManager.spawn(this.x, this.y - 10, burnDamage, '#ff6600');
-      this.statusEffects.burning = Math.max(0, this.statusEffects.burning - 1);
-    }
-
-    // Poison damage (green)
-    if (this.statusEffects.poison > 0) {
-      const poisonDamage = this.statusEffects.poison;
-      this.health -= poisonDamage;
-      DamageNumberManager.spawn(this.x, this.y - 10, poisonDamage, '#22c55e');
-      this.statusEffects.poison = Math.max(0, this.statusEffects.poison - 0.5);
-    }
-
-    // Void damage (purple)
-    if (this.statusEffects.void > 0) {
-      const voidDamage = this.statusEffects.void;
-      this.health -= voidDamage;
-      DamageNumberManager.spawn(this.x, this.y - 10, voidDamage, '#a855f7');
-      this.statusEffects.void = Math.max(0, this.statusEffects.void - 1.2);
-    }
-
-    // Death damage (white/gray)
-    if (this.statusEffects.death > 0) {
-      const deathDamage = this.statusEffects.death;
-      this.health -= deathDamage;
-      DamageNumberManager.spawn(this.x, this.y - 10, deathDamage, '#e5e5e5');
-      this.statusEffects.death = Math.max(0, this.statusEffects.death - 1);
+    for (const { definition, damage } of this.statusEffects.tick(now)) {
+      if (damage <= 0 || !definition.damageType) continue;
+      this.health -= damage;
+      this.context.damageNumbers.spawn(this.x, this.y - 10, damage, STATUS_DAMAGE_COLORS[definition.damageType]);
     }
 
     if (this.health <= 0) {
@@ -302,11 +269,6 @@ export class Player {
   }
 
   draw(ctx: CanvasRenderingContext2D): void {
-    // Always draw arrows even if dead
-    for (const arrow of this.arrows) {
-      arrow.draw(ctx);
-    }
-
     if (this.isDead) return;
 
     const color = this.team === 'blue' ? '#4a90d9' : '#d94a4a';
@@ -338,7 +300,7 @@ export class Player {
 
   private drawStatusEffects(ctx: CanvasRenderingContext2D): void {
     // Draw death effect - tiny skull above head
-    if (this.statusEffects.death > 0) {
+    if (this.statusEffects.has('death', Date.now())) {
       const skullX = this.x;
       const skullY = this.y - 35;
       const pulse = 0.8 + Math.sin(Date.now() / 200) * 0.2;
@@ -2,21 +2,29 @@ import type { Fighter } from './Fighter';
 import type { Player } from './Player';
 import type { Team } from './types';
 import { SoundManager } from './SoundManager';
-
-export class PlayerArrow {
-  x: number;
-  y: number;
-  targetX: number;
-  targetY: number;
+import type { ProjectileSnapshot } from './BattleSnapshot';
+import type { Projectile, ProjectileWorld } from './ProjectileManager';
+import type { SeededRandom } from './SeededRandom';
+
+export class PlayerArrow implements Projectile {
+  readonly kind = 'player_arrow';
+  x: number = 0;
+  y: number = 0;
+  targetX: number = 0;
+  targetY: number = 0;
   speed: number = 8;
-  damage: number;
-  team: Team;
-  target: Fighter;
-  shooter: Player;
+  damage: number = 0;
+  team: Team = 'red';
+  target!: Fighter;
+  shooter!: Player;
+  // Battle RNG from the ProjectileManager so crit rolls stay reproducible
+  private rng!: SeededRandom;
   isDead: boolean = false;
-  angle: number;
+  angle: number = 0;
 
-  constructor(x: number, y: number, target: Fighter, damage: number, team: Team, shooter: Player) {
+  // (Re)initialise for a fresh or pooled arrow
+  launch(rng: SeededRandom, x: number, y: number, target: Fighter, damage: number, team: Team, shooter: Player): void {
+    this.rng = rng;
     this.x = x;
     this.y = y;
     this.target = target;
@@ -25,13 +33,18 @@ export class PlayerArrow {
     this.damage = damage;
     this.team = team;
     this.shooter = shooter;
+    this.isDead = false;
 
     const dx = this.targetX - this.x;
     const dy = this.targetY - this.y;
     this.angle = Math.atan2(dy, dx);
   }
 
-  update(): void {
+  release(): void {
+    // Target and shooter are overwritten by the next launch()
+  }
+
+  update(_world: ProjectileWorld): void {
     if (this.isDead) return;
 
     if (!this.target.isDead) {
@@ -58,7 +71,7 @@ export class PlayerArrow {
         // Critical hit check (base 5% * multiplier)
         const baseCritChance = 0.05;
         const critMultiplier = modifiers?.critChance || 1;
-        if (Math.random() < baseCritChance * critMultiplier) {
+        if (this.rng.chance(baseCritChance * critMultiplier)) {
           finalDamage *= 2;
           isCrit = true;
           SoundManager.playCritical();
@@ -82,6 +95,10 @@ export class PlayerArrow {
     }
   }
 
+  toSnapshot(): ProjectileSnapshot {
+    return { kind: 'player_arrow', x: this.x, y: this.y, angle: this.angle, impactFrame: -1, impactRadius: 0 };
+  }
+
   draw(ctx: CanvasRenderingContext2D): void {
     if (this.isDead) return;
 
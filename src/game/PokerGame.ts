@@ -1,8 +1,9 @@
 import type { BettingRound, PlayerAction, PlayerPosition } from './types';
 import type { Card } from './Card';
-import { ALL_CARDS } from './Card';
+import { ALL_CARDS, isKeepableCard } from './Card';
 import { UnitCardDeck, type UnitCard } from './UnitCardDeck';
 import { GodCardDeck, type GodCard } from './GodCardDeck';
+import { SeededRandom } from './SeededRandom';
 
 export interface Player {
   position: PlayerPosition;
@@ -49,15 +50,18 @@ export class PokerGame {
   private godCardDeck: GodCardDeck;
   private modifierDeck: Card[];
   private onStateChange: StateChangeCallback;
+  // Single RNG for every shuffle, AI decision and tie-break - same seed + same inputs = same game
+  private rng: SeededRandom;
 
   private static readonly POSITIONS: PlayerPosition[] = [
     'player', 'opponent', 'topRight', 'bottomRight', 'bottomLeft', 'topLeft'
   ];
 
-  constructor(startingChips: number, onStateChange: StateChangeCallback) {
+  constructor(startingChips: number, onStateChange: StateChangeCallback, seed?: number) {
     this.onStateChange = onStateChange;
-    this.unitDeck = new UnitCardDeck();
-    this.godCardDeck = new GodCardDeck();
+    this.rng = new SeededRandom(seed);
+    this.unitDeck = new UnitCardDeck(this.rng);
+    this.godCardDeck = new GodCardDeck(this.rng);
     this.modifierDeck = [];
 
     const createPlayer = (position: PlayerPosition): Player => ({
@@ -103,6 +107,15 @@ export class PokerGame {
     return this.state.players.find(p => p.position === position)!;
   }
 
+  getSeed(): number {
+    return this.rng.getSeed();
+  }
+
+  // Seed for the next battle, drawn from the game RNG so battles replay with the game
+  nextBattleSeed(): number {
+    return this.rng.nextSeed();
+  }
+
   getState(): PokerGameState {
     return {
       ...this.state,
@@ -116,12 +129,7 @@ export class PokerGame {
   }
 
   private shuffleModifierDeck(): void {
-    this.modifierDeck = [...ALL_CARDS];
-    // Fisher-Yates shuffle
-    for (let i = this.modifierDeck.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [this.modifierDeck[i], this.modifierDeck[j]] = [this.modifierDeck[j], this.modifierDeck[i]];
-    }
+    this.modifierDeck = this.rng.shuffle([...ALL_CARDS]);
   }
 
   private dealModifierCard(): Card {
@@ -214,6 +222,10 @@ export class PokerGame {
     // Validate card index
     if (cardIndex < 0 || cardIndex >= 5) return false;
 
+    // Arena cards can't be kept, so there's nothing to bid on
+    const card = this.state.communityCards[cardIndex];
+    if (amount > 0 && card && !isKeepableCard(card)) return false;
+
     // Set the bid (0 to remove bid)
     if (amount === 0) {
       delete player.bids[cardIndex];
@@ -244,14 +256,18 @@ export class PokerGame {
       if (player.health <= 0) continue; // Skip eliminated players
 
       // AI randomly bids on 1-3 cards
-      const numBids = Math.floor(Math.random() * 3) + 1;
-      const cardIndices = [0, 1, 2, 3, 4].sort(() => Math.random() - 0.5).slice(0, numBids);
+      const numBids = this.rng.nextInt(3) + 1;
+      const biddable = [0, 1, 2, 3, 4].filter(i => {
+        const card = this.state.communityCards[i];
+        return !card || isKeepableCard(card);
+      });
+      const cardIndices = this.rng.shuffle(biddable).slice(0, numBids);
 
       let remainingCoins = player.coins;
       for (const cardIndex of cardIndices) {
         if (remainingCoins <= 0) break;
         // Bid 1-5 coins randomly
-        const bid = Math.min(Math.floor(Math.random() * 5) + 1, remainingCoins);
+        const bid = Math.min(this.rng.nextInt(5) + 1, remainingCoins);
         player.bids[cardIndex] = bid;
         remainingCoins -= bid;
       }
@@ -275,7 +291,7 @@ export class PokerGame {
           winner = player.position;
         } else if (bid === highestBid && bid > 0) {
           // Tie - randomly pick winner (or first bidder wins)
-          if (Math.random() > 0.5) {
+          if (this.rng.chance(0.5)) {
             winner = player.position;
           }
         }
@@ -532,14 +548,14 @@ export class PokerGame {
   resolveBattle(winner: PlayerPosition | 'tie'): void {
     this.state.battleResult = winner;
 
-    if (winner === 'tie') {
-      // Split pot
+    if (winner === 'player' || winner === 'opponent') {
+      const winnerPlayer = winner === 'player' ? this.state.player : this.state.opponent;
+      winnerPlayer.chips += this.state.pot;
+    } else {
+      // Tie, or a seat outside this heads-up hand won - split pot
       const half = Math.floor(this.state.pot / 2);
       this.state.player.chips += half;
       this.state.opponent.chips += this.state.pot - half;
-    } else {
-      const winnerPlayer = winner === 'player' ? this.state.player : this.state.opponent;
-      winnerPlayer.chips += this.state.pot;
     }
 
     this.state.pot = 0;
@@ -637,14 +653,14 @@ export class PokerGame {
       if (player.hasKeptCardThisRound || player.holeCards.length === 0) continue;
 
       // Pick a random hole card to keep
-      const holeCardIndex = Math.floor(Math.random() * player.holeCards.length);
+      const holeCardIndex = this.rng.nextInt(player.holeCards.length);
 
       if (player.keptCards.length < 4) {
         // Still have room, just keep it
         this.keepCard(position, holeCardIndex);
       } else {
         // Replace a random kept card
-        const replaceIndex = Math.floor(Math.random() * 4);
+        const replaceIndex = this.rng.nextInt(4);
         this.keepCard(position, holeCardIndex, replaceIndex);
       }
     }
@@ -669,8 +685,9 @@ export class PokerGame {
 
     const card = this.state.communityCards[cardIndex];
 
-    // Check if already bought this card
+    // Check if already bought this card, or it can't be kept at all
     if (player.keptModifierCards.some(c => c.id === card.id)) return false;
+    if (!isKeepableCard(card)) return false;
 
     // Buy the card
     player.coins -= cost;
@@ -685,8 +702,9 @@ export class PokerGame {
     if (player.coins < 2) return false;
     if (cardIndex < 0 || cardIndex >= this.state.communityCards.length) return false;
     const card = this.state.communityCards[cardIndex];
-    // Can't buy same card twice
+    // Can't buy same card twice, or an arena card
     if (player.keptModifierCards.some(c => c.id === card.id)) return false;
+    if (!isKeepableCard(card)) return false;
     return this.state.round === 'hand_complete';
   }
 
@@ -10,24 +10,26 @@ const UNIT_COLORS: Record<FighterType, string> = {
   swordsman: '#ef4444',
   archer: '#22c55e',
   mage: '#a855f7',
-  healer: '#22d3ee'
+  healer: '#22d3ee',
+  cavalry: '#a16207',
+  assassin: '#64748b'
 };
 
 // Colors for each player position - must match BattleArena team mapping
-const PLAYER_COLORS: Record<PlayerPosition, string> = {
+export const PLAYER_COLORS: Record<PlayerPosition, string> = {
   player: '#dc2626',      // red (YOU)
   opponent: '#2563eb',    // blue
-  topRight: '#db2777',    // pink
-  bottomRight: '#7c3aed', // purple
+  topRight: '#7c3aed',    // purple
+  bottomRight: '#db2777', // pink
   bottomLeft: '#ea580c',  // orange
   topLeft: '#16a34a'      // green
 };
 
-const PLAYER_NAMES: Record<PlayerPosition, string> = {
+export const PLAYER_NAMES: Record<PlayerPosition, string> = {
   player: 'YOU',
   opponent: 'BLUE',
-  topRight: 'PINK',
-  bottomRight: 'PURPLE',
+  topRight: 'PURPLE',
+  bottomRight: 'PINK',
   bottomLeft: 'ORANGE',
   topLeft: 'GREEN'
 };
@@ -1040,6 +1042,12 @@ export class PokerRenderer {
       case 'healer':
         SpriteRenderer.drawHealer(ctx, 0, 0, 'red', 0);
         break;
+      case 'cavalry':
+        SpriteRenderer.drawHorseman(ctx, 0, 0, 'red', 0);
+        break;
+      case 'assassin':
+        SpriteRenderer.drawAssassin(ctx, 0, 0, 'red', 0);
+        break;
     }
 
     ctx.restore();
@@ -0,0 +1,147 @@
+/**
+ * Projectile Manager
+ *
+ * Owns every projectile in a battle. Units ask it to spawn arrows, bolts and
+ * ghosts; it updates, collides and draws them all once per tick through the
+ * Projectile interface, so a shot keeps flying after the unit that fired it
+ * dies. Finished projectiles go back into a per-kind pool and are re-launched
+ * instead of allocating new ones during big fights.
+ */
+
+import type { Team } from './types';
+import type { Fighter } from './Fighter';
+import type { Player } from './Player';
+import type { SeededRandom } from './SeededRandom';
+import type { ProjectileSnapshot } from './BattleSnapshot';
+import { Arrow } from './Arrow';
+import { PiercingArrow } from './PiercingArrow';
+import { Fireball } from './Fireball';
+import { VoidBolt } from './VoidBolt';
+import { Ghost } from './Ghost';
+import { PlayerArrow } from './PlayerArrow';
+
+export type ProjectileKind = 'arrow' | 'piercing_arrow' | 'fireball' | 'void_bolt' | 'ghost' | 'player_arrow';
+
+// Who a projectile can hit, resolved by its team each tick, and where it can't fly
+export interface ProjectileWorld {
+  enemiesOf(team: Team): Fighter[];
+  alliesOf(team: Team): Fighter[];
+  isBlocked(x: number, y: number): boolean; // Obstacle at this point
+}
+
+export interface Projectile {
+  readonly kind: ProjectileKind;
+  isDead: boolean;
+  update(world: ProjectileWorld): void;
+  draw(ctx: CanvasRenderingContext2D): void;
+  toSnapshot(): ProjectileSnapshot;
+  release(): void; // Clear per-launch state before going back to the pool
+}
+
+export class ProjectileManager {
+  private active: Projectile[] = [];
+  private pools: Map<ProjectileKind, Projectile[]> = new Map();
+  // Battle RNG handed to every projectile so crit rolls stay reproducible
+  private rng: SeededRandom;
+
+  constructor(rng: SeededRandom) {
+    this.rng = rng;
+  }
+
+  spawnArrow(x: number, y: number, target: Fighter, damage: number, team: Team, shooter: Fighter | null = null): Arrow {
+    const arrow = this.obtain('arrow', () => new Arrow());
+    arrow.launch(this.rng, x, y, target, damage, team, shooter);
+    return this.add(arrow);
+  }
+
+  spawnPiercingArrow(x: number, y: number, target: Fighter, damage: number, team: Team, shooter: Fighter, allEnemies: Fighter[]): PiercingArrow {
+    const arrow = this.obtain('piercing_arrow', () => new PiercingArrow());
+    arrow.launch(this.rng, x, y, target, damage, team, shooter, allEnemies);
+    return this.add(arrow);
+  }
+
+  spawnFireball(x: number, y: number, target: Fighter, damage: number, team: Team, shooter: Fighter | null = null): Fireball {
+    const fireball = this.obtain('fireball', () => new Fireball());
+    fireball.launch(this.rng, x, y, target, damage, team, shooter);
+    return this.add(fireball);
+  }
+
+  spawnVoidBolt(
+    x: number, y: number, target: Fighter | null, damage: number, team: Team,
+    shooter: Fighter | null = null, groundTargetX?: number, groundTargetY?: number
+  ): VoidBolt {
+    const bolt = this.obtain('void_bolt', () => new VoidBolt());
+    bolt.launch(this.rng, x, y, target, damage, team, shooter, groundTargetX, groundTargetY);
+    return this.add(bolt);
+  }
+
+  spawnGhost(x: number, y: number, angle: number, damage: number, team: Team, shooter: Fighter | null = null): Ghost {
+    const ghost = this.obtain('ghost', () => new Ghost());
+    ghost.launch(this.rng, x, y, angle, damage, team, shooter);
+    return this.add(ghost);
+  }
+
+  spawnPlayerArrow(x: number, y: number, target: Fighter, damage: number, team: Team, shooter: Player): PlayerArrow {
+    const arrow = this.obtain('player_arrow', () => new PlayerArrow());
+    arrow.launch(this.rng, x, y, target, damage, team, shooter);
+    return this.add(arrow);
+  }
+
+  // Move and collide every projectile, then recycle the ones that finished
+  update(world: ProjectileWorld): void {
+    for (const projectile of this.active) {
+      projectile.update(world);
+    }
+
+    let write = 0;
+    for (const projectile of this.active) {
+      if (projectile.isDead) {
+        this.recycle(projectile);
+      } else {
+        this.active[write++] = projectile;
+      }
+    }
+    this.active.length = write;
+  }
+
+  draw(ctx: CanvasRenderingContext2D): void {
+    for (const projectile of this.active) {
+      projectile.draw(ctx);
+    }
+  }
+
+  getSnapshots(): ProjectileSnapshot[] {
+    return this.active.map(p => p.toSnapshot());
+  }
+
+  getActiveCount(): number {
+    return this.active.length;
+  }
+
+  clear(): void {
+    for (const projectile of this.active) {
+      this.recycle(projectile);
+    }
+    this.active = [];
+  }
+
+  private obtain<T extends Projectile>(kind: ProjectileKind, create: () => T): T {
+    const pooled = this.pools.get(kind)?.pop();
+    return pooled ? pooled as T : create();
+  }
+
+  private add<T extends Projectile>(projectile: T): T {
+    this.active.push(projectile);
+    return projectile;
+  }
+
+  private recycle(projectile: Projectile): void {
+    projectile.release();
+    const pool = this.pools.get(projectile.kind);
+    if (pool) {
+      pool.push(projectile);
+    } else {
+      this.pools.set(projectile.kind, [projectile]);
+    }
+  }
+}
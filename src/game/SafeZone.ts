@@ -0,0 +1,89 @@
+/**
+ * Safe Zone
+ *
+ * Optional battle-royale style anti-stall ring. After a delay the zone closes
+ * in on the arena centre; units caught outside it lose a share of their max
+ * health every hazard tick, and that share climbs for as long as the zone has
+ * been closing, so stalemates end in a wipe instead of a timeout. The zone is
+ * a pure function of battle time, so worker mirrors and replays draw the same
+ * zone without it travelling in the snapshot.
+ */
+
+import type { Arena } from './Arenas';
+
+export interface SafeZoneConfig {
+  startDelay: number;       // ms after the battle starts before the zone starts closing
+  shrinkDuration: number;   // ms to close from the arena edge down to its final size
+  finalRadius: number;      // Final size as a share of the arena radius
+  damagePerSecond: number;  // Share of max health lost per second outside once closing starts
+  damageRamp: number;       // Added to damagePerSecond for every second the zone has been closing
+}
+
+// Fully closed well before the 120s battle timeout
+export const DEFAULT_SAFE_ZONE: SafeZoneConfig = {
+  startDelay: 20000,
+  shrinkDuration: 60000,
+  finalRadius: 0.4,
+  damagePerSecond: 0.02,
+  damageRamp: 0.002
+};
+
+export class SafeZone {
+  readonly config: SafeZoneConfig;
+  private arena: Arena;
+  private startRadius: number;
+  private endRadius: number;
+
+  constructor(config: SafeZoneConfig, arena: Arena) {
+    this.config = config;
+    this.arena = arena;
+    // Starts out covering every corner of the arena
+    this.startRadius = arena.getOuterRadius();
+    this.endRadius = arena.radius * config.finalRadius;
+  }
+
+  isClosing(elapsed: number): boolean {
+    return elapsed >= this.config.startDelay;
+  }
+
+  getRadius(elapsed: number): number {
+    const progress = Math.max(0, Math.min(1, (elapsed - this.config.startDelay) / this.config.shrinkDuration));
+    return this.startRadius + (this.endRadius - this.startRadius) * progress;
+  }
+
+  contains(x: number, y: number, elapsed: number): boolean {
+    const radius = this.getRadius(elapsed);
+    const dx = x - this.arena.centerX;
+    const dy = y - this.arena.centerY;
+    return dx * dx + dy * dy <= radius * radius;
+  }
+
+  // Share of max health lost per second outside the zone (0 before it starts closing)
+  getDamagePerSecond(elapsed: number): number {
+    if (!this.isClosing(elapsed)) return 0;
+    const closingSeconds = (elapsed - this.config.startDelay) / 1000;
+    return this.config.damagePerSecond + this.config.damageRamp * closingSeconds;
+  }
+
+  // Shade everything outside the zone and outline its edge
+  draw(ctx: CanvasRenderingContext2D, elapsed: number): void {
+    if (!this.isClosing(elapsed)) return;
+    const radius = this.getRadius(elapsed);
+    const { centerX, centerY } = this.arena;
+
+    ctx.save();
+    this.arena.traceBoundary(ctx, 20);
+    ctx.moveTo(centerX + radius, centerY);
+    ctx.arc(centerX, centerY, radius, 0, Math.PI * 2, true);
+    ctx.fillStyle = 'rgba(76, 29, 149, 0.25)';
+    ctx.fill('evenodd');
+
+    ctx.strokeStyle = 'rgba(167, 139, 250, 0.8)';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([8, 6]);
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Seeded Random Number Generator
+ *
+ * Deterministic replacement for Math.random() so that a game started with the
+ * same seed and the same inputs plays out identically (deck shuffles, bid
+ * tie-breaks, crits, freeze procs...). Uses the mulberry32 algorithm: tiny,
+ * fast and good enough for gameplay rolls.
+ */
+export class SeededRandom {
+  private readonly seed: number;
+  private state: number;
+
+  constructor(seed: number = SeededRandom.randomSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  // Pick a fresh seed when the caller doesn't care about reproducibility
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  // Float in [0, 1) - drop-in replacement for Math.random()
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  // Integer in [0, maxExclusive)
+  nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  // True with the given probability (0-1)
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  // Derive an independent seed (e.g. one per battle from the game RNG)
+  nextSeed(): number {
+    return Math.floor(this.next() * 0x100000000) >>> 0;
+  }
+
+  // In-place Fisher-Yates shuffle
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Absorb Shields
+ *
+ * Temporary damage-absorbing layer on top of a unit's health. Each shield has
+ * an amount, an expiry and a source; incoming damage (hits and DoT ticks,
+ * after armor and resistances) drains the shields that expire soonest first
+ * and only the remainder reaches health. Shields never count as healing, so
+ * they can't push a unit over maxHealth.
+ */
+
+// What granted the shield - listeners and visuals treat some sources specially
+export type ShieldSource = 'god_power' | 'taunt' | 'card' | 'ability';
+
+export interface Shield {
+  amount: number;
+  expiresAt: number;   // Battle clock (ms) - Infinity lasts the whole battle
+  source: ShieldSource;
+}
+
+export class ShieldLayer {
+  private shields: Shield[] = [];
+
+  add(amount: number, duration: number, source: ShieldSource, now: number): void {
+    if (amount <= 0 || duration <= 0) return;
+    this.shields.push({ amount, expiresAt: now + duration, source });
+    // Soonest to expire soaks damage first, so long-lasting shields are kept
+    this.shields.sort((a, b) => a.expiresAt - b.expiresAt);
+  }
+
+  // Total shield left (optionally from one source)
+  getTotal(now: number, source?: ShieldSource): number {
+    let total = 0;
+    for (const shield of this.shields) {
+      if (shield.expiresAt <= now) continue;
+      if (source && shield.source !== source) continue;
+      total += shield.amount;
+    }
+    return total;
+  }
+
+  has(source: ShieldSource, now: number): boolean {
+    return this.getTotal(now, source) > 0;
+  }
+
+  // Soak up as much of the damage as the shields can - returns the amount absorbed
+  absorb(damage: number, now: number): number {
+    this.expire(now);
+    let remaining = damage;
+    for (const shield of this.shields) {
+      if (remaining <= 0) break;
+      const soaked = Math.min(shield.amount, remaining);
+      shield.amount -= soaked;
+      remaining -= soaked;
+    }
+    this.shields = this.shields.filter(s => s.amount > 0);
+    return damage - remaining;
+  }
+
+  clear(): void {
+    this.shields = [];
+  }
+
+  private expire(now: number): void {
+    if (this.shields.length > 0 && this.shields[0].expiresAt <= now) {
+      this.shields = this.shields.filter(s => s.expiresAt > now);
+    }
+  }
+
+  // Worker snapshots only carry the total and whether a taunt shield is up
+  applySnapshot(total: number, taunting: boolean): void {
+    this.shields = total > 0 ? [{ amount: total, expiresAt: Infinity, source: taunting ? 'taunt' : 'god_power' }] : [];
+  }
+}
@@ -1,6 +1,23 @@
 // Sound Manager using Web Audio API for procedural sound effects
 
+import type { AbilityKind, BattleEventBus } from './BattleEvents';
+
 class SoundManagerClass {
+  // Ability sounds reuse the closest existing effect
+  private readonly abilitySounds: Partial<Record<AbilityKind, () => void>> = {
+    taunt: () => this.playTaunt(),
+    sweep: () => this.playSweep(),
+    void_eruption: () => this.playChainFire(),
+    purify: () => this.playFreeze(),
+    ground_slam: () => this.playExplosion(),
+    expunge: () => this.playExplosion(),
+    ghost_burst: () => this.playFreeze(),
+    soul_reap: () => this.playFireball(),
+    charge: () => this.playSwordSwing(),
+    trample: () => this.playHit(),
+    ambush: () => this.playCritical(),
+    vanish: () => this.playFreeze()
+  };
   private audioContext: AudioContext | null = null;
   private masterVolume: number = 0.3;
   private enabled: boolean = true;
@@ -16,10 +33,37 @@ class SoundManagerClass {
     this.enabled = enabled;
   }
 
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
   setVolume(volume: number): void {
     this.masterVolume = Math.max(0, Math.min(1, volume));
   }
 
+  // Play combat sounds for everything announced on a battle's event bus
+  subscribe(events: BattleEventBus): void {
+    events.on('damage', event => {
+      // DoT ticks and thorns would drown out the actual hits
+      if (event.source === 'status' || event.source === 'thorns' || event.source === 'hazard' || event.source === 'zone') return;
+      if (event.isCrit) {
+        this.playCritical();
+      } else {
+        this.playHit();
+      }
+    });
+    events.on('death', () => this.playDeath());
+    events.on('status_applied', event => {
+      // Only on-hit freezes - Time Freeze already has its cast sound
+      if (event.status === 'frozen' && event.source) this.playFreeze();
+    });
+    events.on('ability_triggered', event => this.abilitySounds[event.ability]?.());
+    events.on('god_power_cast', event => {
+      if (event.card.type === 'shield_wall') this.playShield();
+      this.playHit();
+    });
+  }
+
   // Arrow shot - short twang
   playArrowShot(): void {
     if (!this.enabled) return;
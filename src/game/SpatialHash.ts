@@ -0,0 +1,121 @@
+/**
+ * Spatial Hash
+ *
+ * Uniform grid bucketing of units by position so proximity queries (target
+ * finding, splash, avoidance, slot blocking, god powers) only look at nearby
+ * cells instead of every unit in the battle. Rebuilt once per tick by the
+ * BattleSimulator; queries distance-check against live positions, padded a
+ * little so units that moved since the rebuild are still found.
+ */
+
+export interface SpatialItem {
+  x: number;
+  y: number;
+}
+
+export class SpatialHash<T extends SpatialItem> {
+  private readonly cellSize: number;
+  private readonly padding: number; // Extra search distance for movement since rebuild
+  private cells: Map<number, T[]> = new Map();
+
+  constructor(cellSize: number = 32, padding: number = 8) {
+    this.cellSize = cellSize;
+    this.padding = padding;
+  }
+
+  private cellCoord(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  // Pack cell coordinates into one numeric key (arena is far smaller than +-32768 cells)
+  private key(cx: number, cy: number): number {
+    return (cx + 32768) * 65536 + (cy + 32768);
+  }
+
+  clear(): void {
+    this.cells.clear();
+  }
+
+  insert(item: T): void {
+    const k = this.key(this.cellCoord(item.x), this.cellCoord(item.y));
+    const bucket = this.cells.get(k);
+    if (bucket) {
+      bucket.push(item);
+    } else {
+      this.cells.set(k, [item]);
+    }
+  }
+
+  rebuild(items: Iterable<T>): void {
+    this.clear();
+    for (const item of items) {
+      this.insert(item);
+    }
+  }
+
+  // All items within radius of (x, y)
+  queryRadius(x: number, y: number, radius: number, out: T[] = []): T[] {
+    const reach = radius + this.padding;
+    const minX = this.cellCoord(x - reach);
+    const maxX = this.cellCoord(x + reach);
+    const minY = this.cellCoord(y - reach);
+    const maxY = this.cellCoord(y + reach);
+    const radiusSq = radius * radius;
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        const bucket = this.cells.get(this.key(cx, cy));
+        if (!bucket) continue;
+        for (const item of bucket) {
+          const dx = item.x - x;
+          const dy = item.y - y;
+          if (dx * dx + dy * dy <= radiusSq) {
+            out.push(item);
+          }
+        }
+      }
+    }
+
+    return out;
+  }
+
+  // Closest item within maxRadius that passes the filter - searches outward ring by ring
+  findNearest(x: number, y: number, maxRadius: number, filter: (item: T) => boolean): T | null {
+    const originX = this.cellCoord(x);
+    const originY = this.cellCoord(y);
+    const maxRing = Math.ceil((maxRadius + this.padding) / this.cellSize);
+    const maxRadiusSq = maxRadius * maxRadius;
+
+    let best: T | null = null;
+    let bestDistSq = Infinity;
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      for (let cx = originX - ring; cx <= originX + ring; cx++) {
+        // Only the perimeter of this ring - inner cells were covered by earlier rings
+        const onEdgeX = cx === originX - ring || cx === originX + ring;
+        const step = onEdgeX ? 1 : ring * 2;
+        for (let cy = originY - ring; cy <= originY + ring; cy += Math.max(step, 1)) {
+          const bucket = this.cells.get(this.key(cx, cy));
+          if (!bucket) continue;
+          for (const item of bucket) {
+            const dx = item.x - x;
+            const dy = item.y - y;
+            const distSq = dx * dx + dy * dy;
+            if (distSq <= maxRadiusSq && distSq < bestDistSq && filter(item)) {
+              best = item;
+              bestDistSq = distSq;
+            }
+          }
+        }
+      }
+
+      // Anything in further rings is at least ring * cellSize away
+      const ringReach = ring * this.cellSize - this.padding;
+      if (best && ringReach > 0 && bestDistSq <= ringReach * ringReach) {
+        break;
+      }
+    }
+
+    return best;
+  }
+}
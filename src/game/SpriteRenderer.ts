@@ -482,16 +482,74 @@ export class SpriteRenderer {
     this.pixel(ctx, baseX, baseY + 3*p + bobOffset, p, armorDark);
   }
 
-  static drawHorseman(ctx: CanvasRenderingContext2D, x: number, y: number, team: Team, frame: number, direction: 'up' | 'down' | 'left' | 'right' = 'right'): void {
+  static drawAssassin(ctx: CanvasRenderingContext2D, x: number, y: number, team: Team, frame: number, flashing: boolean = false): void {
+    const p = 1;
+    const baseX = x - 5 * p;
+    const baseY = y - 6 * p;
+    const bobOffset = Math.sin(frame * Math.PI / 2) * 1;
+
+    // Dark cloak trimmed in team color (or white if flashing)
+    const teamColor = flashing ? '#ffffff' : TEAM_COLORS[team];
+    const cloak = flashing ? '#ffffff' : '#1f2937';
+    const cloakDark = flashing ? '#ffffff' : '#111827';
+    const trim = teamColor;
+    const eyes = this.lightenColor(teamColor, 0.5);
+    const blade = '#e5e7eb';
+
+    // Hood
+    this.pixel(ctx, baseX + 4*p, baseY - p + bobOffset, p, cloakDark);
+    this.pixel(ctx, baseX + 3*p, baseY + bobOffset, p, cloakDark);
+    this.pixel(ctx, baseX + 4*p, baseY + bobOffset, p, cloak);
+    this.pixel(ctx, baseX + 5*p, baseY + bobOffset, p, cloak);
+    this.pixel(ctx, baseX + 6*p, baseY + bobOffset, p, cloakDark);
+
+    // Shadowed face with glowing eyes
+    this.pixel(ctx, baseX + 3*p, baseY + p + bobOffset, p, cloakDark);
+    this.pixel(ctx, baseX + 4*p, baseY + p + bobOffset, p, eyes);
+    this.pixel(ctx, baseX + 5*p, baseY + p + bobOffset, p, eyes);
+    this.pixel(ctx, baseX + 6*p, baseY + p + bobOffset, p, cloakDark);
+
+    // Scarf
+    this.pixel(ctx, baseX + 3*p, baseY + 2*p + bobOffset, p, trim);
+    this.pixel(ctx, baseX + 4*p, baseY + 2*p + bobOffset, p, trim);
+    this.pixel(ctx, baseX + 5*p, baseY + 2*p + bobOffset, p, trim);
+    this.pixel(ctx, baseX + 6*p, baseY + 2*p + bobOffset, p, trim);
+
+    // Body (slim)
+    for (let i = 0; i < 2; i++) {
+      this.pixel(ctx, baseX + 3*p, baseY + (3+i)*p + bobOffset, p, cloakDark);
+      this.pixel(ctx, baseX + 4*p, baseY + (3+i)*p + bobOffset, p, cloak);
+      this.pixel(ctx, baseX + 5*p, baseY + (3+i)*p + bobOffset, p, cloak);
+      this.pixel(ctx, baseX + 6*p, baseY + (3+i)*p + bobOffset, p, cloakDark);
+    }
+
+    // Legs (crouched stride)
+    const stride = frame % 2 === 0 ? 0 : p;
+    this.pixel(ctx, baseX + 3*p + stride, baseY + 5*p + bobOffset, p, cloakDark);
+    this.pixel(ctx, baseX + 6*p - stride, baseY + 5*p + bobOffset, p, cloakDark);
+
+    // Twin daggers (animated)
+    const daggerOffset = frame % 2 === 0 ? 0 : p;
+    this.pixel(ctx, baseX + 2*p, baseY + 3*p + bobOffset - daggerOffset, p, blade);
+    this.pixel(ctx, baseX + 2*p, baseY + 4*p + bobOffset - daggerOffset, p, trim);
+    this.pixel(ctx, baseX + 7*p, baseY + 3*p + bobOffset + daggerOffset - p, p, blade);
+    this.pixel(ctx, baseX + 7*p, baseY + 4*p + bobOffset + daggerOffset - p, p, trim);
+  }
+
+  static drawHorseman(
+    ctx: CanvasRenderingContext2D, x: number, y: number, team: Team, frame: number,
+    direction: 'up' | 'down' | 'left' | 'right' = 'right', flashing: boolean = false
+  ): void {
     const p = 1; // pixel size (tiny units)
     const bobOffset = Math.sin(frame * Math.PI / 2) * 1;
 
-    // Colors
+    // Colors - rider in team color (or white if flashing)
+    const teamColor = flashing ? '#ffffff' : TEAM_COLORS[team];
     const skin = '#ffd5b5';
-    const armor = team === 'blue' ? '#3b82f6' : '#ef4444';
-    const armorDark = team === 'blue' ? '#1d4ed8' : '#b91c1c';
-    const armorLight = team === 'blue' ? '#60a5fa' : '#f87171';
-    const cape = team === 'blue' ? '#1e40af' : '#991b1b';
+    const armor = teamColor;
+    const armorDark = this.darkenColor(teamColor, 0.7);
+    const armorLight = this.lightenColor(teamColor, 0.3);
+    const cape = this.darkenColor(teamColor, 0.5);
     const horse = '#8b4513';
     const horseDark = '#5c3317';
     const horseLight = '#a0522d';
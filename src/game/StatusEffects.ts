@@ -0,0 +1,274 @@
+/**
+ * Status Effects
+ *
+ * Registry of every status effect a unit can carry. Each definition says how
+ * re-applications stack, whether its amount counts down per status tick
+ * (stacks) or is a duration on the battle clock (timed), what it does each
+ * tick, how it is drawn and which cleanse tags remove it. Units hold their
+ * current effects in a StatusEffectSet and run them through the registry, so
+ * a new effect only needs a definition here.
+ */
+
+import type { DamageType } from './DPSTracker';
+
+export type StatusKind = 'burning' | 'poison' | 'frozen' | 'void' | 'death';
+
+// What a cleanse can target - Purifying Light removes every 'debuff'
+export type StatusTag = 'debuff' | 'dot' | 'control';
+
+// How a new application combines with what's already there
+export type StatusStacking =
+  | 'add'      // Amounts add up
+  | 'max'      // The larger amount wins (refreshes without stacking)
+  | 'replace'; // The new amount replaces the old one
+
+// Status effects tick once per second of battle time
+export const STATUS_TICK_INTERVAL = 1000;
+
+// What an effect needs to know about the unit it is drawn on
+export interface StatusVisualTarget {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface StatusEffectDefinition {
+  kind: StatusKind;
+  stacking: StatusStacking;
+  // 'stacks' amounts lose decayPerTick each tick; 'timed' amounts are ms and run out on the battle clock
+  duration: 'stacks' | 'timed';
+  decayPerTick: number;
+  // Damage dealt each tick for the current stacks, with its damage type (null = no damage)
+  damageType: DamageType | null;
+  tickDamage: (stacks: number) => number;
+  preventsActing: boolean;
+  cleanseTags: readonly StatusTag[];
+  // 'under' visuals go beneath the unit's body, 'over' on top (sprite units draw all of them first)
+  layer: 'under' | 'over';
+  draw: (ctx: CanvasRenderingContext2D, unit: StatusVisualTarget, bobOffset: number, small: boolean) => void;
+}
+
+const noDamage = () => 0;
+
+function drawAura(ctx: CanvasRenderingContext2D, color: string, x: number, y: number, radius: number): void {
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+// Registry order is tick order and snapshot slot order
+export const STATUS_EFFECTS: readonly StatusEffectDefinition[] = [
+  {
+    kind: 'burning',
+    stacking: 'add',
+    duration: 'stacks',
+    decayPerTick: 1,
+    damageType: 'fire',
+    tickDamage: stacks => stacks,
+    preventsActing: false,
+    cleanseTags: ['debuff', 'dot'],
+    layer: 'over',
+    draw: (ctx, unit, bob, small) => drawAura(ctx, 'rgba(255, 100, 0, 0.6)', unit.x, unit.y + bob, small ? 5 : 12)
+  },
+  {
+    kind: 'poison',
+    stacking: 'add',
+    duration: 'stacks',
+    decayPerTick: 0.5,
+    damageType: 'poison',
+    tickDamage: stacks => stacks,
+    preventsActing: false,
+    cleanseTags: ['debuff', 'dot'],
+    layer: 'over',
+    draw: (ctx, unit, bob, small) => drawAura(ctx, 'rgba(100, 255, 0, 0.4)', unit.x, unit.y + (small ? 2 : 5) + bob, small ? 4 : 10)
+  },
+  {
+    kind: 'frozen',
+    stacking: 'replace',
+    duration: 'timed',
+    decayPerTick: 0,
+    damageType: null,
+    tickDamage: noDamage,
+    preventsActing: true,
+    cleanseTags: ['debuff', 'control'],
+    layer: 'under',
+    draw: (ctx, unit, bob, small) => {
+      const pad = small ? 1 : 3;
+      ctx.fillStyle = 'rgba(135, 206, 235, 0.5)';
+      ctx.fillRect(
+        unit.x - unit.width / 2 - pad,
+        unit.y - unit.height / 2 + bob - pad,
+        unit.width + pad * 2,
+        unit.height + pad * 2
+      );
+    }
+  },
+  {
+    kind: 'void',
+    stacking: 'add',
+    duration: 'stacks',
+    decayPerTick: 1.2,
+    damageType: 'void',
+    tickDamage: stacks => stacks,
+    preventsActing: false,
+    cleanseTags: ['debuff', 'dot'],
+    layer: 'over',
+    draw: (ctx, unit, bob, small) => drawAura(ctx, 'rgba(139, 92, 246, 0.5)', unit.x, unit.y + (small ? -1 : -3) + bob, small ? 5 : 11)
+  },
+  {
+    // Death mark - 1 damage per tick, stacks are seconds remaining
+    kind: 'death',
+    stacking: 'max',
+    duration: 'stacks',
+    decayPerTick: 1,
+    damageType: 'death',
+    tickDamage: () => 1,
+    preventsActing: false,
+    cleanseTags: ['debuff', 'dot'],
+    layer: 'over',
+    draw: (ctx, unit, bob, small) => {
+      if (small) return;
+
+      // Tiny skull above head
+      const skullX = unit.x;
+      const skullY = unit.y - 22 + bob;
+      const pulse = 0.8 + Math.sin(Date.now() / 200) * 0.2;
+
+      ctx.save();
+      ctx.globalAlpha = pulse;
+
+      // Skull (5x5 pixels, scaled down)
+      ctx.fillStyle = '#e5e5e5';
+      // Skull top
+      ctx.fillRect(skullX - 2, skullY - 3, 4, 2);
+      // Skull middle (wider)
+      ctx.fillRect(skullX - 3, skullY - 1, 6, 2);
+      // Skull bottom (jaw)
+      ctx.fillRect(skullX - 2, skullY + 1, 4, 1);
+
+      // Eye sockets (black)
+      ctx.fillStyle = '#1a1a1a';
+      ctx.fillRect(skullX - 2, skullY - 1, 1, 1);
+      ctx.fillRect(skullX + 1, skullY - 1, 1, 1);
+
+      ctx.restore();
+    }
+  }
+];
+
+const DEFINITIONS = new Map<StatusKind, StatusEffectDefinition>(STATUS_EFFECTS.map(def => [def.kind, def]));
+
+export function getStatusEffect(kind: StatusKind): StatusEffectDefinition {
+  return DEFINITIONS.get(kind)!;
+}
+
+// One status tick's damage from one effect
+export interface StatusTickDamage {
+  definition: StatusEffectDefinition;
+  damage: number;
+}
+
+// The effects currently on one unit. Times are whatever clock the owner runs on.
+export class StatusEffectSet {
+  // Stacks, or expiry time for timed effects
+  private values: Map<StatusKind, number> = new Map();
+
+  apply(kind: StatusKind, amount: number, now: number): void {
+    const def = getStatusEffect(kind);
+    const current = this.get(kind, now);
+    let next: number;
+    switch (def.stacking) {
+      case 'add':
+        next = current + amount;
+        break;
+      case 'max':
+        next = Math.max(current, amount);
+        break;
+      case 'replace':
+        next = amount;
+        break;
+    }
+    this.values.set(kind, def.duration === 'timed' ? now + next : next);
+  }
+
+  // Stacks for stack effects, ms remaining for timed ones
+  get(kind: StatusKind, now: number): number {
+    const value = this.values.get(kind) ?? 0;
+    return getStatusEffect(kind).duration === 'timed' ? Math.max(0, value - now) : value;
+  }
+
+  has(kind: StatusKind, now: number): boolean {
+    return this.get(kind, now) > 0;
+  }
+
+  // True while any active effect stops the unit from acting (frozen)
+  preventsActing(now: number): boolean {
+    for (const [kind] of this.values) {
+      if (getStatusEffect(kind).preventsActing && this.has(kind, now)) return true;
+    }
+    return false;
+  }
+
+  // Run one status tick: collect each damaging effect's damage, then decay its stacks
+  tick(now: number): StatusTickDamage[] {
+    const damage: StatusTickDamage[] = [];
+    for (const definition of STATUS_EFFECTS) {
+      const stacks = this.get(definition.kind, now);
+      if (stacks <= 0) continue;
+
+      if (definition.damageType) {
+        damage.push({ definition, damage: definition.tickDamage(stacks) });
+      }
+      if (definition.duration === 'stacks') {
+        this.values.set(definition.kind, Math.max(0, stacks - definition.decayPerTick));
+      }
+    }
+    return damage;
+  }
+
+  // Remove every effect carrying the tag
+  cleanse(tag: StatusTag): void {
+    for (const kind of [...this.values.keys()]) {
+      if (getStatusEffect(kind).cleanseTags.includes(tag)) {
+        this.values.delete(kind);
+      }
+    }
+  }
+
+  remove(kind: StatusKind): void {
+    this.values.delete(kind);
+  }
+
+  // Draw the active effects of one layer (or all of them)
+  draw(ctx: CanvasRenderingContext2D, unit: StatusVisualTarget, bobOffset: number, now: number, options: {
+    small?: boolean; layer?: 'under' | 'over';
+  } = {}): void {
+    for (const definition of STATUS_EFFECTS) {
+      if (options.layer && definition.layer !== options.layer) continue;
+      if (this.has(definition.kind, now)) {
+        definition.draw(ctx, unit, bobOffset, options.small ?? false);
+      }
+    }
+  }
+
+  // One snapshot value per registry entry: stacks, or ms remaining for timed effects
+  writeSnapshot(data: Float32Array, offset: number, now: number): void {
+    STATUS_EFFECTS.forEach((definition, i) => {
+      data[offset + i] = this.get(definition.kind, now);
+    });
+  }
+
+  // Display mirrors never tick, so timed effects just stay on until the next snapshot clears them
+  applySnapshot(data: Float32Array, offset: number): void {
+    STATUS_EFFECTS.forEach((definition, i) => {
+      const value = data[offset + i];
+      if (value <= 0) {
+        this.values.delete(definition.kind);
+      } else {
+        this.values.set(definition.kind, definition.duration === 'timed' ? Infinity : value);
+      }
+    });
+  }
+}
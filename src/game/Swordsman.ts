@@ -32,7 +32,7 @@ export class Swordsman extends Fighter {
   }
 
   protected attack(target: Fighter, allEnemies?: Fighter[]): void {
-    const now = Date.now();
+    const now = this.context.clock.now();
     if (now - this.lastAttackTime >= this.attackCooldown) {
       this.attackCount++;
 
@@ -40,7 +40,7 @@ export class Swordsman extends Fighter {
       if (this.modifiers?.swordsmanSweepAbility && this.attackCount % 3 === 0 && allEnemies) {
         this.performSweepAttack(allEnemies);
         this.isSweeping = true;
-        SoundManager.playSweep();
+        this.announceAbility('sweep');
       } else {
         this.dealDamage(target, this.damage, allEnemies);
         this.isSwinging = true;
@@ -54,9 +54,12 @@ export class Swordsman extends Fighter {
 
   private performSweepAttack(allEnemies: Fighter[]): void {
     const sweepRange = this.attackRange * 2; // Sweep has larger range
+    const nearby = this.context.spatialIndex
+      ? this.context.spatialIndex.queryRadius(this.x, this.y, sweepRange)
+      : allEnemies;
 
-    for (const enemy of allEnemies) {
-      if (enemy.isDead) continue;
+    for (const enemy of nearby) {
+      if (enemy.isDead || enemy.team === this.team) continue;
       const dist = this.getDistanceTo(enemy);
 
       if (dist <= sweepRange) {
@@ -0,0 +1,139 @@
+/**
+ * Terrain
+ *
+ * Ground types painted on HexGrid cells. Every tick the battle tells each
+ * fighter what it is standing on: forest gives cover from ranged hits, swamp
+ * slows movement, high ground extends attack range and lava sets units on
+ * fire. Cells without a tile are plain ground with no effect.
+ */
+
+import type { HexCoord, HexGrid } from './HexGrid';
+
+export type TerrainKind = 'forest' | 'swamp' | 'high_ground' | 'lava';
+
+export interface TerrainTile extends HexCoord {
+  kind: TerrainKind;
+}
+
+export interface TerrainEffect {
+  name: string;
+  speedMultiplier: number;      // Applied to movement speed while on the tile
+  rangeMultiplier: number;      // Applied to attackRange while on the tile
+  rangedDamageTaken: number;    // Share of hits from ranged units that get through (1 = no cover)
+  burnPerTick: number;          // Burning stacks added each status tick while on the tile
+}
+
+export const TERRAIN_EFFECTS: Record<TerrainKind, TerrainEffect> = {
+  forest: { name: 'Forest', speedMultiplier: 1, rangeMultiplier: 1, rangedDamageTaken: 0.6, burnPerTick: 0 },
+  swamp: { name: 'Swamp', speedMultiplier: 0.5, rangeMultiplier: 1, rangedDamageTaken: 1, burnPerTick: 0 },
+  high_ground: { name: 'High Ground', speedMultiplier: 1, rangeMultiplier: 1.25, rangedDamageTaken: 1, burnPerTick: 0 },
+  lava: { name: 'Lava', speedMultiplier: 0.8, rangeMultiplier: 1, rangedDamageTaken: 1, burnPerTick: 3 }
+};
+
+// Default battlefield on the 16x12 battle grid - mirrored left/right and top/bottom
+export const DEFAULT_TERRAIN: TerrainTile[] = [
+  // Forests on the flanks
+  { col: 2, row: 5, kind: 'forest' },
+  { col: 3, row: 5, kind: 'forest' },
+  { col: 2, row: 6, kind: 'forest' },
+  { col: 3, row: 6, kind: 'forest' },
+  { col: 11, row: 5, kind: 'forest' },
+  { col: 12, row: 5, kind: 'forest' },
+  { col: 12, row: 6, kind: 'forest' },
+  { col: 13, row: 6, kind: 'forest' },
+  // Swamp around the central rocks
+  { col: 7, row: 4, kind: 'swamp' },
+  { col: 8, row: 4, kind: 'swamp' },
+  { col: 6, row: 5, kind: 'swamp' },
+  { col: 8, row: 5, kind: 'swamp' },
+  { col: 6, row: 6, kind: 'swamp' },
+  { col: 9, row: 6, kind: 'swamp' },
+  { col: 7, row: 7, kind: 'swamp' },
+  // Hills overlooking the middle
+  { col: 7, row: 2, kind: 'high_ground' },
+  { col: 8, row: 2, kind: 'high_ground' },
+  { col: 7, row: 8, kind: 'high_ground' },
+  { col: 8, row: 8, kind: 'high_ground' },
+  // Lava vents between the walls and the pillars
+  { col: 5, row: 3, kind: 'lava' },
+  { col: 9, row: 3, kind: 'lava' },
+  { col: 5, row: 7, kind: 'lava' },
+  { col: 9, row: 7, kind: 'lava' }
+];
+
+const TERRAIN_COLORS: Record<TerrainKind, { fill: string; edge: string }> = {
+  forest: { fill: 'rgba(22, 101, 52, 0.55)', edge: 'rgba(34, 197, 94, 0.4)' },
+  swamp: { fill: 'rgba(63, 72, 38, 0.6)', edge: 'rgba(101, 112, 58, 0.5)' },
+  high_ground: { fill: 'rgba(120, 113, 108, 0.45)', edge: 'rgba(214, 211, 209, 0.5)' },
+  lava: { fill: 'rgba(185, 28, 28, 0.6)', edge: 'rgba(249, 115, 22, 0.8)' }
+};
+
+function traceHex(ctx: CanvasRenderingContext2D, x: number, y: number, size: number): void {
+  ctx.beginPath();
+  for (let i = 0; i < 6; i++) {
+    const angle = (Math.PI / 3) * i - Math.PI / 6; // Pointy-top
+    const hx = x + size * Math.cos(angle);
+    const hy = y + size * Math.sin(angle);
+    if (i === 0) {
+      ctx.moveTo(hx, hy);
+    } else {
+      ctx.lineTo(hx, hy);
+    }
+  }
+  ctx.closePath();
+}
+
+export function drawTerrain(ctx: CanvasRenderingContext2D, grid: HexGrid): void {
+  const size = grid.getHexSize();
+
+  for (const tile of grid.getTerrainTiles()) {
+    const { x, y } = grid.hexToPixel(tile);
+    const colors = TERRAIN_COLORS[tile.kind];
+
+    traceHex(ctx, x, y, size);
+    ctx.fillStyle = colors.fill;
+    ctx.fill();
+    ctx.strokeStyle = colors.edge;
+    ctx.lineWidth = 1;
+    ctx.stroke();
+
+    // Small marks so the kinds read apart at a glance
+    switch (tile.kind) {
+      case 'forest':
+        ctx.fillStyle = 'rgba(21, 128, 61, 0.9)';
+        for (const [ox, oy] of [[-6, -4], [5, -6], [0, 5]]) {
+          ctx.beginPath();
+          ctx.moveTo(x + ox, y + oy - 5);
+          ctx.lineTo(x + ox - 4, y + oy + 3);
+          ctx.lineTo(x + ox + 4, y + oy + 3);
+          ctx.closePath();
+          ctx.fill();
+        }
+        break;
+      case 'swamp':
+        ctx.strokeStyle = 'rgba(132, 204, 22, 0.35)';
+        ctx.beginPath();
+        ctx.moveTo(x - 8, y - 3);
+        ctx.quadraticCurveTo(x - 4, y - 6, x, y - 3);
+        ctx.moveTo(x - 2, y + 4);
+        ctx.quadraticCurveTo(x + 2, y + 1, x + 6, y + 4);
+        ctx.stroke();
+        break;
+      case 'high_ground':
+        traceHex(ctx, x, y, size * 0.6);
+        ctx.strokeStyle = 'rgba(231, 229, 228, 0.35)';
+        ctx.stroke();
+        break;
+      case 'lava': {
+        const glow = ctx.createRadialGradient(x, y, 0, x, y, size * 0.8);
+        glow.addColorStop(0, 'rgba(253, 224, 71, 0.7)');
+        glow.addColorStop(1, 'rgba(249, 115, 22, 0)');
+        ctx.fillStyle = glow;
+        ctx.beginPath();
+        ctx.arc(x, y, size * 0.8, 0, Math.PI * 2);
+        ctx.fill();
+        break;
+      }
+    }
+  }
+}
@@ -1,8 +1,8 @@
 import type { Team, FighterType, Position } from './types';
 import type { Fighter } from './Fighter';
-import { Arrow } from './Arrow';
 import { SpriteRenderer } from './SpriteRenderer';
-import { DamageNumberManager } from './DamageNumber';
+import { BattleContext } from './BattleContext';
+import { StatusEffectSet } from './StatusEffects';
 
 export class Tower {
   x: number;
@@ -19,16 +19,10 @@ export class Tower {
   attackCooldown: number = 400; // Fast attack
   damage: number = 30; // High damage
   lastAttackTime: number = 0;
-  arrows: Arrow[] = [];
+  // Battle state for damage numbers and projectiles - replaced by the owning game
+  context: BattleContext = new BattleContext();
   // Dummy properties to be compatible with Fighter targeting
-  statusEffects = {
-    burning: 0,
-    poison: 0,
-    frozen: 0,
-    frozenUntil: 0,
-    void: 0,
-    death: 0
-  };
+  statusEffects: StatusEffectSet = new StatusEffectSet();
 
   constructor(team: Team, canvasWidth: number, canvasHeight: number) {
     this.team = team;
@@ -49,22 +43,19 @@ export class Tower {
 
   takeDamage(amount: number): void {
     this.health -= amount;
-    DamageNumberManager.spawn(this.x, this.y - 20, amount);
+    this.context.damageNumbers.spawn(this.x, this.y - 20, amount);
     if (this.health <= 0) {
       this.health = 0;
       this.isDead = true;
     }
   }
 
+  // Towers shrug off status effects
+  applyStatus(): void {}
+
   update(enemies: Fighter[]): void {
     if (this.isDead) return;
 
-    // Update arrows
-    for (const arrow of this.arrows) {
-      arrow.update();
-    }
-    this.arrows = this.arrows.filter(arrow => !arrow.isDead);
-
     // Find target and attack
     const target = this.findTarget(enemies);
     if (target) {
@@ -95,17 +86,12 @@ export class Tower {
   private attack(target: Fighter): void {
     const now = Date.now();
     if (now - this.lastAttackTime >= this.attackCooldown) {
-      this.arrows.push(new Arrow(this.x, this.y, target, this.damage, this.team));
+      this.context.projectiles.spawnArrow(this.x, this.y, target, this.damage, this.team);
       this.lastAttackTime = now;
     }
   }
 
   draw(ctx: CanvasRenderingContext2D): void {
-    // Always draw arrows even if tower is dead
-    for (const arrow of this.arrows) {
-      arrow.draw(ctx);
-    }
-
     if (this.isDead) return;
 
     // Draw pixel art tower sprite
@@ -1,4 +1,5 @@
 import type { FighterType } from './types';
+import { SeededRandom } from './SeededRandom';
 
 export interface UnitCard {
   id: number;
@@ -34,22 +35,34 @@ const UNIT_DEFINITIONS: Record<FighterType, { name: string; description: string;
     name: 'Healer',
     description: 'Heals allies, purify ability, support role',
     color: '#22d3ee' // Cyan
+  },
+  cavalry: {
+    name: 'Cavalry',
+    description: 'Fast charges, rides down light units, trample ability',
+    color: '#a16207' // Brown
+  },
+  assassin: {
+    name: 'Assassin',
+    description: 'Starts stealthed, dives the backline, vanish ability',
+    color: '#64748b' // Slate
   }
 };
 
 export class UnitCardDeck {
   private cards: UnitCard[] = [];
   private dealtCards: UnitCard[] = [];
+  private rng: SeededRandom;
 
-  constructor() {
+  constructor(rng: SeededRandom = new SeededRandom()) {
+    this.rng = rng;
     this.initializeDeck();
   }
 
   private initializeDeck(): void {
-    const types: FighterType[] = ['knight', 'swordsman', 'archer', 'mage', 'healer'];
+    const types: FighterType[] = ['knight', 'swordsman', 'archer', 'mage', 'healer', 'cavalry', 'assassin'];
     let id = 1;
 
-    // Create 3 cards of each unit type (15 total) - enough for 6 players with 2 each
+    // Create 3 cards of each unit type (21 total) - enough for 6 players with 2 each
     for (const type of types) {
       for (let i = 0; i < 3; i++) {
         const def = UNIT_DEFINITIONS[type];
@@ -65,11 +78,7 @@ export class UnitCardDeck {
   }
 
   shuffle(): void {
-    // Fisher-Yates shuffle
-    for (let i = this.cards.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [this.cards[i], this.cards[j]] = [this.cards[j], this.cards[i]];
-    }
+    this.rng.shuffle(this.cards);
   }
 
   deal(count: number): UnitCard[] {
@@ -1,31 +1,46 @@
-import { Fighter } from './Fighter';
+import type { Fighter } from './Fighter';
 import { SoundManager } from './SoundManager';
 import type { Team } from './types';
-
-export class VoidBolt {
-  x: number;
-  y: number;
-  targetX: number;
-  targetY: number;
+import type { ProjectileSnapshot } from './BattleSnapshot';
+import type { Projectile, ProjectileWorld } from './ProjectileManager';
+import type { SeededRandom } from './SeededRandom';
+
+export class VoidBolt implements Projectile {
+  readonly kind = 'void_bolt';
+  x: number = 0;
+  y: number = 0;
+  targetX: number = 0;
+  targetY: number = 0;
   speed: number = 2;
-  damage: number;
-  team: Team;
-  target: Fighter | null;
-  shooter: Fighter | null;
+  damage: number = 0;
+  team: Team = 'red';
+  target: Fighter | null = null;
+  shooter: Fighter | null = null;
+  // Battle RNG from the ProjectileManager so crit rolls stay reproducible
+  private rng!: SeededRandom;
   isDead: boolean = false;
-  angle: number;
+  angle: number = 0;
   impactRadius: number = 10;
   isImpacting: boolean = false;
   impactFrame: number = 0;
   isGroundTargeted: boolean = false; // Artillery mode - doesn't track target
 
-  constructor(x: number, y: number, target: Fighter | null, damage: number, team: Team, shooter?: Fighter, groundTargetX?: number, groundTargetY?: number) {
+  // (Re)initialise for a fresh or pooled bolt
+  launch(
+    rng: SeededRandom, x: number, y: number, target: Fighter | null, damage: number, team: Team,
+    shooter: Fighter | null, groundTargetX?: number, groundTargetY?: number
+  ): void {
+    this.rng = rng;
     this.x = x;
     this.y = y;
     this.target = target;
     this.damage = damage;
     this.team = team;
-    this.shooter = shooter || null;
+    this.shooter = shooter;
+    this.isDead = false;
+    this.isImpacting = false;
+    this.impactFrame = 0;
+    this.isGroundTargeted = false;
 
     // Ground targeted mode (artillery)
     if (groundTargetX !== undefined && groundTargetY !== undefined) {
@@ -45,7 +60,12 @@ export class VoidBolt {
     this.angle = Math.atan2(dy, dx);
   }
 
-  update(enemies: Fighter[], allies?: Fighter[]): void {
+  release(): void {
+    this.target = null;
+    this.shooter = null;
+  }
+
+  update(world: ProjectileWorld): void {
     if (this.isDead) return;
 
     if (this.isImpacting) {
@@ -73,7 +93,13 @@ export class VoidBolt {
     const distance = Math.sqrt(dx * dx + dy * dy);
 
     if (distance < 18) {
-      this.impact(enemies, allies);
+      // Allies get friendly fire splash damage
+      this.impact(world.enemiesOf(this.team), world.alliesOf(this.team));
+    } else if (world.isBlocked(this.x, this.y)) {
+      // Flew into an obstacle - detonate against it instead
+      this.targetX = this.x;
+      this.targetY = this.y;
+      this.impact(world.enemiesOf(this.team), world.alliesOf(this.team));
     }
 
     // Kill bolt if it goes way off screen (larger canvas bounds)
@@ -107,23 +133,22 @@ export class VoidBolt {
         // Critical hit check (base 5% * multiplier)
         const baseCritChance = 0.05;
         const critMultiplier = modifiers?.critChance || 1;
-        if (Math.random() < baseCritChance * critMultiplier) {
+        if (this.rng.chance(baseCritChance * critMultiplier)) {
           finalDamage *= 2;
           isCrit = true;
         }
 
-        enemy.takeDamage(finalDamage, this.shooter || undefined, isCrit);
+        enemy.takeDamage(finalDamage, this.shooter || undefined, isCrit, 'void');
 
         // Mages always apply void DoT on hit (enemies only)
         const baseVoidDamage = 4;
         const voidMultiplier = modifiers?.voidDoTMultiplier || 1;
-        enemy.statusEffects.void += baseVoidDamage * voidMultiplier;
+        enemy.applyStatus('void', baseVoidDamage * voidMultiplier, this.shooter);
 
         // Lifesteal
         if (modifiers && modifiers.lifestealPercent > 1 && this.shooter) {
           const lifestealPercent = modifiers.lifestealPercent - 1;
-          const healAmount = finalDamage * lifestealPercent;
-          this.shooter.health = Math.min(this.shooter.maxHealth, this.shooter.health + healAmount);
+          this.shooter.heal(finalDamage * lifestealPercent, this.shooter, 'lifesteal');
         }
       }
     }
@@ -140,44 +165,59 @@ export class VoidBolt {
           // Damage falls off with distance (min 75% at edge)
           const damageMultiplier = 1 - (dist / this.impactRadius) * 0.25;
           const finalDamage = Math.floor(this.damage * damageMultiplier);
-          ally.takeDamage(finalDamage, this.shooter || undefined, false);
+          ally.takeDamage(finalDamage, this.shooter || undefined, false, 'void');
           // No void DoT on allies
         }
       }
     }
   }
 
+  toSnapshot(): ProjectileSnapshot {
+    return {
+      kind: 'void_bolt',
+      x: this.x,
+      y: this.y,
+      angle: this.angle,
+      impactFrame: this.isImpacting ? this.impactFrame : -1,
+      impactRadius: this.impactRadius
+    };
+  }
+
   draw(ctx: CanvasRenderingContext2D): void {
     if (this.isDead) return;
+    VoidBolt.drawAt(ctx, this.x, this.y, this.isImpacting ? this.impactFrame : -1, this.impactRadius);
+  }
 
-    if (this.isImpacting) {
+  // Shared with worker-mode rendering - impactFrame is -1 while the bolt is in flight
+  static drawAt(ctx: CanvasRenderingContext2D, x: number, y: number, impactFrame: number, impactRadius: number): void {
+    if (impactFrame >= 0) {
       // Draw void implosion effect
-      const progress = this.impactFrame / 12;
-      const radius = this.impactRadius * (1 - progress * 0.3);
+      const progress = impactFrame / 12;
+      const radius = impactRadius * (1 - progress * 0.3);
       const alpha = 1 - progress;
 
       // Outer void ring
       ctx.beginPath();
-      ctx.arc(this.x, this.y, this.impactRadius, 0, Math.PI * 2);
+      ctx.arc(x, y, impactRadius, 0, Math.PI * 2);
       ctx.strokeStyle = `rgba(124, 58, 237, ${alpha * 0.6})`;
       ctx.lineWidth = 2;
       ctx.stroke();
 
       // Void fill (dark purple)
       ctx.beginPath();
-      ctx.arc(this.x, this.y, radius, 0, Math.PI * 2);
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
       ctx.fillStyle = `rgba(88, 28, 135, ${alpha * 0.5})`;
       ctx.fill();
 
       // Inner void core
       ctx.beginPath();
-      ctx.arc(this.x, this.y, radius * 0.5, 0, Math.PI * 2);
+      ctx.arc(x, y, radius * 0.5, 0, Math.PI * 2);
       ctx.fillStyle = `rgba(139, 92, 246, ${alpha * 0.7})`;
       ctx.fill();
 
       // Center bright point
       ctx.beginPath();
-      ctx.arc(this.x, this.y, radius * 0.2, 0, Math.PI * 2);
+      ctx.arc(x, y, radius * 0.2, 0, Math.PI * 2);
       ctx.fillStyle = `rgba(196, 181, 253, ${alpha})`;
       ctx.fill();
       return;
@@ -185,7 +225,7 @@ export class VoidBolt {
 
     // Draw void bolt
     ctx.save();
-    ctx.translate(this.x, this.y);
+    ctx.translate(x, y);
 
     // Outer glow (purple)
     const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, 7);
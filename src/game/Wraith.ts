@@ -1,9 +1,10 @@
 import { Fighter } from './Fighter';
-import { Ghost } from './Ghost';
 import { SpriteRenderer } from './SpriteRenderer';
-import { SoundManager } from './SoundManager';
-import { DamageNumberManager } from './DamageNumber';
 import type { Team, FighterType } from './types';
+import type { DamageType } from './DPSTracker';
+import { NO_DEFENSE, type DefenseProfile } from './Defense';
+import type { GodPowerType } from './GodCardDeck';
+import type { StatusKind } from './StatusEffects';
 
 export class Wraith extends Fighter {
   private attackAnimation: number = 0;
@@ -11,7 +12,6 @@ export class Wraith extends Fighter {
   private readonly REAP_INTERVAL: number = 4000; // Soul reap every 4 seconds
   private ghostBurstCooldown: number = 0;
   private readonly GHOST_BURST_INTERVAL: number = 15000; // Ghost burst every 15 seconds
-  ghosts: Ghost[] = [];
 
   constructor(team: Team, x: number, canvasHeight: number) {
     super(team, x, canvasHeight);
@@ -44,17 +44,10 @@ export class Wraith extends Fighter {
   update(enemies: Fighter[], deltaTime: number, _allies?: Fighter[]): void {
     if (this.isDead) return;
 
-    // Update ghosts
-    for (const ghost of this.ghosts) {
-      ghost.update(enemies);
-    }
-    this.ghosts = this.ghosts.filter(g => !g.isDead);
-
     // Process status effects
-    this.processStatusEffectsPublic(deltaTime);
+    this.processStatusEffects(deltaTime);
 
-    // Check if frozen
-    if (Date.now() < this.statusEffects.frozenUntil) {
+    if (this.isFrozen()) {
       return;
     }
 
@@ -106,59 +99,22 @@ export class Wraith extends Fighter {
     const numGhosts = 15;
     const angleStep = (Math.PI * 2) / numGhosts;
 
-    SoundManager.playFreeze();
+    this.announceAbility('ghost_burst');
     this.attackAnimation = 20;
 
     for (let i = 0; i < numGhosts; i++) {
       const angle = angleStep * i;
-      this.ghosts.push(new Ghost(this.x, this.y, angle, this.damage, this.team, this));
+      this.context.projectiles.spawnGhost(this.x, this.y, angle, this.damage, this.team, this);
     }
   }
 
-  private processStatusEffectsPublic(_deltaTime: number): void {
-    // Wraith takes reduced status effect damage
-    const now = Date.now();
-    const lastTick = (this as any).lastStatusTick || 0;
-    if (now - lastTick < 1000) return;
-    (this as any).lastStatusTick = now;
-
-    if (this.statusEffects.burning > 0) {
-      const burnDamage = Math.floor(this.statusEffects.burning * 0.5);
-      this.health -= burnDamage;
-      DamageNumberManager.spawn(this.x, this.y - 20, burnDamage, '#ff6600');
-      this.statusEffects.burning = Math.max(0, this.statusEffects.burning - 1);
-    }
-
-    if (this.statusEffects.poison > 0) {
-      const poisonDamage = Math.floor(this.statusEffects.poison * 0.5);
-      this.health -= poisonDamage;
-      DamageNumberManager.spawn(this.x, this.y - 20, poisonDamage, '#22c55e');
-      this.statusEffects.poison = Math.max(0, this.statusEffects.poison - 0.5);
-    }
-
-    if (this.statusEffects.void > 0) {
-      const voidDamage = Math.floor(this.statusEffects.void * 0.5);
-      this.health -= voidDamage;
-      DamageNumberManager.spawn(this.x, this.y - 20, voidDamage, '#a855f7');
-      this.statusEffects.void = Math.max(0, this.statusEffects.void - 1.2);
-    }
-
-    if (this.statusEffects.death > 0) {
-      const deathDamage = Math.floor(this.statusEffects.death * 0.5);
-      this.health -= deathDamage;
-      DamageNumberManager.spawn(this.x, this.y - 20, deathDamage, '#e5e5e5');
-      this.statusEffects.death = Math.max(0, this.statusEffects.death - 1);
-    }
-
-    if (this.health <= 0) {
-      this.health = 0;
-      this.isDead = true;
-      SoundManager.playDeath();
-    }
+  // Wraith takes half damage from status effects
+  protected scaleStatusDamage(damage: number, _kind: StatusKind): number {
+    return Math.floor(damage * 0.5);
   }
 
   private soulReap(enemies: Fighter[]): void {
-    SoundManager.playFireball();
+    this.announceAbility('soul_reap');
     this.attackAnimation = 25;
 
     // Damage enemies in a cone and heal self
@@ -173,10 +129,11 @@ export class Wraith extends Fighter {
       const dist = Math.sqrt(dx * dx + dy * dy);
 
       if (dist <= reapRadius) {
-        enemy.takeDamage(reapDamage, this);
-        // Apply death DoT on soul reap (10 seconds) - skip structures
+        enemy.takeDamage(reapDamage, this, false, 'death');
+        // Apply death DoT on soul reap (10 seconds) and drag the soul in - skip structures
         if (!(enemy as any).isStructure) {
-          enemy.statusEffects.death = Math.max(enemy.statusEffects.death, 10);
+          enemy.applyStatus('death', 10, this);
+          this.context.displacement.pull(enemy, this.x, this.y, 20, { source: this });
         }
         totalHealed += 15; // Heal per target hit
       }
@@ -184,29 +141,28 @@ export class Wraith extends Fighter {
 
     // Heal wraith
     if (totalHealed > 0) {
-      this.health = Math.min(this.maxHealth, this.health + totalHealed);
-      DamageNumberManager.spawn(this.x, this.y - 30, totalHealed, '#22c55e');
+      this.heal(totalHealed, this, 'ability');
     }
   }
 
   protected attack(target: Fighter, _allEnemies?: Fighter[]): void {
-    const now = Date.now();
+    const now = this.context.clock.now();
     if (now - this.lastAttackTime >= this.attackCooldown) {
       this.attackAnimation = 12;
 
       // Scythe attack with life steal
-      const isCrit = Math.random() < 0.15; // 15% crit chance
+      const isCrit = this.context.rng.chance(0.15); // 15% crit chance
       const damage = isCrit ? this.damage * 2 : this.damage;
       target.takeDamage(damage, this, isCrit);
 
       // Apply death DoT on melee (10 seconds) - skip structures
       if (!(target as any).isStructure) {
-        target.statusEffects.death = Math.max(target.statusEffects.death, 10);
+        target.applyStatus('death', 10, this);
       }
 
       // Life steal on hit
       const lifeSteal = Math.floor(damage * 0.2);
-      this.health = Math.min(this.maxHealth, this.health + lifeSteal);
+      this.heal(lifeSteal, this, 'lifesteal');
 
       this.lastAttackTime = now;
     }
@@ -245,18 +201,21 @@ export class Wraith extends Fighter {
     this.target = closestStructure || closest;
   }
 
-  takeDamage(amount: number, attacker?: Fighter, isCrit: boolean = false): void {
+  // Flat reduction below replaces the knight/mage armor and resistances
+  protected getBaseDefense(): DefenseProfile {
+    return NO_DEFENSE;
+  }
+
+  takeDamage(
+    amount: number, attacker?: Fighter, isCrit: boolean = false, damageType: DamageType = 'physical',
+    godPower: GodPowerType | null = null
+  ): void {
     // Wraith takes slightly reduced damage (ethereal)
     const reducedAmount = Math.floor(amount * 0.85);
-    super.takeDamage(reducedAmount, attacker, isCrit);
+    super.takeDamage(reducedAmount, attacker, isCrit, damageType, godPower);
   }
 
   draw(ctx: CanvasRenderingContext2D): void {
-    // Draw ghosts
-    for (const ghost of this.ghosts) {
-      ghost.draw(ctx);
-    }
-
     if (this.isDead) return;
 
     // Draw ghost burst indicator when about to burst
@@ -306,9 +265,10 @@ export class Wraith extends Fighter {
     ctx.fillStyle = '#333';
     ctx.fillRect(barX, barY, barWidth, barHeight);
 
-    const healthPercent = this.health / this.maxHealth;
+    const healthPercent = this.health / this.getHealthBarScale();
     ctx.fillStyle = '#9333ea'; // Purple health bar
     ctx.fillRect(barX, barY, barWidth * healthPercent, barHeight);
+    this.drawShieldSegment(ctx, barX, barY, barWidth, barHeight);
 
     ctx.strokeStyle = '#000';
     ctx.lineWidth = 1;
@@ -1,6 +1,6 @@
 // 6 teams positioned around a hexagon
 export type Team = 'blue' | 'purple' | 'pink' | 'red' | 'orange' | 'green';
-export type FighterType = 'swordsman' | 'archer' | 'mage' | 'knight' | 'healer';
+export type FighterType = 'swordsman' | 'archer' | 'mage' | 'knight' | 'healer' | 'cavalry' | 'assassin';
 
 // Team colors for rendering
 export const TEAM_COLORS: Record<Team, string> = {
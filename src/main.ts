@@ -1,9 +1,11 @@
 import './style.css';
 import { inject } from '@vercel/analytics';
 import { PokerGame, type PokerGameState } from './game/PokerGame';
-import { PokerRenderer } from './game/PokerRenderer';
+import { PokerRenderer, PLAYER_COLORS, PLAYER_NAMES } from './game/PokerRenderer';
 import { BattleArena } from './game/BattleArena';
+import { DEFAULT_SAFE_ZONE } from './game/SafeZone';
 import { GOD_CARDS } from './game/GodCardDeck';
+import { parseReplay, type BattleReplay } from './game/BattleReplay';
 import { SoundManager } from './game/SoundManager';
 import type { PlayerPosition } from './game/types';
 import type { UnitCard } from './game/UnitCardDeck';
@@ -44,8 +46,11 @@ let battleArena: BattleArena | null = null;
 
 const STARTING_CHIPS = 500;
 
+// Run battle combat in a Web Worker (opt in with ?worker) so big battles don't block the UI
+const USE_BATTLE_WORKER = new URLSearchParams(window.location.search).has('worker');
+
 // Game mode
-type GameMode = 'menu' | 'poker' | 'positioning' | 'battle';
+type GameMode = 'menu' | 'poker' | 'positioning' | 'battle' | 'replay';
 let gameMode: GameMode = 'menu';
 
 function render(): void {
@@ -149,6 +154,21 @@ function renderMenu(): void {
   ctx.fillText('ALL SWORDSMEN', swordBtnX + testBtnWidth / 2, swordBtnY + 26);
 
   (canvas as any).swordsmenButton = { x: swordBtnX, y: swordBtnY, width: testBtnWidth, height: testBtnHeight };
+
+  // Draw load replay button below all swordsmen
+  const replayBtnX = testBtnX;
+  const replayBtnY = swordBtnY + testBtnHeight + 10;
+
+  ctx.fillStyle = '#3b82f6';
+  ctx.beginPath();
+  ctx.roundRect(replayBtnX, replayBtnY, testBtnWidth, testBtnHeight, 8);
+  ctx.fill();
+
+  ctx.fillStyle = '#fff';
+  ctx.font = 'bold 12px monospace';
+  ctx.fillText('LOAD REPLAY', replayBtnX + testBtnWidth / 2, replayBtnY + 26);
+
+  (canvas as any).loadReplayButton = { x: replayBtnX, y: replayBtnY, width: testBtnWidth, height: testBtnHeight };
 }
 
 // Track card reveal for table_reveal phase
@@ -243,7 +263,7 @@ function enterPositioning(): void {
     } else {
       showHandResult(winner, state);
     }
-  });
+  }, { useWorker: USE_BATTLE_WORKER });
 
   battleArena.setupBattle({
     playerUnits: getPlayerUnits('player'),
@@ -264,7 +284,9 @@ function enterPositioning(): void {
       bottomRight: getKeptModifiers('bottomRight')
     },
     playerGodCards: getPlayerGodCards('player'),
-    opponentGodCards: getPlayerGodCards('opponent')
+    opponentGodCards: getPlayerGodCards('opponent'),
+    seed: pokerGame.nextBattleSeed(),
+    safeZone: DEFAULT_SAFE_ZONE
   });
 
   // Enter positioning mode
@@ -292,6 +314,11 @@ function showHandResult(winner: PlayerPosition | 'tie', state: PokerGameState):
     resultTitle.textContent = 'Opponent Wins';
     resultMessage.textContent = `Opponent won ${state.pot} chips.`;
     resultTitle.style.color = '#ef4444';
+  } else if (winner !== 'tie') {
+    // One of the other seats took the battle - the heads-up pot is split between you and the opponent
+    resultTitle.textContent = `${PLAYER_NAMES[winner]} Wins`;
+    resultMessage.textContent = 'Pot split evenly between you and the opponent.';
+    resultTitle.style.color = PLAYER_COLORS[winner];
   } else {
     resultTitle.textContent = 'Tie!';
     resultMessage.textContent = 'Pot split evenly.';
@@ -375,13 +402,15 @@ function stopPokerAnimationLoop(): void {
 
 // Test battle - skip poker and go straight to battle with 6 teams
 function startTestBattle(): void {
-  const unitTypes: Array<'knight' | 'swordsman' | 'archer' | 'mage' | 'healer'> = ['knight', 'swordsman', 'archer', 'mage', 'healer'];
+  const unitTypes: Array<'knight' | 'swordsman' | 'archer' | 'mage' | 'healer' | 'cavalry' | 'assassin'> = ['knight', 'swordsman', 'archer', 'mage', 'healer', 'cavalry', 'assassin'];
   const unitColors: Record<string, string> = {
     knight: '#f59e0b',
     swordsman: '#ef4444',
     archer: '#22c55e',
     mage: '#a855f7',
-    healer: '#22d3ee'
+    healer: '#22d3ee',
+    cavalry: '#a16207',
+    assassin: '#64748b'
   };
 
   const randomType = () => unitTypes[Math.floor(Math.random() * unitTypes.length)];
@@ -407,7 +436,7 @@ function startTestBattle(): void {
     console.log('Battle ended, winner:', winner);
     // Start a new test battle (rematch)
     startTestBattle();
-  });
+  }, { useWorker: USE_BATTLE_WORKER });
 
   battleArena.setupBattle({
     playerUnits,
@@ -475,7 +504,7 @@ function startSwordsmanBattle(): void {
     console.log('Battle ended, winner:', winner);
     // Start a new swordsman battle (rematch)
     startSwordsmanBattle();
-  });
+  }, { useWorker: USE_BATTLE_WORKER });
 
   battleArena.setupBattle({
     playerUnits,
@@ -493,6 +522,38 @@ function startSwordsmanBattle(): void {
   gameMode = 'positioning';
 }
 
+// Replay files are picked with a hidden file input
+const replayFileInput = document.createElement('input');
+replayFileInput.type = 'file';
+replayFileInput.accept = '.json,application/json';
+replayFileInput.style.display = 'none';
+document.body.appendChild(replayFileInput);
+
+replayFileInput.addEventListener('change', async () => {
+  const file = replayFileInput.files?.[0];
+  replayFileInput.value = '';
+  if (!file) return;
+
+  try {
+    const replay = parseReplay(await file.text());
+    watchReplayFromMenu(replay);
+  } catch (error) {
+    console.error('Failed to load replay:', error);
+    alert(`Could not load replay: ${error instanceof Error ? error.message : error}`);
+  }
+});
+
+// Watch a loaded replay, returning to the menu when it's closed
+function watchReplayFromMenu(replay: BattleReplay): void {
+  battleArena = new BattleArena(canvas, () => {}, { useWorker: USE_BATTLE_WORKER });
+  battleArena.watchReplay(replay, () => {
+    battleArena = null;
+    gameMode = 'menu';
+    render();
+  });
+  gameMode = 'replay';
+}
+
 // Mouse position helper
 function getMousePos(e: MouseEvent): { x: number; y: number } {
   const rect = canvas.getBoundingClientRect();
@@ -526,6 +587,18 @@ canvas.addEventListener('click', (e) => {
         pos.y >= swordBtn.y && pos.y <= swordBtn.y + swordBtn.height) {
       startSwordsmanBattle();
     }
+    // Check load replay button
+    const replayBtn = (canvas as any).loadReplayButton;
+    if (replayBtn && pos.x >= replayBtn.x && pos.x <= replayBtn.x + replayBtn.width &&
+        pos.y >= replayBtn.y && pos.y <= replayBtn.y + replayBtn.height) {
+      replayFileInput.click();
+    }
+    return;
+  }
+
+  // Watching a replay (loaded from the menu or opened from the battle summary)
+  if ((gameMode === 'replay' || gameMode === 'battle') && battleArena?.isWatchingReplay()) {
+    battleArena.handleReplayClick(pos.x, pos.y);
     return;
   }
 
@@ -598,7 +671,13 @@ canvas.addEventListener('click', (e) => {
   if (gameMode === 'battle' && battleArena) {
     // Check if showing summary screen (battle ended)
     if (battleArena.isShowingSummary()) {
-      battleArena.handleRematchClick(pos.x, pos.y);
+      if (!battleArena.handleSummaryReplayClick(pos.x, pos.y)) {
+        battleArena.handleRematchClick(pos.x, pos.y);
+      }
+      return;
+    }
+    // Speed / pause control and combat log panel
+    if (battleArena.handleSpeedControlClick(pos.x, pos.y) || battleArena.handleCombatLogClick(pos.x, pos.y)) {
       return;
     }
     // Check if clicking on god cards UI first
@@ -610,6 +689,23 @@ canvas.addEventListener('click', (e) => {
   }
 });
 
+// Battle shortcuts (Space/P pause, 1-4 = 0.5x/1x/2x/4x, L combat log; replays: arrows seek, Escape closes)
+window.addEventListener('keydown', (e) => {
+  if ((gameMode === 'battle' || gameMode === 'replay') && battleArena?.handleKeyDown(e.key)) {
+    e.preventDefault();
+  }
+});
+
+// Scroll the combat log panel
+canvas.addEventListener('wheel', (e) => {
+  if ((gameMode === 'battle' || gameMode === 'replay') && battleArena) {
+    const pos = getMousePos(e);
+    if (battleArena.handleWheel(pos.x, pos.y, e.deltaY)) {
+      e.preventDefault();
+    }
+  }
+}, { passive: false });
+
 // Slider drag handling
 let isDraggingSlider = false;
 
@@ -825,7 +921,7 @@ function startAutoBattle(): void {
     pokerGame?.setPhase('choose');
     gameMode = 'poker';
     startPokerAnimationLoop();
-  });
+  }, { useWorker: USE_BATTLE_WORKER });
 
   battleArena.setupBattle({
     playerUnits: getPlayerUnits('player'),
@@ -846,7 +942,9 @@ function startAutoBattle(): void {
       bottomRight: getKeptModifiers('bottomRight')
     },
     playerGodCards: getPlayerGodCards('player'),
-    opponentGodCards: getPlayerGodCards('opponent')
+    opponentGodCards: getPlayerGodCards('opponent'),
+    seed: pokerGame.nextBattleSeed(),
+    safeZone: DEFAULT_SAFE_ZONE
   });
 
   // Skip positioning, go straight to battle